@@ -11,9 +11,15 @@ import AuctionDetail from "./pages/AuctionDetail";
 import CreateAuction from "./pages/CreateAuction";
 import MyBids from "./pages/MyBids";
 import MyAuctions from "./pages/MyAuctions";
+import Watchlist from "./pages/Watchlist";
+import NotificationSettings from "./pages/NotificationSettings";
+import Sessions from "./pages/Sessions";
 import AuctionAnalytics from "./pages/AuctionAnalytics";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import VerifyEmail from "./pages/VerifyEmail";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 
 const queryClient = new QueryClient();
@@ -29,11 +35,23 @@ const App = () => (
           <Route path="/auction/:id" element={<AuctionDetail />} />
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={
+            <ProtectedRoute>
+              <VerifyEmail />
+            </ProtectedRoute>
+          } />
           <Route path="/create-auction" element={
             <ProtectedRoute>
               <CreateAuction />
             </ProtectedRoute>
           } />
+          <Route path="/create-auction/:draftId" element={
+            <ProtectedRoute>
+              <CreateAuction />
+            </ProtectedRoute>
+          } />
           <Route path="/my-bids" element={
             <ProtectedRoute>
               <MyBids />
@@ -44,13 +62,28 @@ const App = () => (
               <MyAuctions />
             </ProtectedRoute>
           } />
+          <Route path="/watchlist" element={
+            <ProtectedRoute>
+              <Watchlist />
+            </ProtectedRoute>
+          } />
+          <Route path="/settings/notifications" element={
+            <ProtectedRoute>
+              <NotificationSettings />
+            </ProtectedRoute>
+          } />
+          <Route path="/settings/sessions" element={
+            <ProtectedRoute>
+              <Sessions />
+            </ProtectedRoute>
+          } />
           <Route path="/auction-analytics/:id" element={
             <ProtectedRoute>
               <AuctionAnalytics />
             </ProtectedRoute>
           } />
           <Route path="/admin/*" element={
-            <ProtectedRoute adminOnly={true}>
+            <ProtectedRoute permission="admin:access">
               <AdminDashboard />
             </ProtectedRoute>
           } />
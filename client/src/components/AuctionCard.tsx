@@ -1,4 +1,4 @@
-import { Heart, Eye, Clock, Calendar } from "lucide-react";
+import { Heart, Eye, Clock, Calendar, TrendingDown } from "lucide-react";
 // --- Update type import ---
 // import { Auction } from "@/data/auctions"; // Remove old type
 import { IAuction } from "@/types/auction"; // Import the correct interface
@@ -7,9 +7,13 @@ import { auctionService } from "@/services/auctionService";
 // --- Import useState for potential loading/error states on like ---
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast"; // Assuming you have a toast hook
+import { useDutchPrice } from "@/hooks/use-dutch-price";
 import { formatDistanceToNow, format, parseISO } from "date-fns"; // parseISO is good for string dates
 import { cn } from "@/lib/utils";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import { AxiosError } from "axios";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAuctionDisplayStatus } from "@/utils/dateUtils";
 
 interface AuctionCardProps {
   // --- Use the correct interface ---
@@ -25,7 +29,10 @@ const PLACEHOLDER_IMAGE_URL = "https://via.placeholder.com/300x200/e2e8f0/94a3b8
 const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
   // --- State for Like button interaction (loading/disabled) ---
   const [isLiking, setIsLiking] = useState(false);
+  const [isWatching, setIsWatching] = useState(!!auction.isWatched);
   const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
 
   // Note: The 'liked' status (filled heart) ideally requires knowing the current user's ID
   // and checking against auction.likedBy. Without user context here, we can't reliably show
@@ -70,6 +77,32 @@ const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
     }
   };
 
+  // Upcoming auctions: watch it, so the user is notified when bidding opens
+  const handleNotifyMe = async () => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+    try {
+      await auctionService.watchAuction(auction._id);
+      setIsWatching(true);
+      toast({
+        title: "Added to your watchlist",
+        description: "We'll notify you when bidding opens.",
+      });
+    } catch (err) {
+      let errorMessage = "Could not add the auction to your watchlist.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     // Formatting function remains the same
     // ... (keep existing implementation) ...
@@ -101,7 +134,8 @@ const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
     'ending-soon': 'bg-orange-100 text-orange-800',
     'ended': 'bg-gray-100 text-gray-800',
     'upcoming': 'bg-blue-100 text-blue-800',
-    'invalid-dates': 'bg-red-100 text-red-800', // Handle potential invalid status
+    'draft': 'bg-gray-100 text-gray-600',
+    'cancelled': 'bg-red-100 text-red-800',
   };
 
   const statusText = {
@@ -109,12 +143,19 @@ const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
     'ending-soon': `Ends in ${timeLeft}`,
     'ended': 'Ended',
     'upcoming': startTimeDate ? `Starts ${format(startTimeDate, 'MMM d')}` : 'Upcoming',
-    'invalid-dates': 'Invalid Dates',
+    'draft': 'Draft',
+    'cancelled': 'Cancelled',
   };
 
-  const currentStatus = auction.status || 'active'; // Default status if undefined
+  const currentStatus = getAuctionDisplayStatus(auction);
+  const isOver = currentStatus === 'ended' || currentStatus === 'cancelled';
   const isEndingSoon = currentStatus === 'ending-soon';
   const isUpcoming = currentStatus === 'upcoming';
+  // Dutch auctions show their falling price live until someone accepts it
+  const isDutch = auction.auctionType === 'dutch';
+  const { price: dutchPrice } = useDutchPrice(
+    isDutch && !isOver && auction.bidCount === 0 ? auction : null
+  );
 
   // Determine image URL - prioritize imageUrl, fallback to images[0], then placeholder
   const displayImageUrl = auction.imageUrl || (auction.images && auction.images.length > 0 ? auction.images[0] : PLACEHOLDER_IMAGE_URL);
@@ -172,7 +213,22 @@ const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
           <p className="text-gray-500 text-sm line-clamp-2 mb-3 h-[40px]">{auction.description}</p> {/* Fixed height for consistency */}
 
           <div className="flex justify-between items-center mb-3">
-            {isUpcoming ? (
+            {dutchPrice !== null ? (
+              <div>
+                <p className="flex items-center text-xs text-gray-500">
+                  <TrendingDown className="h-3 w-3 mr-1" />
+                  {isUpcoming ? "Opening price" : "Price now"}
+                </p>
+                <p className="text-lg font-bold text-auction-purple">
+                  {formatCurrency(dutchPrice)}
+                </p>
+                {auction.dutchSchedule && (
+                  <p className="text-xs text-gray-500">
+                    Drops {formatCurrency(auction.dutchSchedule.decrement)} every {auction.dutchSchedule.intervalMinutes} min
+                  </p>
+                )}
+              </div>
+            ) : isUpcoming ? (
               <div>
                 <p className="text-xs text-gray-500">Starting bid</p>
                 <p className="text-lg font-bold text-auction-purple">
@@ -181,32 +237,40 @@ const AuctionCard = ({ auction, index = 0 }: AuctionCardProps) => {
               </div>
             ) : (
               <div>
-                <p className="text-xs text-gray-500">Current bid</p>
+                <p className="text-xs text-gray-500">{isDutch ? (auction.bidCount > 0 ? "Sold for" : "Opening price") : auction.bidsSealed ? "Sealed bids from" : auction.isMultiUnit ? `Per unit · ${auction.quantity} units` : "Current bid"}</p>
                 <p className="text-lg font-bold text-auction-purple">
                   {formatCurrency(auction.currentBid)}
                 </p>
+                {/* Only the met/not met flag is public, never the reserve amount */}
+                {auction.hasReserve && !auction.bidsSealed && (
+                  <p className={cn("text-xs", auction.reserveMet ? "text-green-600" : "text-orange-600")}>
+                    {auction.reserveMet ? "Reserve met" : "Reserve not met"}
+                  </p>
+                )}
               </div>
             )}
             <div className="text-right">
                {/* --- Use auction.bidCount --- */}
               <p className="text-xs text-gray-500">{auction.bidCount ?? 0} bids</p> {/* Handle null/undefined */}
-               {/* --- Bid Button (Functionality TBD) --- */}
+               {/* --- Bid Button: opens the auction, or watches an upcoming one --- */}
               <button
                  onClick={(e) => {
                    e.preventDefault();
                    e.stopPropagation();
-                   // TODO: Implement bid/notify logic or navigation
-                   console.log("Bid/Notify clicked for:", auction._id);
-                   // Potentially navigate: navigate(`/auctions/${auction._id}`)
+                   if (isUpcoming) {
+                     handleNotifyMe();
+                   } else {
+                     navigate(`/auction/${auction._id}`);
+                   }
                  }}
-                 // Disable if ended
-                 disabled={currentStatus === 'ended'}
+                 // Disable if ended, or already watching an upcoming one
+                 disabled={isOver || (isUpcoming && isWatching)}
                 className={cn(
                   "mt-1 bg-auction-purple hover:bg-auction-purple-dark text-white py-1 px-3 rounded-full text-sm transition-colors",
-                  currentStatus === 'ended' && "opacity-50 cursor-not-allowed bg-gray-400 hover:bg-gray-400"
+                  isOver && "opacity-50 cursor-not-allowed bg-gray-400 hover:bg-gray-400"
                 )}
               >
-                {isUpcoming ? "Details" : (currentStatus === 'ended' ? "Ended" : "Bid Now")}
+                {isUpcoming ? (isWatching ? "Watching" : "Notify Me") : (isOver ? statusText[currentStatus] : isDutch ? "Buy Now" : "Bid Now")}
               </button>
             </div>
           </div>
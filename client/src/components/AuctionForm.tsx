@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -25,16 +25,34 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // --- Import the auction service and relevant types ---
 import { auctionService } from "@/services/auctionService";
-import { IAuctionCreatePayload, IAuctionDocument } from "@/types/auction"; // Adjust path if needed
+import {
+  IAuctionCreatePayload,
+  IAuctionDocument,
+  IAuctionUpdatePayload,
+  IIncrementTier,
+} from "@/types/auction"; // Adjust path if needed
 
 // Schema remains the same
 const auctionFormSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   startingBid: z.coerce.number().positive("Starting bid must be positive"),
+  // Identical units in the listing; above 1 makes a multi-unit lot (English only)
+  quantity: z.coerce.number().int("Quantity must be a whole number").min(1, "Quantity must be at least 1"),
+  // Hidden reserve; 0 means no reserve
+  reservePrice: z.coerce.number().min(0, "Reserve price cannot be negative"),
+  // Optional Buy It Now price; 0 means not offered
+  buyNowPrice: z.coerce.number().min(0, "Buy It Now price cannot be negative"),
   // Renamed to match payload expectation more closely, but keep 'endDate' for user clarity if preferred.
   // Sticking with 'endDate' as per original schema for consistency in the form. Will map later.
   endDate: z
@@ -44,10 +62,45 @@ const auctionFormSchema = z.object({
     .refine((date) => date > new Date(), {
       message: "End date must be in the future",
     }),
+  // Auction format; Dutch auctions use the price schedule below instead of bids,
+  // sealed-bid auctions take one hidden bid per bidder
+  auctionType: z.enum(["english", "dutch", "sealed"]),
+  sealedPricing: z.enum(["first-price", "second-price"]),
+  dutchDecrement: z.coerce.number().min(0, "Cannot be negative"),
+  dutchIntervalMinutes: z.coerce.number().min(0, "Cannot be negative"),
+  dutchFloorPrice: z.coerce.number().min(0, "Floor price cannot be negative"),
+  // Minimum bid increment rule ('tiered' uses the tier table kept in state)
+  incrementType: z.enum(["fixed", "percentage", "tiered"]),
+  incrementValue: z.coerce.number().positive("Increment must be positive"),
+  // Soft close (anti-sniping); 0 minutes turns it off
+  softCloseWindow: z.coerce.number().min(0, "Cannot be negative"),
+  softCloseExtension: z.coerce.number().min(0, "Cannot be negative"),
   // --- Optional fields (add if needed in the form) ---
   // category: z.string().optional(),
   // location: z.string().optional(),
   // startTime: z.date().optional().refine( ... validation ... ),
+}).refine((data) => data.auctionType !== "dutch" || data.dutchDecrement > 0, {
+  message: "The price must drop by a positive amount",
+  path: ["dutchDecrement"],
+}).refine((data) => data.auctionType !== "dutch" || data.dutchIntervalMinutes >= 1, {
+  message: "The interval must be at least 1 minute",
+  path: ["dutchIntervalMinutes"],
+}).refine((data) => data.auctionType !== "dutch" || data.dutchFloorPrice < data.startingBid, {
+  message: "The floor price must be below the opening price",
+  path: ["dutchFloorPrice"],
+}).refine((data) => data.auctionType === "dutch" || data.reservePrice === 0 || data.reservePrice >= data.startingBid, {
+  message: "Reserve price cannot be below the starting bid",
+  path: ["reservePrice"],
+}).refine((data) => data.auctionType === "english" || data.quantity === 1, {
+  message: "Only English auctions can sell more than one unit",
+  path: ["quantity"],
+}).refine((data) => data.quantity === 1 || data.buyNowPrice === 0, {
+  message: "Multi-unit lots can't have a Buy It Now price",
+  path: ["buyNowPrice"],
+}).refine((data) => data.auctionType !== "english" || data.buyNowPrice === 0 ||
+  (data.buyNowPrice > data.startingBid && data.buyNowPrice >= data.reservePrice), {
+  message: "Buy It Now price must be above the starting bid and no lower than the reserve",
+  path: ["buyNowPrice"],
 });
 
 type AuctionFormValues = z.infer<typeof auctionFormSchema>;
@@ -83,12 +136,35 @@ const demoDocumentTypes: IAuctionDocument[] = [
   },
 ];
 
-const AuctionForm = () => {
+// Starting point for a tiered increment table: $1 under $100, $5 under $1000, $25 above
+const defaultIncrementTiers: IIncrementTier[] = [
+  { upTo: 100, increment: 1 },
+  { upTo: 1000, increment: 5 },
+  { upTo: null, increment: 25 },
+];
+
+// How long edits have to settle before they are autosaved into the draft
+const AUTOSAVE_DELAY_MS = 2000;
+
+interface AuctionFormProps {
+  draftId?: string; // Resume an existing draft instead of starting a new one
+}
+
+const AuctionForm = ({ draftId }: AuctionFormProps) => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [images, setImages] = useState<string[]>([]);
   const [documents, setDocuments] = useState<IAuctionDocument[]>([]); // Use the imported type
+  const [incrementTiers, setIncrementTiers] = useState<IIncrementTier[]>(
+    defaultIncrementTiers
+  );
+  // --- Draft autosave ---
+  const [editVersion, setEditVersion] = useState(0); // Bumped on every user edit
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const draftIdRef = useRef<string | undefined>(draftId);
+  const pendingDraftSave = useRef<Promise<void> | null>(null);
 
   const form = useForm<AuctionFormValues>({
     resolver: zodResolver(auctionFormSchema),
@@ -96,34 +172,186 @@ const AuctionForm = () => {
       title: "",
       description: "",
       startingBid: 0,
+      quantity: 1,
+      reservePrice: 0,
+      buyNowPrice: 0,
+      auctionType: "english",
+      sealedPricing: "first-price",
+      dutchDecrement: 10,
+      dutchIntervalMinutes: 60,
+      dutchFloorPrice: 0,
+      incrementType: "fixed",
+      incrementValue: 1,
+      softCloseWindow: 0,
+      softCloseExtension: 0,
       // endDate: undefined, // Or set a default future date if desired
     },
   });
 
+  const markEdited = () => setEditVersion((version) => version + 1);
+
+  // Typing in any field counts as an edit; form.reset() (loading a draft) has no field name
+  useEffect(() => {
+    const subscription = form.watch((_, { name }) => {
+      if (name) markEdited();
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  // Load the draft being resumed
+  useEffect(() => {
+    if (!draftId) return;
+    auctionService
+      .getAuctionDetails(draftId)
+      .then((draft) => {
+        if (draft.status !== "draft") {
+          toast({
+            title: "Not a draft",
+            description: "Only drafts can be edited here.",
+            variant: "destructive",
+          });
+          navigate("/my-auctions");
+          return;
+        }
+        const rule = draft.bidIncrement;
+        form.reset({
+          title: draft.title ?? "",
+          description: draft.description ?? "",
+          startingBid: draft.startingBid ?? 0,
+          quantity: draft.quantity ?? 1,
+          reservePrice: draft.reservePrice ?? 0,
+          buyNowPrice: draft.buyNowPrice ?? 0,
+          auctionType: draft.auctionType ?? "english",
+          sealedPricing: draft.sealedPricing ?? "first-price",
+          dutchDecrement: draft.dutchSchedule?.decrement ?? 10,
+          dutchIntervalMinutes: draft.dutchSchedule?.intervalMinutes ?? 60,
+          dutchFloorPrice: draft.dutchSchedule?.floorPrice ?? 0,
+          endDate: draft.endTime ? new Date(draft.endTime) : undefined,
+          incrementType: rule?.type ?? "fixed",
+          incrementValue: rule?.value ?? 1,
+          softCloseWindow: draft.softClose?.windowMinutes ?? 0,
+          softCloseExtension: draft.softClose?.extensionMinutes ?? 0,
+        });
+        setImages(draft.images ?? []);
+        setDocuments(draft.documents ?? []);
+        if (rule?.type === "tiered" && rule.tiers?.length) {
+          setIncrementTiers(rule.tiers);
+        }
+        setDraftSavedAt(new Date(draft.updatedAt));
+      })
+      .catch((error) => {
+        console.error("Error loading draft:", error);
+        toast({
+          title: "Could not load draft",
+          description: "The draft may have been deleted.",
+          variant: "destructive",
+        });
+      });
+    // Load once per draft; form, toast and navigate are stable
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftId]);
+
+  // Whatever has been filled in so far; the server only validates on publish
+  const buildPayload = (values: Partial<AuctionFormValues>): IAuctionUpdatePayload => {
+    const isDutch = values.auctionType === "dutch";
+    const isSealed = values.auctionType === "sealed";
+    const quantity = !isDutch && !isSealed ? values.quantity ?? 1 : 1;
+    return {
+      title: values.title,
+      description: values.description,
+      startingBid: values.startingBid,
+      endTime: values.endDate?.toISOString(), // Map endDate -> endTime
+      images: images, // Use images from state
+      documents: documents, // Use documents from state
+      // Add other optional fields if they are part of the form/state
+      // category: values.category,
+      // location: values.location,
+      // startTime: values.startTime?.toISOString(),
+      imageUrl: images.length > 0 ? images[0] : undefined, // Optionally set the first image as the primary imageUrl
+      bidIncrement:
+        values.incrementType === "tiered"
+          ? { type: "tiered", tiers: incrementTiers }
+          : { type: values.incrementType ?? "fixed", value: values.incrementValue },
+      // Dutch auctions sell at the falling price: no reserve or Buy It Now.
+      // Sealed-bid auctions can have a reserve but not Buy It Now.
+      reservePrice: !isDutch && values.reservePrice ? values.reservePrice : null,
+      buyNowPrice: !isDutch && !isSealed && quantity === 1 && values.buyNowPrice ? values.buyNowPrice : null,
+      quantity: quantity,
+      auctionType: values.auctionType ?? "english",
+      dutchSchedule: isDutch
+        ? {
+            decrement: values.dutchDecrement ?? 0,
+            intervalMinutes: values.dutchIntervalMinutes ?? 0,
+            floorPrice: values.dutchFloorPrice ?? 0,
+          }
+        : null,
+      sealedPricing: isSealed ? values.sealedPricing ?? "first-price" : null,
+      softClose: {
+        windowMinutes: values.softCloseWindow ?? 0,
+        extensionMinutes: values.softCloseExtension ?? 0,
+      },
+    };
+  };
+
+  // Saves the current form into the draft, creating the draft on first save.
+  // Saves run one at a time so a second save reuses the first one's new draft.
+  const saveDraft = async () => {
+    if (pendingDraftSave.current) await pendingDraftSave.current;
+    const payload = buildPayload(form.getValues());
+    const request = (async () => {
+      setIsSavingDraft(true);
+      try {
+        const saved = draftIdRef.current
+          ? await auctionService.updateAuction(draftIdRef.current, payload)
+          : await auctionService.saveDraft(payload);
+        draftIdRef.current = saved._id;
+        setDraftSavedAt(new Date());
+      } catch (error) {
+        console.error("Error autosaving draft:", error);
+      } finally {
+        setIsSavingDraft(false);
+      }
+    })();
+    pendingDraftSave.current = request;
+    await request;
+    pendingDraftSave.current = null;
+  };
+
+  // Autosave once edits settle; submitting takes over from here
+  useEffect(() => {
+    if (editVersion === 0 || isSubmitting) return;
+    const timer = setTimeout(saveDraft, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // Only edits should schedule a save, not every re-render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editVersion, isSubmitting]);
+
   // *** MODIFIED onSubmit Function ***
   const onSubmit = async (data: AuctionFormValues) => {
     setIsSubmitting(true);
 
     // --- Prepare the payload for the API ---
     const payload: IAuctionCreatePayload = {
+      ...buildPayload(data),
       title: data.title,
       description: data.description,
       startingBid: data.startingBid,
       endTime: data.endDate.toISOString(), // Convert Date to ISO string, map endDate -> endTime
-      images: images, // Use images from state
-      documents: documents, // Use documents from state
-      // Add other optional fields if they are part of the form/state
-      // category: data.category,
-      // location: data.location,
-      // startTime: data.startTime?.toISOString(),
-      imageUrl: images.length > 0 ? images[0] : undefined, // Optionally set the first image as the primary imageUrl
     };
 
     console.log("Submitting auction payload:", payload);
 
     try {
       // --- Call the auction service ---
-      const createdAuction = await auctionService.createAuction(payload);
+      // An autosaved draft gets the final values and is published; otherwise create directly
+      if (pendingDraftSave.current) await pendingDraftSave.current;
+      let createdAuction;
+      if (draftIdRef.current) {
+        await auctionService.updateAuction(draftIdRef.current, payload);
+        createdAuction = await auctionService.publishAuction(draftIdRef.current);
+      } else {
+        createdAuction = await auctionService.createAuction(payload);
+      }
       // --------------------------------
 
       console.log("Auction created successfully:", createdAuction); // Log the response from the backend
@@ -137,6 +365,7 @@ const AuctionForm = () => {
       form.reset();
       setImages([]);
       setDocuments([]);
+      setIncrementTiers(defaultIncrementTiers);
 
       // Navigate to the home page or the newly created auction page
       // navigate(`/auctions/${createdAuction._id}`); // Option: Navigate to detail page
@@ -168,6 +397,7 @@ const AuctionForm = () => {
     if (images.length < 5) {
       const randomIndex = Math.floor(Math.random() * demoImageUrls.length);
       setImages([...images, demoImageUrls[randomIndex]]);
+      markEdited();
     } else {
       toast({
         title: "Maximum 5 images",
@@ -181,6 +411,7 @@ const AuctionForm = () => {
     const newImages = [...images];
     newImages.splice(index, 1);
     setImages(newImages);
+    markEdited();
   };
 
   const handleDocumentUpload = () => {
@@ -190,6 +421,7 @@ const AuctionForm = () => {
 
       if (!documents.some((doc) => doc.name === docType.name)) {
         setDocuments([...documents, docType]);
+        markEdited();
       } else {
         toast({
           title: "Document already added",
@@ -209,9 +441,42 @@ const AuctionForm = () => {
     const newDocuments = [...documents];
     newDocuments.splice(index, 1);
     setDocuments(newDocuments);
+    markEdited();
+  };
+
+  // --- Increment tier table handling ---
+  // Tiers stay sorted by their upper bound; the last one is always "and above".
+  const updateTier = (index: number, changes: Partial<IIncrementTier>) => {
+    setIncrementTiers(
+      incrementTiers.map((tier, i) =>
+        i === index ? { ...tier, ...changes } : tier
+      )
+    );
+    markEdited();
+  };
+
+  const addTier = () => {
+    const bounded = incrementTiers.slice(0, -1);
+    const lastBound = bounded.length > 0 ? bounded[bounded.length - 1].upTo : 0;
+    const unbounded = incrementTiers[incrementTiers.length - 1];
+    setIncrementTiers([
+      ...bounded,
+      { upTo: (lastBound ?? 0) * 10 || 100, increment: unbounded.increment },
+      unbounded,
+    ]);
+    markEdited();
+  };
+
+  const removeTier = (index: number) => {
+    setIncrementTiers(incrementTiers.filter((_, i) => i !== index));
+    markEdited();
   };
   // --------------------------------------------------------------
 
+  const isDutch = form.watch("auctionType") === "dutch";
+  const isSealed = form.watch("auctionType") === "sealed";
+  const isLot = !isDutch && !isSealed && form.watch("quantity") > 1;
+
   return (
     // --- Form JSX remains largely the same ---
     <Form {...form}>
@@ -306,6 +571,65 @@ const AuctionForm = () => {
           )}
         />
 
+        {/* Auction Format */}
+        <FormField
+          control={form.control}
+          name="auctionType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Auction Format</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a format" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="english">English (rising bids)</SelectItem>
+                  <SelectItem value="dutch">Dutch (falling price)</SelectItem>
+                  <SelectItem value="sealed">Sealed bid (hidden bids)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {isDutch
+                  ? "The price starts high and drops on your schedule. The first buyer to accept it wins."
+                  : isSealed
+                    ? "Each buyer places one hidden bid. Bids are revealed when the auction ends and the highest wins."
+                    : "Buyers bid against each other and the highest bid wins."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Sealed-bid pricing rule */}
+        {isSealed && (
+          <FormField
+            control={form.control}
+            name="sealedPricing"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Winner Pays</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a pricing rule" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="first-price">Their own bid (first-price)</SelectItem>
+                    <SelectItem value="second-price">The second-highest bid (Vickrey)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  With second-price, the winner never pays below your starting bid or reserve.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {/* Starting Bid Field */}
         <FormField
           control={form.control}
@@ -313,7 +637,7 @@ const AuctionForm = () => {
           // ... render logic ...
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Starting Bid ($)</FormLabel>
+              <FormLabel>{isDutch ? "Opening Price ($)" : isLot ? "Starting Bid per Unit ($)" : "Starting Bid ($)"}</FormLabel>
               <FormControl>
                 <div className="relative">
                   {/* Consider adding $ symbol inside if needed */}
@@ -330,13 +654,299 @@ const AuctionForm = () => {
                 </div>
               </FormControl>
               <FormDescription>
-                Set the minimum bid for your auction. Must be greater than 0.
+                {isDutch
+                  ? "The price the auction opens at. Must be greater than 0."
+                  : "Set the minimum bid for your auction. Must be greater than 0."}
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        {/* Quantity Field; several identical units clear at one price */}
+        {!isDutch && !isSealed && (
+          <FormField
+            control={form.control}
+            name="quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quantity</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min="1"
+                    step="1"
+                    onChange={(event) => field.onChange(+event.target.value)}
+                  />
+                </FormControl>
+                <FormDescription>
+                  {isLot
+                    ? "Buyers bid per unit for as many units as they want. The highest bids win and every winner pays the lowest winning bid."
+                    : "Number of identical units in this listing."}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isDutch ? (
+          // Dutch Price Schedule
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="dutchDecrement"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price Drop ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="e.g., 10.00"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    How much the price falls at each step.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dutchIntervalMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Every (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="e.g., 60"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    How often the price drops.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dutchFloorPrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Floor Price ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="e.g., 100.00"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    The price never drops below this.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        ) : (
+          <>
+            {/* Reserve Price Field */}
+            <FormField
+              control={form.control}
+              name="reservePrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reserve Price ($, optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="e.g., 200.00"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    The lowest price you'll sell at. Bidders only see whether it has
+                    been met. Leave at 0 for no reserve.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Buy It Now and increments only apply to open ascending bidding */}
+            {!isSealed && (
+              <>
+              {/* Buy It Now Price Field; not offered on multi-unit lots */}
+              {!isLot && (
+                <FormField
+                  control={form.control}
+                  name="buyNowPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Buy It Now Price ($, optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="e.g., 500.00"
+                          onChange={(event) => field.onChange(+event.target.value)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Lets a buyer end the auction immediately at this price, until
+                        bidding gets close to it. Leave at 0 to turn it off.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Bid Increment Rule */}
+              <FormField
+                control={form.control}
+                name="incrementType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Bid Increment</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an increment rule" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed amount</SelectItem>
+                        <SelectItem value="percentage">
+                          Percentage of current bid
+                        </SelectItem>
+                        <SelectItem value="tiered">Tiered by price</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How much each new bid must exceed the current bid by.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("incrementType") === "tiered" ? (
+                <div>
+                  <div className="space-y-2 mb-2">
+                    {incrementTiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-600 w-20 flex-shrink-0">
+                          {tier.upTo === null ? "Above" : "Under $"}
+                        </span>
+                        {tier.upTo === null ? (
+                          <span className="flex-1 text-sm text-gray-500">
+                            the previous tier
+                          </span>
+                        ) : (
+                          <Input
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            className="flex-1"
+                            value={tier.upTo}
+                            onChange={(e) =>
+                              updateTier(index, { upTo: +e.target.value })
+                            }
+                            aria-label={`Tier ${index + 1} upper bound`}
+                          />
+                        )}
+                        <span className="text-sm text-gray-600">step $</span>
+                        <Input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          className="w-28"
+                          value={tier.increment}
+                          onChange={(e) =>
+                            updateTier(index, { increment: +e.target.value })
+                          }
+                          aria-label={`Tier ${index + 1} increment`}
+                        />
+                        {tier.upTo !== null && incrementTiers.length > 2 ? (
+                          <button
+                            type="button"
+                            onClick={() => removeTier(index)}
+                            className="text-gray-500 hover:text-red-500 flex-shrink-0"
+                            aria-label={`Remove tier ${index + 1}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        ) : (
+                          <span className="w-4 flex-shrink-0" />
+                        )}
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={addTier}
+                      className="w-full p-2 border-2 border-dashed border-gray-300 rounded-md flex items-center justify-center text-gray-500 hover:border-auction-purple hover:text-auction-purple transition-colors"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      <span className="text-sm">Add Tier</span>
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Tiers must be in ascending order. The step of the first tier the
+                    current bid falls under applies.
+                  </p>
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="incrementValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {form.watch("incrementType") === "percentage"
+                          ? "Increment (%)"
+                          : "Increment ($)"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          onChange={(event) => field.onChange(+event.target.value)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              </>
+            )}
+          </>
+        )}
+
         {/* End Date Field */}
         <FormField
           control={form.control}
@@ -389,6 +999,58 @@ const AuctionForm = () => {
           )}
         />
 
+        {/* Soft Close (Anti-Sniping); a Dutch auction ends at the first acceptance
+            and sealed bids cannot be seen to be sniped */}
+        {!isDutch && !isSealed && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="softCloseWindow"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Soft Close Window (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="1"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Bids in the final minutes extend the auction. 0 turns this
+                    off.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="softCloseExtension"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Extension (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="1"
+                      onChange={(event) => field.onChange(+event.target.value)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    How long after a late bid the auction then ends.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
         {/* Document Upload Section */}
         <div>
           <h3 className="text-sm font-medium mb-2">
@@ -435,7 +1097,13 @@ const AuctionForm = () => {
         </div>
 
         {/* Action Buttons */}
-        <div className="flex justify-end gap-3 pt-4 border-t mt-6">
+        <div className="flex items-center justify-end gap-3 pt-4 border-t mt-6">
+          {/* Autosave status; the draft stays private under My Auctions until created */}
+          <p className="mr-auto text-xs text-gray-500">
+            {isSavingDraft
+              ? "Saving draft..."
+              : draftSavedAt && `Draft saved at ${format(draftSavedAt, "p")}`}
+          </p>
           <Button
             type="button"
             variant="outline"
@@ -4,90 +4,139 @@ import { formatDistanceToNow } from "date-fns";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
+import { bidService } from "@/services/bidService";
+import { IAuctionClosedEvent, IBid, IBidRetractedEvent, INewBidEvent, ISealedBid, ISealedBidEvent } from "@/types/bid";
+import { useAuctionEvent } from "@/hooks/use-auction-event";
+import { useAuth } from "@/contexts/AuthContext";
+import RetractBidDialog from "@/components/auction/RetractBidDialog";
 
 export interface Bid {
   id: string;
   userId: string;
   userName: string;
   userAvatar: string;
-  amount: number;
+  amount: number | null; // null while a sealed bid is hidden; per unit on multi-unit lots
+  quantity?: number; // Units asked for, on multi-unit lots
+  sequence?: number; // Arrival order within the auction; missing on older bids
   timestamp: Date;
   message?: string;
+  isAutoBid?: boolean;
+  isBuyNow?: boolean;
+  isAcceptance?: boolean;
+  isSealed?: boolean;
+  isRetracted?: boolean; // Shown struck through; no longer counts
 }
 
 interface BidTimelineProps {
   auctionId: string;
+  canRetract?: boolean; // The auction is live, so bidders may ask to retract their bids
 }
 
-// Dummy data for bid history
-const generateDummyBids = (auctionId: string): Bid[] => {
-  return [
-    {
-      id: "b1",
-      userId: "u1",
-      userName: "JohnBidder",
-      userAvatar: "https://randomuser.me/api/portraits/men/32.jpg",
-      amount: 520,
-      timestamp: new Date(Date.now() - 1000 * 60 * 10), // 10 minutes ago
-      message: "This item is amazing! Increasing my bid."
-    },
-    {
-      id: "b2",
-      userId: "u2",
-      userName: "AuctionPro",
-      userAvatar: "https://randomuser.me/api/portraits/women/44.jpg",
-      amount: 500,
-      timestamp: new Date(Date.now() - 1000 * 60 * 25), // 25 minutes ago
-    },
-    {
-      id: "b3",
-      userId: "u3",
-      userName: "CollectorX",
-      userAvatar: "https://randomuser.me/api/portraits/men/67.jpg",
-      amount: 480,
-      timestamp: new Date(Date.now() - 1000 * 60 * 60), // 1 hour ago
-    },
-    {
-      id: "b4",
-      userId: "u4",
-      userName: "VintageLover",
-      userAvatar: "https://randomuser.me/api/portraits/women/28.jpg",
-      amount: 450,
-      timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2), // 2 hours ago
-      message: "I've been looking for this everywhere!"
+// Map a bid from the API (or a socket event) to the shape rendered below
+const mapApiBid = (bid: IBid | ISealedBid): Bid => {
+  if ("isSealed" in bid) {
+    return {
+      id: bid._id,
+      userId: "",
+      userName: "Sealed bid",
+      userAvatar: "",
+      amount: null,
+      sequence: bid.sequence,
+      timestamp: new Date(bid.createdAt),
+      isSealed: true,
+      isRetracted: bid.isRetracted,
+    };
+  }
+
+  const bidder = typeof bid.bidder === "object" ? bid.bidder : null;
+  return {
+    id: bid._id,
+    userId: bidder?._id ?? (bid.bidder as string),
+    userName: bidder?.name ?? "Unknown bidder",
+    userAvatar: bidder?.profilePictureUrl ?? "",
+    amount: bid.amount,
+    quantity: bid.quantity,
+    sequence: bid.sequence,
+    timestamp: new Date(bid.createdAt),
+    isAutoBid: bid.isAutoBid,
+    isBuyNow: bid.isBuyNow,
+    isAcceptance: bid.isAcceptance,
+    isRetracted: bid.isRetracted,
+  };
+};
+
+// Orders bids newest first. Bids from one request share a timestamp, so the
+// server's sequence number decides; older bids without one go last.
+const compareNewestFirst = (a: Bid, b: Bid): number =>
+  (b.sequence ?? 0) - (a.sequence ?? 0) || b.timestamp.getTime() - a.timestamp.getTime();
+
+// The leading bid: highest amount, earliest first on a tie. Sealed bids are
+// listed by time once revealed, so the newest bid is not always the highest.
+const getLeadingBidId = (bids: Bid[]): string | null => {
+  let leading: Bid | null = null;
+  for (const bid of bids) {
+    if (bid.amount === null || bid.isRetracted) continue;
+    if (!leading || bid.amount > leading.amount! ||
+      (bid.amount === leading.amount && compareNewestFirst(bid, leading) > 0)) {
+      leading = bid;
     }
-  ];
+  }
+  return leading?.id ?? null;
 };
 
-const BidTimeline = ({ auctionId }: BidTimelineProps) => {
+const BidTimeline = ({ auctionId, canRetract = false }: BidTimelineProps) => {
+  const { user } = useAuth();
   const [bids, setBids] = useState<Bid[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
 
-  // Simulate loading bid data
+  // Load the bid history for this auction
   useEffect(() => {
-    // In a real app, you would fetch the bids from an API
-    setBids(generateDummyBids(auctionId));
-
-    // Simulate real-time updates by adding a new bid every few seconds
-    const interval = setInterval(() => {
-      if (Math.random() > 0.7) { // 30% chance of a new bid
-        const newBid: Bid = {
-          id: `bid-${Date.now()}`,
-          userId: `user-${Math.floor(Math.random() * 100)}`,
-          userName: ["QuickBidder", "AuctionFan", "CollectorElite", "VintageHunter"][Math.floor(Math.random() * 4)],
-          userAvatar: `https://randomuser.me/api/portraits/${Math.random() > 0.5 ? 'men' : 'women'}/${Math.floor(Math.random() * 70)}.jpg`,
-          amount: bids.length > 0 ? bids[0].amount + Math.floor(Math.random() * 20) + 5 : 450,
-          timestamp: new Date(),
-          message: Math.random() > 0.7 ? "I need this in my collection!" : undefined
-        };
-        
-        setBids(prevBids => [newBid, ...prevBids]);
+    let cancelled = false;
+
+    const fetchBids = async () => {
+      try {
+        const response = await bidService.getBidsForAuction(auctionId);
+        if (!cancelled) setBids(response.bids.map(mapApiBid));
+      } catch (error) {
+        console.error("Failed to load bid history:", error);
       }
-    }, 8000);
+    };
+
+    fetchBids();
+    return () => {
+      cancelled = true;
+    };
+  }, [auctionId, reloadKey]);
 
-    return () => clearInterval(interval);
-  }, [auctionId]);
+  // Add bids pushed by the server as they are committed. Events can arrive
+  // out of order, so the list is re-sorted rather than simply prepended to.
+  const prependBid = (bid: IBid | ISealedBid) => {
+    setBids(prevBids =>
+      prevBids.some(existing => existing.id === bid._id)
+        ? prevBids
+        : [mapApiBid(bid), ...prevBids].sort(compareNewestFirst)
+    );
+  };
+
+  useAuctionEvent<INewBidEvent>(auctionId, "new_bid", ({ bid }) => prependBid(bid));
+  useAuctionEvent<ISealedBidEvent>(auctionId, "sealed_bid", ({ bid }) => prependBid(bid));
+
+  // An admin approved a retraction; the bid stays listed, marked as retracted
+  useAuctionEvent<IBidRetractedEvent>(auctionId, "bid_retracted", ({ bidId }) => {
+    setBids(prevBids =>
+      prevBids.map(bid => bid.id === bidId ? { ...bid, isRetracted: true } : bid)
+    );
+  });
+
+  // Reload once the auction closes, which is when sealed bids are revealed
+  useAuctionEvent<IAuctionClosedEvent>(auctionId, "auction_closed", () => {
+    setReloadKey(key => key + 1);
+  });
 
-  const formatCurrency = (amount: number) => {
+  const leadingBidId = getLeadingBidId(bids);
+
+  const formatCurrency = (amount: number | null) => {
+    if (amount === null) return "Hidden";
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency: 'USD',
@@ -134,7 +183,7 @@ const BidTimeline = ({ auctionId }: BidTimelineProps) => {
                   <div 
                     className={cn(
                       "absolute left-[26px] w-3 h-3 rounded-full border-2 border-white z-10",
-                      index === 0 ? "bg-green-500" : "bg-gray-300"
+                      bid.id === leadingBidId ? "bg-green-500" : "bg-gray-300"
                     )} 
                   />
                   
@@ -142,7 +191,7 @@ const BidTimeline = ({ auctionId }: BidTimelineProps) => {
                   <div className="absolute left-0">
                     <Avatar className={cn(
                       "border-2", 
-                      index === 0 ? "border-green-500" : "border-white"
+                      bid.id === leadingBidId ? "border-green-500" : "border-white"
                     )}>
                       <AvatarImage src={bid.userAvatar} alt={bid.userName} />
                       <AvatarFallback>{getInitials(bid.userName)}</AvatarFallback>
@@ -152,19 +201,31 @@ const BidTimeline = ({ auctionId }: BidTimelineProps) => {
                   {/* Content */}
                   <div className={cn(
                     "rounded-lg p-4 w-full",
-                    index === 0 ? "bg-green-50 border border-green-100" : "bg-gray-50 border border-gray-100"
+                    bid.id === leadingBidId ? "bg-green-50 border border-green-100" : "bg-gray-50 border border-gray-100"
                   )}>
                     <div className="flex justify-between">
                       <div>
                         <p className={cn(
                           "font-semibold",
-                          index === 0 ? "text-green-800" : "text-gray-900"
+                          bid.id === leadingBidId ? "text-green-800" : "text-gray-900"
                         )}>
                           {bid.userName}
+                          {bid.isAutoBid && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">(auto-bid)</span>
+                          )}
+                          {bid.isBuyNow && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">(Buy It Now)</span>
+                          )}
+                          {bid.isAcceptance && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">(accepted price)</span>
+                          )}
+                          {bid.isRetracted && (
+                            <span className="ml-2 text-xs font-normal text-red-500">(retracted)</span>
+                          )}
                         </p>
                         <p className={cn(
                           "text-sm mt-0.5",
-                          index === 0 ? "text-green-700" : "text-gray-500"
+                          bid.id === leadingBidId ? "text-green-700" : "text-gray-500"
                         )}>
                           {formatDistanceToNow(bid.timestamp, { addSuffix: true })}
                         </p>
@@ -172,15 +233,29 @@ const BidTimeline = ({ auctionId }: BidTimelineProps) => {
                       <div>
                         <p className={cn(
                           "text-lg font-bold",
-                          index === 0 ? "text-green-600" : "text-auction-purple"
+                          bid.id === leadingBidId ? "text-green-600" : bid.isSealed || bid.isRetracted ? "text-gray-400" : "text-auction-purple",
+                          bid.isRetracted && "line-through"
                         )}>
                           {formatCurrency(bid.amount)}
+                          {bid.quantity !== undefined && bid.quantity > 1 && (
+                            <span className="ml-1 text-sm font-normal text-gray-500">× {bid.quantity}</span>
+                          )}
                         </p>
-                        {index === 0 && (
+                        {bid.id === leadingBidId && (
                           <div className="text-xs text-green-600 font-medium bg-green-100 px-2 py-0.5 rounded-full text-center mt-1">
                             Highest Bid
                           </div>
                         )}
+                        {canRetract && user?.id === bid.userId && !bid.isRetracted &&
+                          !bid.isSealed && !bid.isBuyNow && !bid.isAcceptance && (
+                          <div className="text-right mt-1">
+                            <RetractBidDialog
+                              auctionId={auctionId}
+                              bidId={bid.id}
+                              amountText={formatCurrency(bid.amount)}
+                            />
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { ShoppingCart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { auctionService } from "@/services/auctionService";
+import { IBuyNowApiResponse } from "@/types/bid";
+import { AxiosError } from "axios";
+
+interface BuyNowButtonProps {
+  auctionId: string;
+  buyNowPrice: number;
+  onBought?: (response: IBuyNowApiResponse) => void;
+  className?: string;
+}
+
+// Buys the item outright after a confirmation step, ending the auction.
+const BuyNowButton = ({ auctionId, buyNowPrice, onBought, className }: BuyNowButtonProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const handleBuyNow = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await auctionService.buyNow(auctionId);
+      toast({
+        title: "Item purchased!",
+        description: `You bought this item for ${formatCurrency(buyNowPrice)}.`,
+      });
+      onBought?.(response);
+    } catch (err) {
+      let errorMessage = "Could not complete your purchase. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Purchase failed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className={cn("gap-2 whitespace-nowrap border-auction-purple text-auction-purple", className)}
+          disabled={isSubmitting}
+        >
+          <ShoppingCart className="h-4 w-4" />
+          {isSubmitting ? "Buying..." : `Buy Now ${formatCurrency(buyNowPrice)}`}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Buy this item now?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You're committing to pay {formatCurrency(buyNowPrice)}. The auction ends immediately
+            and you become the winner. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleBuyNow}>
+            Buy Now
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BuyNowButton;
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/contexts/AuthContext";
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 60; // Matches the server's resend cooldown
+
+interface EmailVerificationFormProps {
+  email: string;
+  onVerified: () => void;
+  codeJustSent?: boolean; // Start with the resend cooldown running
+}
+
+// Enter the code emailed at signup, or ask for a new one
+const EmailVerificationForm = ({ email, onVerified, codeJustSent = true }: EmailVerificationFormProps) => {
+  const { verifyEmail, resendVerificationCode } = useAuth();
+  const [code, setCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [resendIn, setResendIn] = useState(codeJustSent ? RESEND_COOLDOWN_SECONDS : 0);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== OTP_LENGTH || isVerifying) return;
+    setIsVerifying(true);
+    const verified = await verifyEmail(value);
+    setIsVerifying(false);
+    if (verified) {
+      onVerified();
+    } else {
+      setCode("");
+    }
+  };
+
+  const handleResend = async () => {
+    setResendIn(RESEND_COOLDOWN_SECONDS);
+    const sent = await resendVerificationCode();
+    if (!sent) setResendIn(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600 text-center">
+        We sent a {OTP_LENGTH}-digit code to <span className="font-medium text-gray-900">{email}</span>.
+        Enter it below to verify your email address{codeJustSent ? "" : ", or request a new code if it has expired"}.
+      </p>
+
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={OTP_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={handleVerify}
+          disabled={isVerifying}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: OTP_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      <Button
+        type="button"
+        className="w-full bg-auction-purple hover:bg-auction-purple-dark"
+        disabled={code.length !== OTP_LENGTH || isVerifying}
+        onClick={() => handleVerify()}
+      >
+        {isVerifying ? "Verifying..." : "Verify email"}
+      </Button>
+
+      <p className="text-sm text-center text-gray-600">
+        Didn't get it?{" "}
+        <button
+          type="button"
+          className="font-medium text-auction-purple hover:text-auction-purple-dark disabled:text-gray-400 disabled:cursor-not-allowed"
+          disabled={resendIn > 0}
+          onClick={handleResend}
+        >
+          {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+        </button>
+      </p>
+    </div>
+  );
+};
+
+export default EmailVerificationForm;
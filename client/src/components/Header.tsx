@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
+import NotificationBell from "@/components/NotificationBell";
 
 const Header = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -63,11 +64,23 @@ const Header = () => {
                   >
                     My Auctions
                   </Link>
+                  <Link
+                    to="/watchlist"
+                    className={cn(
+                      "inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium",
+                      currentPath === "/watchlist" 
+                        ? "border-auction-purple text-gray-900" 
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                    )}
+                  >
+                    Watchlist
+                  </Link>
                 </>
               )}
             </nav>
           </div>
           <div className="hidden sm:ml-6 sm:flex sm:items-center sm:space-x-4">
+            {isAuthenticated && <NotificationBell />}
             {isAuthenticated ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -95,6 +108,12 @@ const Header = () => {
                   <DropdownMenuItem className="cursor-pointer">
                     <Link to="/account" className="w-full">Account</Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem className="cursor-pointer">
+                    <Link to="/settings/notifications" className="w-full">Notification Settings</Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem className="cursor-pointer">
+                    <Link to="/settings/sessions" className="w-full">Active Sessions</Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem className="cursor-pointer text-red-600" onClick={logout}>
                     <LogOut className="h-4 w-4 mr-2" />
@@ -113,7 +132,8 @@ const Header = () => {
               </div>
             )}
           </div>
-          <div className="flex items-center sm:hidden">
+          <div className="flex items-center gap-2 sm:hidden">
+            {isAuthenticated && <NotificationBell />}
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-auction-purple"
@@ -163,6 +183,17 @@ const Header = () => {
               >
                 My Auctions
               </Link>
+              <Link
+                to="/watchlist"
+                className={cn(
+                  "block pl-3 pr-4 py-2 border-l-4 text-base font-medium",
+                  currentPath === "/watchlist"
+                    ? "bg-auction-purple bg-opacity-10 border-auction-purple text-auction-purple"
+                    : "border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700"
+                )}
+              >
+                Watchlist
+              </Link>
             </>
           )}
           
@@ -238,6 +269,16 @@ const Header = () => {
           </div>
         )}
       </div>
+
+      {/* Unverified accounts can browse but not bid or sell */}
+      {isAuthenticated && user && !user.isEmailVerified && currentPath !== "/verify-email" && (
+        <div className="bg-amber-50 border-t border-amber-200 px-4 py-2 text-center text-sm text-amber-800">
+          Verify your email address to start bidding and selling.{" "}
+          <Link to="/verify-email" className="font-medium underline hover:text-amber-900">
+            Verify now
+          </Link>
+        </div>
+      )}
     </header>
   );
 };
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { bidService } from "@/services/bidService";
+import { IPlaceBidApiResponse, IPlaceBidErrorResponse, IProxyBid } from "@/types/bid";
+import { AxiosError } from "axios";
+
+interface MaxBidControlProps {
+  auctionId: string;
+  currentBid: number;
+  minimumBid: number; // Lowest acceptable bid under the auction's increment rule
+  maxBid: IProxyBid | null; // The user's active maximum bid, if any
+  onMaxBidChange: (maxBid: IProxyBid | null) => void;
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void;
+  className?: string;
+}
+
+// Lets a bidder set, change or cancel a private maximum bid that the server
+// bids up to on their behalf.
+const MaxBidControl = ({ auctionId, currentBid, minimumBid, maxBid, onMaxBidChange, onBidPlaced, className }: MaxBidControlProps) => {
+  const [open, setOpen] = useState(false);
+  const [maxAmount, setMaxAmount] = useState<number | string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const getErrorMessage = (err: unknown, fallback: string) => {
+    if (err instanceof AxiosError && err.response?.data?.message) {
+      return (err.response.data as IPlaceBidErrorResponse).message;
+    }
+    return fallback;
+  };
+
+  const handleSetMaxBid = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericMax = Number(maxAmount);
+    if (isNaN(numericMax) || numericMax < minimumBid) {
+      toast({
+        title: "Invalid maximum bid",
+        description: `Your maximum bid must be at least ${formatCurrency(minimumBid)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await bidService.placeBid(auctionId, { maxAmount: numericMax });
+      onMaxBidChange(response.proxyBid);
+      onBidPlaced?.(response);
+
+      toast(response.isHighestBidder ? {
+        title: "Maximum bid set",
+        description: `We'll bid for you up to ${formatCurrency(numericMax)}.`,
+      } : {
+        title: "You've been outbid",
+        description: `Another bidder's maximum is higher. The current bid is now ${formatCurrency(response.auction.currentBid)}.`,
+        variant: "destructive"
+      });
+
+      setMaxAmount("");
+      setOpen(false);
+    } catch (err) {
+      toast({
+        title: "Maximum bid not set",
+        description: getErrorMessage(err, "Could not set your maximum bid. Please try again."),
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelMaxBid = async () => {
+    setIsSubmitting(true);
+    try {
+      await bidService.cancelProxyBid(auctionId);
+      onMaxBidChange(null);
+      toast({
+        title: "Maximum bid cancelled",
+        description: "Bids already placed for you still stand.",
+      });
+    } catch (err) {
+      toast({
+        title: "Could not cancel",
+        description: getErrorMessage(err, "Could not cancel your maximum bid. Please try again."),
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isReached = !!maxBid && maxBid.maxAmount <= currentBid;
+
+  return (
+    <div className={cn("flex items-center gap-2 text-sm", className)}>
+      {maxBid && (
+        <span className={cn("whitespace-nowrap", isReached ? "text-orange-600" : "text-gray-600")}>
+          Max bid: <span className="font-medium">{formatCurrency(maxBid.maxAmount)}</span>
+          {isReached && " (reached)"}
+        </span>
+      )}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-1" disabled={isSubmitting}>
+            <Zap className="h-3.5 w-3.5" />
+            {maxBid ? "Change" : "Set max bid"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end">
+          <form onSubmit={handleSetMaxBid} className="space-y-3">
+            <div>
+              <label htmlFor={`maxBid-${auctionId}`} className="block text-sm font-medium text-gray-700 mb-1">
+                Maximum bid
+              </label>
+              <p className="text-xs text-gray-500 mb-2">
+                We'll bid the minimum needed to keep you in the lead, up to this amount. Other bidders never see it.
+              </p>
+              <div className="relative">
+                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                  <span className="text-gray-500 sm:text-sm">$</span>
+                </div>
+                <Input
+                  type="number"
+                  id={`maxBid-${auctionId}`}
+                  className="pl-7"
+                  placeholder={`${minimumBid}`}
+                  min={minimumBid}
+                  step="0.01"
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full bg-auction-purple hover:bg-auction-purple-dark" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Set Maximum Bid"}
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      {maxBid && (
+        <Button type="button" variant="ghost" size="sm" onClick={handleCancelMaxBid} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default MaxBidControl;
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { useUserEvent } from "@/hooks/use-user-event";
+import { cn } from "@/lib/utils";
+import { notificationService } from "@/services/notificationService";
+import { INotification } from "@/types/notification";
+
+const NOTIFICATIONS_SHOWN = 20;
+
+// Bell in the header: the latest notifications with an unread badge. New ones
+// are pushed live by the server and also pop up as a toast.
+const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<INotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await notificationService.getNotifications({ limit: NOTIFICATIONS_SHOWN });
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useUserEvent<INotification>("notification", (notification) => {
+    setNotifications(prev =>
+      prev.some(existing => existing._id === notification._id)
+        ? prev
+        : [notification, ...prev].slice(0, NOTIFICATIONS_SHOWN)
+    );
+    setUnreadCount(count => count + 1);
+    toast({
+      title: notification.title,
+      description: notification.message,
+      action: notification.link ? (
+        <ToastAction altText="View" asChild>
+          <Link to={notification.link}>View</Link>
+        </ToastAction>
+      ) : undefined,
+    });
+  });
+
+  const handleSelect = async (notification: INotification) => {
+    if (!notification.readAt) {
+      try {
+        const response = await notificationService.markAsRead(notification._id);
+        setNotifications(prev =>
+          prev.map(existing => existing._id === notification._id ? response.notification : existing)
+        );
+        setUnreadCount(response.unreadCount);
+      } catch (error) {
+        console.error("Failed to mark notification as read:", error);
+      }
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async (e: Event) => {
+    e.preventDefault(); // Keep the menu open
+    try {
+      await notificationService.markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(notification => notification.readAt ? notification : { ...notification, readAt }));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-auction-purple"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-6 w-6" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <DropdownMenuItem
+              className="cursor-pointer text-xs text-auction-purple"
+              onSelect={handleMarkAllRead}
+            >
+              Mark all read
+            </DropdownMenuItem>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">You have no notifications yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification._id}
+                className={cn(
+                  "cursor-pointer flex flex-col items-start gap-0.5 py-2",
+                  !notification.readAt && "bg-auction-purple/5"
+                )}
+                onSelect={() => handleSelect(notification)}
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className={cn("text-sm", !notification.readAt && "font-semibold")}>
+                    {notification.title}
+                  </span>
+                  {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-auction-purple" />}
+                </div>
+                {notification.message && (
+                  <span className="text-xs text-gray-600">{notification.message}</span>
+                )}
+                <span className="text-xs text-gray-400">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
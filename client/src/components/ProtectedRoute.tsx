@@ -1,15 +1,15 @@
 
-import { Navigate, useLocation } from "react-router-dom";
+import { Navigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/types/permission";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  adminOnly?: boolean;
+  permission?: Permission; // Also require this permission, e.g. 'admin:access'
 }
 
-const ProtectedRoute = ({ children, adminOnly = false }: ProtectedRouteProps) => {
-  const { isAuthenticated, isLoading, user, isAdmin } = useAuth();
-  const location = useLocation();
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const { isAuthenticated, isLoading, hasPermission } = useAuth();
   
   // Show loading state while checking authentication
   if (isLoading) {
@@ -25,12 +25,9 @@ const ProtectedRoute = ({ children, adminOnly = false }: ProtectedRouteProps) =>
     return <Navigate to="/login" />;
   }
   
-  // Check if route requires admin privileges
-  if (adminOnly || location.pathname.startsWith("/admin")) {
-    // Check if user is admin
-    if (!isAdmin) {
-      return <Navigate to="/" />;
-    }
+  // Check if route requires a permission
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/" />;
   }
   
   // Render children if authenticated and authorized
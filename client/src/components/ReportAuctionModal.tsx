@@ -1,5 +1,7 @@
 
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AxiosError } from "axios";
 import { Flag } from "lucide-react";
 import {
   Dialog,
@@ -14,29 +16,34 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { auctionService } from "@/services/auctionService";
+import { REPORT_REASONS } from "@/lib/reports";
+import { ReportReason } from "@/types/report";
 
 interface ReportAuctionModalProps {
   auctionId: string;
   auctionTitle: string;
 }
 
-const REPORT_REASONS = [
-  { id: "counterfeit", label: "Counterfeit or replica item" },
-  { id: "inappropriate", label: "Inappropriate or offensive content" },
-  { id: "prohibited", label: "Prohibited or illegal item" },
-  { id: "misrepresented", label: "Item misrepresented or misdescribed" },
-  { id: "scam", label: "Potential scam or fraud" },
-  { id: "other", label: "Other concern" }
-];
-
 const ReportAuctionModal = ({ auctionId, auctionTitle }: ReportAuctionModalProps) => {
-  const [selectedReasons, setSelectedReasons] = useState<string[]>([]);
+  const [selectedReasons, setSelectedReasons] = useState<ReportReason[]>([]);
   const [additionalDetails, setAdditionalDetails] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && !isAuthenticated) {
+      navigate('/login'); // Reports are tied to an account
+      return;
+    }
+    setIsOpen(open);
+  };
 
-  const handleReasonToggle = (reasonId: string) => {
+  const handleReasonToggle = (reasonId: ReportReason) => {
     if (selectedReasons.includes(reasonId)) {
       setSelectedReasons(selectedReasons.filter(id => id !== reasonId));
     } else {
@@ -44,7 +51,7 @@ const ReportAuctionModal = ({ auctionId, auctionTitle }: ReportAuctionModalProps
     }
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (selectedReasons.length === 0) {
       toast({
         title: "Selection required",
@@ -55,30 +62,36 @@ const ReportAuctionModal = ({ auctionId, auctionTitle }: ReportAuctionModalProps
     }
 
     setIsSubmitting(true);
-    
-    // In a real app, you would send the report to your API
-    console.log("Submitting report", { 
-      auctionId, 
-      reasons: selectedReasons, 
-      additionalDetails 
-    });
-    
-    // Simulate API call
-    setTimeout(() => {
-      setIsSubmitting(false);
+    try {
+      await auctionService.reportAuction(auctionId, {
+        reasons: selectedReasons,
+        details: additionalDetails.trim() || undefined,
+      });
       setIsOpen(false);
       setSelectedReasons([]);
       setAdditionalDetails("");
-      
+
       toast({
         title: "Report submitted",
         description: "Thank you for helping keep our platform safe.",
       });
-    }, 1000);
+    } catch (err) {
+      let errorMessage = "Could not submit your report. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Report not submitted",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button 
           variant="outline" 
@@ -130,6 +143,7 @@ const ReportAuctionModal = ({ auctionId, auctionTitle }: ReportAuctionModalProps
               value={additionalDetails}
               onChange={(e) => setAdditionalDetails(e.target.value)}
               rows={4}
+              maxLength={1000}
             />
           </div>
         </div>
@@ -1,25 +1,36 @@
-import { useState } from "react";
 import { Clock, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { usePlaceBid } from "@/hooks/use-place-bid";
 import { formatDistanceToNow } from "date-fns";
 import { User } from "@/contexts/AuthContext"; // Import User type
+import { IAuctionExtendedEvent, IBuyNowApiResponse, INewBidEvent, IPlaceBidApiResponse, IProxyBid } from "@/types/bid";
+import MaxBidControl from "@/components/MaxBidControl";
+import BuyNowButton from "@/components/BuyNowButton";
+import { useAuctionEvent } from "@/hooks/use-auction-event";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
 
 interface StickyBidFooterProps {
   auctionId: string;
   currentBid: number;
+  minimumBid: number; // Lowest acceptable bid under the auction's increment rule
   endTime: Date;
   isEndingSoon: boolean;
-  status: 'active' | 'ending-soon' | 'ended' | 'upcoming';
+  status: AuctionDisplayStatus;
   user: User | null; // Add user prop
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void; // Called with the updated auction state
+  maxBid?: IProxyBid | null; // The user's active maximum bid, if any
+  onMaxBidChange?: (maxBid: IProxyBid | null) => void;
+  buyNowPrice?: number | null; // Shown only while buyNowAvailable
+  buyNowAvailable?: boolean;
+  onBought?: (response: IBuyNowApiResponse) => void;
 }
 
-const StickyBidFooter = ({ auctionId, currentBid, endTime, isEndingSoon, status, user }: StickyBidFooterProps) => {
-  const [bidAmount, setBidAmount] = useState<number | string>("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+const StickyBidFooter = ({ auctionId, currentBid, minimumBid, endTime, isEndingSoon, status, user, onBidPlaced, maxBid = null, onMaxBidChange, buyNowPrice = null, buyNowAvailable = false, onBought }: StickyBidFooterProps) => {
+  const { bidAmount, setBidAmount, isSubmitting, handlePlaceBid } = usePlaceBid(auctionId, minimumBid, onBidPlaced);
   const { toast } = useToast();
   
   // Calculate percentage of time remaining
@@ -28,37 +39,6 @@ const StickyBidFooter = ({ auctionId, currentBid, endTime, isEndingSoon, status,
   const progress = Math.max(0, Math.min(100, (remaining / totalDuration) * 100));
   
   const timeLeft = formatDistanceToNow(endTime, { addSuffix: false });
-  
-  const handlePlaceBid = (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      // Validate bid amount
-      const numericBid = Number(bidAmount);
-      
-      if (isNaN(numericBid) || numericBid <= currentBid) {
-        toast({
-          title: "Invalid bid amount",
-          description: `Your bid must be higher than the current bid of $${currentBid}.`,
-          variant: "destructive"
-        });
-      } else {
-        // In a real app, you would send the bid to your API
-        console.log("Placing bid", { auctionId, amount: numericBid });
-        
-        toast({
-          title: "Bid placed successfully!",
-          description: `You placed a bid of $${numericBid}.`,
-        });
-        
-        setBidAmount("");
-      }
-      
-      setIsSubmitting(false);
-    }, 1000);
-  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -69,19 +49,37 @@ const StickyBidFooter = ({ auctionId, currentBid, endTime, isEndingSoon, status,
     }).format(amount);
   };
 
+  // Let the user know as soon as someone else raises the price
+  useAuctionEvent<INewBidEvent>(auctionId, "new_bid", ({ currentBid: newCurrentBid, highestBidder }) => {
+    if (!user || highestBidder?._id === user.id) return;
+    toast({
+      title: "New bid placed",
+      description: `The current bid is now ${formatCurrency(newCurrentBid)}.`,
+    });
+  });
+
+  // Late bids inside the soft-close window push the end time out
+  useAuctionEvent<IAuctionExtendedEvent>(auctionId, "auction_extended", ({ endTime: newEndTime }) => {
+    toast({
+      title: "Auction extended",
+      description: `A late bid extended this auction. It now ends in ${formatDistanceToNow(new Date(newEndTime))}.`,
+    });
+  });
+
   const getBidButtonText = () => {
     if (isSubmitting) return "Placing Bid...";
     if (status === 'ended') return "Auction Ended";
+    if (status === 'cancelled') return "Auction Cancelled";
     if (status === 'upcoming') return "Auction Not Started";
     
     // If user has entered a valid bid amount
     const numericBid = Number(bidAmount);
-    if (!isNaN(numericBid) && numericBid > currentBid) {
+    if (!isNaN(numericBid) && numericBid >= minimumBid) {
       return `Place Bid (${formatCurrency(numericBid)})`;
     }
     
-    // Default text with suggested next bid
-    return `Bid ${formatCurrency(currentBid + 10)} or More`;
+    // Default text with the minimum next bid
+    return `Bid ${formatCurrency(minimumBid)} or More`;
   };
 
   return (
@@ -132,40 +130,64 @@ const StickyBidFooter = ({ auctionId, currentBid, endTime, isEndingSoon, status,
           
           {/* Bid Form */}
           {(status === 'active' || status === 'ending-soon') && user ? ( // Check for user
-            <form onSubmit={handlePlaceBid} className="flex items-center gap-2 w-full sm:w-auto">
-              <div className="relative w-full sm:w-36">
-                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                  <span className="text-gray-500 sm:text-sm">$</span>
+            <div className="flex flex-col sm:flex-row items-center gap-2 w-full sm:w-auto">
+              <form onSubmit={handlePlaceBid} className="flex items-center gap-2 w-full sm:w-auto">
+                <div className="relative w-full sm:w-36">
+                  <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                    <span className="text-gray-500 sm:text-sm">$</span>
+                  </div>
+                  <Input
+                    type="number"
+                    className="pl-7 pr-3"
+                    placeholder={`${minimumBid}`}
+                    min={minimumBid}
+                    step="0.01"
+                    value={bidAmount}
+                    onChange={(e) => setBidAmount(e.target.value)}
+                    required
+                  />
                 </div>
-                <Input
-                  type="number"
-                  className="pl-7 pr-3"
-                  placeholder={`${currentBid + 10}`}
-                  min={currentBid + 1}
-                  value={bidAmount}
-                  onChange={(e) => setBidAmount(e.target.value)}
-                  required
+                <Button 
+                  type="submit" 
+                  className={cn(
+                    "whitespace-nowrap h-10 w-full sm:w-auto",
+                    isEndingSoon ? "bg-orange-500 hover:bg-orange-600" : "bg-auction-purple hover:bg-auction-purple-dark",
+                    isEndingSoon && !bidAmount && "animate-pulse-slow"
+                  )}
+                  disabled={isSubmitting || (status !== 'active' && status !== 'ending-soon')}
+                >
+                  {getBidButtonText()}
+                </Button>
+              </form>
+              {/* Kept outside the form: the popover's form would bubble its submit into it */}
+              {onMaxBidChange && (
+                <MaxBidControl
+                  auctionId={auctionId}
+                  currentBid={currentBid}
+                  minimumBid={minimumBid}
+                  maxBid={maxBid}
+                  onMaxBidChange={onMaxBidChange}
+                  onBidPlaced={onBidPlaced}
                 />
-              </div>
-              <Button 
-                type="submit" 
-                className={cn(
-                  "whitespace-nowrap h-10 w-full sm:w-auto",
-                  isEndingSoon ? "bg-orange-500 hover:bg-orange-600" : "bg-auction-purple hover:bg-auction-purple-dark",
-                  isEndingSoon && !bidAmount && "animate-pulse-slow"
-                )}
-                disabled={isSubmitting || status === 'ended' || status === 'upcoming'}
-              >
-                {getBidButtonText()}
-              </Button>
-            </form>
+              )}
+              {buyNowAvailable && buyNowPrice && (
+                <BuyNowButton
+                  auctionId={auctionId}
+                  buyNowPrice={buyNowPrice}
+                  onBought={onBought}
+                  className="h-10 w-full sm:w-auto"
+                />
+              )}
+            </div>
           ) : (
             <div className="w-full sm:w-auto">
               <Button 
                 disabled
                 className="w-full sm:w-auto bg-gray-400"
               >
-                {user ? (status === 'ended' ? "Auction Ended" : "Auction Not Started") : "Login to Bid"}
+                {user
+                  ? (status === 'ended' ? "Auction Ended" : status === 'cancelled' ? "Auction Cancelled" : "Auction Not Started")
+                  : "Login to Bid"}
               </Button>
             </div>
           )}
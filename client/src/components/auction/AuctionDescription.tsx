@@ -3,6 +3,7 @@ import React from "react";
 import LinkifiedText from "@/components/LinkifiedText";
 import DocumentViewer from "@/components/DocumentViewer";
 import ReportAuctionModal from "@/components/ReportAuctionModal";
+import WatchButton from "@/components/auction/WatchButton";
 
 interface AuctionDescriptionProps {
   id: string;
@@ -17,14 +18,29 @@ interface AuctionDescriptionProps {
     url: string;
     type: string;
   }[];
+  canWatch?: boolean; // Signed in and not the seller
+  isWatched?: boolean;
+  watchCount?: number;
 }
 
-const AuctionDescription = ({ id, title, description, seller, documents }: AuctionDescriptionProps) => {
+const AuctionDescription = ({
+  id,
+  title,
+  description,
+  seller,
+  documents,
+  canWatch = false,
+  isWatched = false,
+  watchCount = 0,
+}: AuctionDescriptionProps) => {
   return (
     <div className="bg-white rounded-xl border border-gray-100 p-6 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
       <div className="flex justify-between items-start">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">{title}</h1>
-        <ReportAuctionModal auctionId={id} auctionTitle={title} />
+        <div className="flex items-center gap-2">
+          {canWatch && <WatchButton auctionId={id} isWatched={isWatched} watchCount={watchCount} />}
+          <ReportAuctionModal auctionId={id} auctionTitle={title} />
+        </div>
       </div>
       
       {/* Seller Information */}
@@ -4,15 +4,17 @@ import ImageSlideshow from "@/components/ImageSlideshow";
 import AuctionStatusBadge from "./AuctionStatusBadge";
 import EndingSoonBanner from "./EndingSoonBanner";
 import UpcomingAuctionBanner from "./UpcomingAuctionBanner";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
 
 interface AuctionImageSectionProps {
   title: string;
   images: string[];
-  status: 'active' | 'ending-soon' | 'ended' | 'upcoming';
+  status: AuctionDisplayStatus;
   timeLeft: string;
   isEndingSoon: boolean;
   isUpcoming: boolean;
   startTime?: Date;
+  isExtended?: boolean; // End time was pushed out by a late bid (soft close)
 }
 
 const AuctionImageSection = ({
@@ -22,7 +24,8 @@ const AuctionImageSection = ({
   timeLeft,
   isEndingSoon,
   isUpcoming,
-  startTime
+  startTime,
+  isExtended = false
 }: AuctionImageSectionProps) => {
   return (
     <div className="relative bg-white rounded-xl overflow-hidden border border-gray-100 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
@@ -32,7 +35,7 @@ const AuctionImageSection = ({
       <AuctionStatusBadge status={status} timeLeft={timeLeft} startTime={startTime} />
       
       {/* Time Left for Ending Soon Auctions */}
-      <EndingSoonBanner isEndingSoon={isEndingSoon} timeLeft={timeLeft} />
+      <EndingSoonBanner isEndingSoon={isEndingSoon} timeLeft={timeLeft} isExtended={isExtended} />
       
       {/* Info for Upcoming Auctions */}
       <UpcomingAuctionBanner isUpcoming={isUpcoming} startTime={startTime} />
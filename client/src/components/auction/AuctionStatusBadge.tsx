@@ -2,9 +2,10 @@
 import React from "react";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
 
 interface AuctionStatusBadgeProps {
-  status: 'active' | 'ending-soon' | 'ended' | 'upcoming';
+  status: AuctionDisplayStatus;
   timeLeft: string;
   startTime?: Date;
 }
@@ -23,6 +24,8 @@ const AuctionStatusBadge = ({ status, timeLeft, startTime }: AuctionStatusBadgeP
          status === 'ending-soon' ? `Ends in ${timeLeft}` : 
          status === 'upcoming' && startTime ? `Starts ${format(startTime, 'MMM d')}` :
          status === 'upcoming' ? 'Upcoming' :
+         status === 'draft' ? 'Draft' :
+         status === 'cancelled' ? 'Cancelled' :
          'Ended'}
       </span>
     </div>
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDutchPrice } from "@/hooks/use-dutch-price";
+import { auctionService } from "@/services/auctionService";
+import { IAuction } from "@/types/auction";
+import { IAcceptDutchApiResponse } from "@/types/bid";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
+import { AxiosError } from "axios";
+
+interface DutchPricePanelProps {
+  auction: IAuction;
+  status: AuctionDisplayStatus;
+  canAccept: boolean; // Logged in and not the seller
+  onAccepted?: (response: IAcceptDutchApiResponse) => void;
+}
+
+// Live falling price of a Dutch auction, with the button that accepts it.
+const DutchPricePanel = ({ auction, status, canAccept, onAccepted }: DutchPricePanelProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const { price, nextDropAt } = useDutchPrice(auction);
+  const isOpen = (status === "active" || status === "ending-soon") && auction.bidCount === 0;
+  const schedule = auction.dutchSchedule;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  // Accept the price shown; the server refuses if its own clock has it higher
+  const handleAccept = async (shownPrice: number) => {
+    setIsSubmitting(true);
+    try {
+      const response = await auctionService.acceptDutchPrice(auction._id, shownPrice);
+      toast({
+        title: "You won!",
+        description: `You bought this item for ${formatCurrency(response.bid.amount)}.`,
+      });
+      onAccepted?.(response);
+    } catch (err) {
+      let errorMessage = "Could not accept the price. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Accept failed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const displayPrice = auction.bidCount > 0 ? auction.currentBid : price ?? auction.startingBid;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6 animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
+      <h2 className="flex items-center gap-1 text-sm text-gray-500 uppercase">
+        <TrendingDown className="h-4 w-4" />
+        {auction.bidCount > 0 ? "Sold For" : status === "upcoming" ? "Opening Price" : "Price Now"}
+      </h2>
+      <div className="text-3xl font-bold text-auction-purple">
+        {formatCurrency(displayPrice)}
+      </div>
+      {schedule && (
+        <p className="text-sm text-gray-500">
+          Drops {formatCurrency(schedule.decrement)} every {schedule.intervalMinutes} min
+          {schedule.floorPrice > 0 && `, down to ${formatCurrency(schedule.floorPrice)}`}
+        </p>
+      )}
+      {isOpen && (
+        <p className="text-sm text-gray-500 mt-1">
+          {nextDropAt
+            ? `Next drop in ${formatDistanceToNowStrict(nextDropAt)}`
+            : "At its lowest price"}
+        </p>
+      )}
+
+      {isOpen && canAccept && price !== null && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              type="button"
+              className="w-full mt-4 bg-auction-purple hover:bg-auction-purple-dark text-white"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Accepting..." : `Accept ${formatCurrency(price)}`}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Buy this item at {formatCurrency(price)}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The first buyer to accept wins and the auction ends immediately.
+                If the price drops before you confirm, you pay the lower price. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleAccept(price)}>
+                Accept
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+};
+
+export default DutchPricePanel;
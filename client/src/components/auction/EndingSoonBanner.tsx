@@ -6,9 +6,10 @@ import { cn } from "@/lib/utils";
 interface EndingSoonBannerProps {
   isEndingSoon: boolean;
   timeLeft: string;
+  isExtended?: boolean; // A late bid pushed the end time out
 }
 
-const EndingSoonBanner = ({ isEndingSoon, timeLeft }: EndingSoonBannerProps) => {
+const EndingSoonBanner = ({ isEndingSoon, timeLeft, isExtended = false }: EndingSoonBannerProps) => {
   if (!isEndingSoon) return null;
   
   return (
@@ -16,6 +17,9 @@ const EndingSoonBanner = ({ isEndingSoon, timeLeft }: EndingSoonBannerProps) =>
       <div className="flex items-center text-white">
         <Clock className="h-5 w-5 mr-2 animate-pulse-slow" />
         <span className="font-medium">Ending soon! {timeLeft} left</span>
+        {isExtended && (
+          <span className="ml-2 text-sm text-white/80">(extended by a late bid)</span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { bidService } from "@/services/bidService";
+import { IAuction } from "@/types/auction";
+import { IPlaceBidApiResponse, IPlaceBidErrorResponse } from "@/types/bid";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
+import { AxiosError } from "axios";
+
+interface LotBidPanelProps {
+  auction: IAuction;
+  status: AuctionDisplayStatus;
+  userId: string | null; // Logged-in user, if any
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void;
+}
+
+// Multi-unit lot: bidders ask for a number of units at a per-unit price. The
+// highest bids take the units and every winner pays the lowest winning bid.
+const LotBidPanel = ({ auction, status, userId, onBidPlaced }: LotBidPanelProps) => {
+  const [bidAmount, setBidAmount] = useState<number | string>("");
+  const [quantity, setQuantity] = useState<number | string>(1);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const isOpen = status === "active" || status === "ending-soon";
+  const canBid = isOpen && !!userId && userId !== auction.seller?._id;
+  const isClosed = status === "ended";
+  const allocations = auction.allocations ?? [];
+  const unitsHeld = allocations
+    .filter(allocation => allocation.bidder === userId)
+    .reduce((total, allocation) => total + allocation.quantity, 0);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handlePlaceBid = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericBid = Number(bidAmount);
+    const numericQuantity = Number(quantity);
+    if (isNaN(numericBid) || numericBid < auction.minimumNextBid) {
+      toast({
+        title: "Invalid bid amount",
+        description: `Your bid must be at least ${formatCurrency(auction.minimumNextBid)} per unit.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!Number.isInteger(numericQuantity) || numericQuantity < 1 || numericQuantity > auction.quantity) {
+      toast({
+        title: "Invalid quantity",
+        description: `Ask for between 1 and ${auction.quantity} units.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await bidService.placeBid(auction._id, { amount: numericBid, quantity: numericQuantity });
+      const filled = response.bid?.filledQuantity ?? 0;
+      toast(filled > 0 ? {
+        title: "Bid placed successfully!",
+        description: filled === numericQuantity
+          ? `You're winning ${filled} ${filled === 1 ? "unit" : "units"} at ${formatCurrency(numericBid)} or less each.`
+          : `You're winning ${filled} of the ${numericQuantity} units you asked for.`,
+      } : {
+        title: "Bid placed, but not winning",
+        description: "Higher bids hold every unit. Raise your bid to win some.",
+        variant: "destructive"
+      });
+      setBidAmount("");
+      onBidPlaced?.(response);
+    } catch (err) {
+      let errorMessage = "Could not place your bid. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = (err.response.data as IPlaceBidErrorResponse).message;
+      }
+      toast({
+        title: "Bid not placed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6 animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
+      <h2 className="flex items-center gap-1 text-sm text-gray-500 uppercase">
+        <Layers className="h-4 w-4" />
+        {isClosed ? "Price Per Unit" : auction.bidCount > 0 ? "Clearing Price" : "Starting Bid"}
+      </h2>
+      <div className="text-3xl font-bold text-auction-purple">
+        {formatCurrency(auction.bidCount > 0 ? auction.currentBid : auction.startingBid)}
+        <span className="text-base font-normal text-gray-500"> / unit</span>
+      </div>
+      <p className="text-sm text-gray-500">
+        {auction.quantity} units · {auction.unitsAvailable ?? auction.quantity} unclaimed.
+        Every winner pays the lowest winning bid.
+      </p>
+      {auction.hasReserve && auction.bidCount > 0 && (
+        <p className={auction.reserveMet ? "text-sm text-green-600" : "text-sm text-orange-600"}>
+          {auction.reserveMet ? "Reserve met" : "Reserve not met"}
+        </p>
+      )}
+
+      {userId && unitsHeld > 0 && (
+        <p className="text-sm text-green-700 mt-3">
+          {isClosed ? "You won" : "You're winning"} {unitsHeld} {unitsHeld === 1 ? "unit" : "units"}.
+        </p>
+      )}
+
+      {canBid && (
+        <form onSubmit={handlePlaceBid} className="flex flex-col space-y-4 mt-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label htmlFor="lotBidAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                Per unit (min {formatCurrency(auction.minimumNextBid)})
+              </label>
+              <div className="relative rounded-md shadow-sm">
+                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                  <span className="text-gray-500 sm:text-sm">$</span>
+                </div>
+                <Input
+                  type="number"
+                  name="lotBidAmount"
+                  id="lotBidAmount"
+                  className="pl-7"
+                  placeholder="0"
+                  min={auction.minimumNextBid}
+                  step="0.01"
+                  value={bidAmount}
+                  onChange={(e) => setBidAmount(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="lotBidQuantity" className="block text-sm font-medium text-gray-700 mb-1">
+                Units
+              </label>
+              <Input
+                type="number"
+                name="lotBidQuantity"
+                id="lotBidQuantity"
+                min={1}
+                max={auction.quantity}
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full py-6 text-lg bg-auction-purple hover:bg-auction-purple-dark"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Placing Bid..." : "Place Bid"}
+          </Button>
+          <p className="text-xs text-center text-gray-500">
+            A new bid replaces your previous one on this lot.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default LotBidPanel;
@@ -1,15 +1,22 @@
 
 import React from "react";
 import PlaceBidForm from "@/components/PlaceBidForm";
+import { IPlaceBidApiResponse, IProxyBid } from "@/types/bid";
 
 interface MobileBidInfoProps {
   isUpcoming: boolean;
   startingBid: number;
   currentBid: number;
+  minimumBid: number;
+  hasReserve?: boolean;
+  reserveMet?: boolean;
   auctionId: string;
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void;
+  maxBid?: IProxyBid | null;
+  onMaxBidChange?: (maxBid: IProxyBid | null) => void;
 }
 
-const MobileBidInfo = ({ isUpcoming, startingBid, currentBid, auctionId }: MobileBidInfoProps) => {
+const MobileBidInfo = ({ isUpcoming, startingBid, currentBid, minimumBid, hasReserve = false, reserveMet = false, auctionId, onBidPlaced, maxBid, onMaxBidChange }: MobileBidInfoProps) => {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -35,11 +42,23 @@ const MobileBidInfo = ({ isUpcoming, startingBid, currentBid, auctionId }: Mobil
             </span>
           )}
         </div>
+        {hasReserve && !isUpcoming && (
+          <p className={reserveMet ? "text-sm text-green-600" : "text-sm text-orange-600"}>
+            {reserveMet ? "Reserve met" : "Reserve not met"}
+          </p>
+        )}
       </div>
       
       {/* Place Bid Form on mobile */}
       {!isUpcoming && (
-        <PlaceBidForm auctionId={auctionId} currentBid={currentBid} />
+        <PlaceBidForm
+          auctionId={auctionId}
+          currentBid={currentBid}
+          minimumBid={minimumBid}
+          onBidPlaced={onBidPlaced}
+          maxBid={maxBid}
+          onMaxBidChange={onMaxBidChange}
+        />
       )}
     </div>
   );
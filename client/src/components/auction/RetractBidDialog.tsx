@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { bidService } from "@/services/bidService";
+import { AxiosError } from "axios";
+
+interface RetractBidDialogProps {
+  auctionId: string;
+  bidId: string;
+  amountText: string; // The bid amount, already formatted
+}
+
+// Asks for one of the user's own bids to be taken back. An admin reviews the
+// request; the bid stands until it is approved.
+const RetractBidDialog = ({ auctionId, bidId, amountText }: RetractBidDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await bidService.requestRetraction(auctionId, bidId, reason.trim());
+      toast({
+        title: "Retraction requested",
+        description: "An admin will review it. Your bid stands until then.",
+      });
+      setReason("");
+      setOpen(false);
+    } catch (err) {
+      let errorMessage = "Could not request the retraction. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Retraction not requested",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button type="button" className="text-xs text-gray-500 underline hover:text-gray-700">
+          Retract
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Retract your bid of {amountText}?</DialogTitle>
+            <DialogDescription>
+              Retractions are for genuine mistakes, such as a mistyped amount, and
+              need an admin's approval. They aren't possible in the last hour of an auction.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            className="my-4"
+            placeholder="Why should this bid be retracted?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            required
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !reason.trim()}>
+              {isSubmitting ? "Sending..." : "Request Retraction"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RetractBidDialog;
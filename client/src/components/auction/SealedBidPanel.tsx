@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { bidService } from "@/services/bidService";
+import { IAuction } from "@/types/auction";
+import { IBid, IPlaceBidApiResponse } from "@/types/bid";
+import { AuctionDisplayStatus } from "@/utils/dateUtils";
+import { AxiosError } from "axios";
+
+interface SealedBidPanelProps {
+  auction: IAuction;
+  status: AuctionDisplayStatus;
+  userId: string | null; // Logged-in user, if any
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void;
+}
+
+// Sealed-bid auctions take one hidden bid per bidder. Only the bid count is
+// public until the auction closes and the winning price is revealed.
+const SealedBidPanel = ({ auction, status, userId, onBidPlaced }: SealedBidPanelProps) => {
+  const [bidAmount, setBidAmount] = useState<number | string>("");
+  const [myBid, setMyBid] = useState<IBid | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const isOpen = status === "active" || status === "ending-soon";
+  const canBid = isOpen && !!userId && userId !== auction.seller?._id && !myBid;
+
+  // Find the user's own bid, which they can always see
+  useEffect(() => {
+    if (!userId) {
+      setMyBid(null);
+      return;
+    }
+
+    bidService.getMyBids()
+      .then(response => {
+        const bid = response.bids.find(bid =>
+          (typeof bid.auction === "string" ? bid.auction : bid.auction._id) === auction._id
+        );
+        setMyBid(bid ?? null);
+      })
+      .catch(err => console.error("Failed to fetch your sealed bid:", err));
+  }, [auction._id, userId]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handlePlaceBid = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericBid = Number(bidAmount);
+    if (isNaN(numericBid) || numericBid < auction.minimumNextBid) {
+      toast({
+        title: "Invalid bid amount",
+        description: `Your bid must be at least ${formatCurrency(auction.minimumNextBid)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await bidService.placeBid(auction._id, { amount: numericBid });
+      toast({
+        title: "Sealed bid placed",
+        description: `Your bid of ${formatCurrency(numericBid)} stays hidden until the auction closes.`,
+      });
+      setBidAmount("");
+      setMyBid(response.bid);
+      onBidPlaced?.(response);
+    } catch (err) {
+      let errorMessage = "Could not place your bid. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Bid not placed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pricingText = auction.sealedPricing === "second-price"
+    ? "The highest bidder wins and pays the second-highest bid."
+    : "The highest bidder wins and pays their own bid.";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6 animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
+      <h2 className="flex items-center gap-1 text-sm text-gray-500 uppercase">
+        <Lock className="h-4 w-4" />
+        {auction.bidsSealed ? "Sealed Bids" : "Winning Price"}
+      </h2>
+      <div className="text-3xl font-bold text-auction-purple">
+        {auction.bidsSealed
+          ? `${auction.bidCount} ${auction.bidCount === 1 ? "bid" : "bids"}`
+          : formatCurrency(auction.hammerPrice ?? auction.currentBid)}
+      </div>
+      <p className="text-sm text-gray-500">{pricingText}</p>
+      {auction.bidsSealed && (
+        <p className="text-sm text-gray-500 mt-1">
+          Minimum bid {formatCurrency(auction.minimumNextBid)}
+        </p>
+      )}
+      {auction.hasReserve && !auction.bidsSealed && (
+        <p className={auction.reserveMet ? "text-sm text-green-600" : "text-sm text-orange-600"}>
+          {auction.reserveMet ? "Reserve met" : "Reserve not met"}
+        </p>
+      )}
+
+      {myBid && (
+        <p className="text-sm text-gray-700 mt-4">
+          Your sealed bid: <span className="font-semibold">{formatCurrency(myBid.amount)}</span>
+        </p>
+      )}
+
+      {canBid && (
+        <form onSubmit={handlePlaceBid} className="flex flex-col space-y-4 mt-4">
+          <div>
+            <label htmlFor="sealedBidAmount" className="block text-sm font-medium text-gray-700 mb-1">
+              Your Bid (one bid only, it cannot be changed)
+            </label>
+            <div className="relative mt-1 rounded-md shadow-sm">
+              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                <span className="text-gray-500 sm:text-sm">$</span>
+              </div>
+              <Input
+                type="number"
+                name="sealedBidAmount"
+                id="sealedBidAmount"
+                className="pl-7 pr-12"
+                placeholder="0"
+                min={auction.minimumNextBid}
+                step="0.01"
+                value={bidAmount}
+                onChange={(e) => setBidAmount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full py-6 text-lg bg-auction-purple hover:bg-auction-purple-dark"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Placing Bid..." : "Place Sealed Bid"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SealedBidPanel;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Bookmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { auctionService } from "@/services/auctionService";
+import { AxiosError } from "axios";
+
+interface WatchButtonProps {
+  auctionId: string;
+  isWatched: boolean;
+  watchCount: number;
+}
+
+// Adds the auction to the user's watchlist, or takes it off. Watchers are
+// notified when it starts, gets a new high bid and is about to end.
+const WatchButton = ({ auctionId, isWatched, watchCount }: WatchButtonProps) => {
+  const [watching, setWatching] = useState(isWatched);
+  const [count, setCount] = useState(watchCount);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Follow the auction when it is reloaded
+  useEffect(() => {
+    setWatching(isWatched);
+    setCount(watchCount);
+  }, [isWatched, watchCount]);
+
+  const handleToggle = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = watching
+        ? await auctionService.unwatchAuction(auctionId)
+        : await auctionService.watchAuction(auctionId);
+      setWatching(response.isWatched);
+      setCount(response.watchCount);
+      toast({
+        title: response.isWatched ? "Added to your watchlist" : "Removed from your watchlist",
+        description: response.isWatched
+          ? "We'll let you know about new high bids and when it's about to end."
+          : undefined,
+      });
+    } catch (err) {
+      let errorMessage = "Could not update your watchlist. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({
+        title: "Watchlist not updated",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={handleToggle}
+      disabled={isSubmitting}
+      className="gap-1"
+    >
+      <Bookmark className={cn("h-4 w-4", watching && "fill-auction-purple text-auction-purple")} />
+      {watching ? "Watching" : "Watch"}
+      <span className="text-gray-500">· {count}</span>
+    </Button>
+  );
+};
+
+export default WatchButton;
@@ -3,6 +3,14 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { useNavigate } from 'react-router-dom';
 import { useToast } from "@/hooks/use-toast";
 import { authService } from '@/services/authService'; // Import the service
+import { socketClient } from '@/services/socketClient';
+import {
+  REFRESH_TOKEN_STORAGE_KEY,
+  SESSION_EXPIRED_EVENT,
+  TOKEN_REFRESHED_EVENT,
+  TOKEN_STORAGE_KEY,
+} from '@/services/apiClient';
+import { Permission, StaffRole } from '@/types/permission';
 
 // Define types for our user and context
 // Ensure this User interface matches the structure used in your app
@@ -13,6 +21,9 @@ export interface User {
   name: string;
   avatar: string; // Corresponds to backend profilePictureUrl
   isAdmin?: boolean;
+  roles?: StaffRole[];
+  permissions?: Permission[]; // Only decides what to show; the server enforces them
+  isEmailVerified?: boolean; // Needed to bid or sell
 }
 
 interface AuthContextType {
@@ -24,16 +35,16 @@ interface AuthContextType {
   logout: (navigateLogin?: boolean) => void; // Optional param to control navigation
   refreshTokenData: () => Promise<void>; // Function to refresh user data if needed
   updateAvatar: () => Promise<boolean>; // Function to trigger avatar update
+  verifyEmail: (code: string) => Promise<boolean>; // Confirm the email address with the emailed code
+  resendVerificationCode: () => Promise<boolean>;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 // Create the auth context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Key for storing the token in localStorage
-const TOKEN_STORAGE_KEY = 'auctionverse_token';
-
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_STORAGE_KEY)); // Initialize token from storage
@@ -58,6 +69,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           console.error("Token verification failed on mount:", error.message);
           // Clear invalid token from storage and state
           localStorage.removeItem(TOKEN_STORAGE_KEY);
+          localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
           setToken(null);
           setUser(null);
           // Optional: Show toast for expired session
@@ -77,6 +89,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    const handleAuthSuccess = (authData: { token: string } & any) => { // Use the actual type from authService if defined (AuthResponse)
     const frontendUser = authService.mapBackendUserToFrontend(authData);
     localStorage.setItem(TOKEN_STORAGE_KEY, authData.token);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, authData.refreshToken);
     setToken(authData.token);
     setUser(frontendUser);
     setIsLoading(false);
@@ -95,9 +108,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         description: `Welcome back, ${loggedInUser.name}!`,
       });
 
-      // Redirect admin users to admin panel, regular users to home or dashboard
-       if (loggedInUser.isAdmin) {
+      // Redirect staff to admin panel, regular users to home or dashboard
+       if (loggedInUser.permissions?.includes('admin:access')) {
            navigate('/admin', { replace: true }); // Use replace to avoid back button to login
+       } else if (!loggedInUser.isEmailVerified) {
+           navigate('/verify-email', { replace: true }); // Finish verifying before bidding
        } else {
            navigate('/', { replace: true }); // Or navigate to a user dashboard if you have one
        }
@@ -123,11 +138,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       toast({
         title: "Account created successfully",
-        description: `Welcome to AuctionVerse, ${newUser.name}! You are now logged in.`,
+        description: `Welcome to AuctionVerse, ${newUser.name}! We've emailed you a code to verify your address.`,
       });
 
-       // Navigate to home page after successful signup and login
-       navigate('/', { replace: true });
+      // The signup page moves on to its verification step; it navigates once the email is verified
       return true;
     } catch (error: any) {
       toast({
@@ -143,7 +157,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // --- Logout Function ---
   const logout = useCallback((navigateLogin = true) => { // Default to navigating to login
     console.log("Logging out...");
+    // End the session on the server too; not awaited, the local sign out doesn't depend on it
+    authService.logout(localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY));
     localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
     setUser(null);
     setToken(null);
     // Note: The apiClient interceptor will stop sending the token automatically
@@ -213,6 +230,68 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
 
 
+  // --- Email Verification ---
+  const verifyEmail = async (code: string): Promise<boolean> => {
+    try {
+      const { isEmailVerified } = await authService.verifyEmail(code);
+      setUser(currentUser => currentUser ? { ...currentUser, isEmailVerified } : null);
+      toast({ title: "Email verified", description: "You can now bid and list auctions." });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Could not verify your email.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const resendVerificationCode = async (): Promise<boolean> => {
+    try {
+      const { message } = await authService.resendOtp();
+      toast({ title: "Code sent", description: message });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could not send a new code",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // --- Follow token renewals done by apiClient ---
+  useEffect(() => {
+    const handleTokenRefreshed = (event: Event) => {
+      setToken((event as CustomEvent<string>).detail);
+    };
+    // The session was revoked or expired; apiClient already cleared the tokens
+    const handleSessionExpired = () => {
+      setUser(null);
+      setToken(null);
+      toast({
+        title: "Session expired",
+        description: "Please log in again.",
+        variant: "destructive",
+      });
+    };
+
+    window.addEventListener(TOKEN_REFRESHED_EVENT, handleTokenRefreshed);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => {
+      window.removeEventListener(TOKEN_REFRESHED_EVENT, handleTokenRefreshed);
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    };
+  }, [toast]);
+
+  // --- Keep the real-time connection signed in as the current user ---
+  // Only once the token is verified, so a stale token never joins a user room
+  useEffect(() => {
+    socketClient.setUserToken(user && token ? token : null);
+  }, [user, token]);
+
   // --- Context Value ---
   const value: AuthContextType = {
     user,
@@ -223,8 +302,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     logout,
     refreshTokenData,
     updateAvatar,
+    verifyEmail,
+    resendVerificationCode,
     isAuthenticated: !!user && !!token, // Check for both user object and token
     isAdmin: user?.isAdmin || false,
+    hasPermission: (permission: Permission) => user?.permissions?.includes(permission) ?? false,
   };
 
   // Render children only when not initializing (avoids flicker)
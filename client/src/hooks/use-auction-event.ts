@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { socketClient } from "@/services/socketClient"
+
+/**
+ * Joins the real-time room for an auction and calls `handler` every time
+ * the server emits `event` for it. The room is left again on unmount.
+ */
+export function useAuctionEvent<T>(
+  auctionId: string | undefined,
+  event: string,
+  handler: (payload: T) => void
+) {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => {
+    if (!auctionId) return
+
+    const socket = socketClient.getSocket()
+    const listener = (payload: T & { auctionId?: string }) => {
+      // Sockets can be in several rooms at once, so filter by auction
+      if (payload?.auctionId && payload.auctionId !== auctionId) return
+      handlerRef.current(payload)
+    }
+
+    socketClient.joinAuctionRoom(auctionId)
+    socket.on(event, listener)
+
+    return () => {
+      socket.off(event, listener)
+      socketClient.leaveAuctionRoom(auctionId)
+    }
+  }, [auctionId, event])
+}
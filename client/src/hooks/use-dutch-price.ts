@@ -0,0 +1,27 @@
+import * as React from "react"
+
+import { IAuction } from "@/types/auction"
+import { getDutchPrice, getNextDutchDropAt } from "@/utils/dateUtils"
+
+type DutchPriceSource = Pick<IAuction, "startingBid" | "startTime" | "dutchSchedule">
+
+/**
+ * The live asking price of a Dutch auction, recomputed from the clock every
+ * second, plus when it next drops (null at the floor). Pass null to disable,
+ * e.g. for English auctions.
+ */
+export function useDutchPrice(auction: DutchPriceSource | null) {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    if (!auction) return
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [auction])
+
+  if (!auction) return { price: null, nextDropAt: null }
+  return {
+    price: getDutchPrice(auction, now),
+    nextDropAt: getNextDutchDropAt(auction, now),
+  }
+}
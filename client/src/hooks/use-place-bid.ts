@@ -0,0 +1,68 @@
+import * as React from "react"
+import { AxiosError } from "axios"
+
+import { useToast } from "@/hooks/use-toast"
+import { bidService } from "@/services/bidService"
+import { IPlaceBidApiResponse, IPlaceBidErrorResponse } from "@/types/bid"
+
+/**
+ * State and submit handler for a bid amount form. Checks the amount against
+ * `minimumBid` before calling the API, toasts the outcome and hands the
+ * updated auction state to `onBidPlaced`.
+ */
+export function usePlaceBid(
+  auctionId: string,
+  minimumBid: number,
+  onBidPlaced?: (response: IPlaceBidApiResponse) => void
+) {
+  const [bidAmount, setBidAmount] = React.useState<number | string>("")
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const { toast } = useToast()
+
+  const handlePlaceBid = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Validate bid amount before hitting the API
+    const numericBid = Number(bidAmount)
+    if (isNaN(numericBid) || numericBid < minimumBid) {
+      toast({
+        title: "Invalid bid amount",
+        description: `Your bid must be at least $${minimumBid}.`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await bidService.placeBid(auctionId, { amount: numericBid })
+
+      toast(response.isHighestBidder ? {
+        title: "Bid placed successfully!",
+        description: `You placed a bid of $${numericBid}.`,
+      } : {
+        title: "You've been outbid",
+        description: `Another bidder's maximum bid is higher. The current bid is now $${response.auction.currentBid}.`,
+        variant: "destructive"
+      })
+
+      setBidAmount("")
+      onBidPlaced?.(response)
+    } catch (err) {
+      // Surface the server's validation message (e.g. outbid while typing)
+      let errorMessage = "Could not place your bid. Please try again."
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = (err.response.data as IPlaceBidErrorResponse).message
+      }
+      toast({
+        title: "Bid not placed",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return { bidAmount, setBidAmount, isSubmitting, handlePlaceBid }
+}
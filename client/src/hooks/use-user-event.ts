@@ -0,0 +1,29 @@
+import * as React from "react"
+
+import { socketClient } from "@/services/socketClient"
+
+/**
+ * Calls `handler` every time the server emits `event` to the signed-in
+ * user's own room. Pass `enabled: false` while nobody is signed in.
+ */
+export function useUserEvent<T>(
+  event: string,
+  handler: (payload: T) => void,
+  enabled = true
+) {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = React.useRef(handler)
+  handlerRef.current = handler
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const socket = socketClient.getSocket()
+    const listener = (payload: T) => handlerRef.current(payload)
+    socket.on(event, listener)
+
+    return () => {
+      socket.off(event, listener)
+    }
+  }, [event, enabled])
+}
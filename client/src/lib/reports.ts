@@ -0,0 +1,14 @@
+import { ReportReason } from "@/types/report";
+
+// Reasons a user can pick when reporting an auction; the ids are what the server stores
+export const REPORT_REASONS: { id: ReportReason; label: string }[] = [
+  { id: "counterfeit", label: "Counterfeit or replica item" },
+  { id: "inappropriate", label: "Inappropriate or offensive content" },
+  { id: "prohibited", label: "Prohibited or illegal item" },
+  { id: "misrepresented", label: "Item misrepresented or misdescribed" },
+  { id: "scam", label: "Potential scam or fraud" },
+  { id: "other", label: "Other concern" }
+];
+
+export const getReportReasonLabel = (reason: ReportReason) =>
+  REPORT_REASONS.find(option => option.id === reason)?.label ?? reason;
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Trash2, ArrowLeft } from "lucide-react";
 import Header from '@/components/Header';
 import { useToast } from "@/components/ui/use-toast";
+import { auctionService } from "@/services/auctionService";
 
 // Dummy data for the auction
 const getDummyAuction = (id: string) => ({
@@ -61,15 +62,25 @@ const AuctionAnalytics: React.FC = () => {
   const { toast } = useToast();
   
   useEffect(() => {
-    // Simulate API call to fetch auction data
-    const timer = setTimeout(() => {
-      if (id) {
-        setAuction(getDummyAuction(id));
-      }
+    if (!id) {
       setLoading(false);
-    }, 800);
-    
-    return () => clearTimeout(timer);
+      return;
+    }
+    let cancelled = false;
+
+    // Charts are still sample data; the watch count comes from the auction itself
+    auctionService.getAuctionDetails(id)
+      .then(details => {
+        if (!cancelled) setAuction({ ...getDummyAuction(id), watchCount: details.watchCount ?? 0 });
+      })
+      .catch(err => console.error("Failed to load auction for analytics:", err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [id]);
 
   const handleDeleteAuction = () => {
@@ -207,7 +218,7 @@ const AuctionAnalytics: React.FC = () => {
         
         {activeTab === 'overview' && (
           <div className="space-y-6 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <div className="bg-white p-6 rounded-lg shadow">
                 <div className="text-sm font-medium text-gray-500">Current Bid</div>
                 <div className="mt-2 text-3xl font-bold text-gray-900">${auction.currentBid}</div>
@@ -227,6 +238,11 @@ const AuctionAnalytics: React.FC = () => {
                 <div className="mt-2 text-3xl font-bold text-gray-900">{auction.viewCount}</div>
                 <div className="mt-1 text-sm text-gray-500">{auction.uniqueViewers} unique visitors</div>
               </div>
+              <div className="bg-white p-6 rounded-lg shadow">
+                <div className="text-sm font-medium text-gray-500">Watching</div>
+                <div className="mt-2 text-3xl font-bold text-gray-900">{auction.watchCount}</div>
+                <div className="mt-1 text-sm text-gray-500">Users with this auction on their watchlist</div>
+              </div>
             </div>
             
             {/* <div className="bg-white p-6 rounded-lg shadow">
@@ -5,6 +5,9 @@ import Header from "@/components/Header";
 // Removed: import { auctions, Auction } from "@/data/auctions"; // No longer needed
 import { auctionService } from "@/services/auctionService"; // Import the service
 import { IAuction } from "@/types/auction"; // Import the IAuction type
+import { IAuctionClosedEvent, IAuctionEndedEvent, IAuctionExtendedEvent, IAuctionStartedEvent, IBidRetractedEvent, IBuyNowApiResponse, INewBidEvent, IPlaceBidApiResponse, IProxyBid, ISealedBidEvent } from "@/types/bid";
+import { bidService } from "@/services/bidService";
+import { useAuctionEvent } from "@/hooks/use-auction-event";
 import BidTimeline from "@/components/BidTimeline";
 // import AuctionStats from "@/components/AuctionStats"; // Assuming this might not be used directly anymore or is part of another component
 import StickyBidFooter from "@/components/StickyBidFooter";
@@ -12,8 +15,12 @@ import AuctionHeader from "@/components/auction/AuctionHeader";
 import AuctionImageSection from "@/components/auction/AuctionImageSection";
 import AuctionDescription from "@/components/auction/AuctionDescription";
 import MobileBidInfo from "@/components/auction/MobileBidInfo";
+import DutchPricePanel from "@/components/auction/DutchPricePanel";
+import SealedBidPanel from "@/components/auction/SealedBidPanel";
+import LotBidPanel from "@/components/auction/LotBidPanel";
 import AuctionFooter from "@/components/auction/AuctionFooter";
 import { useAuth } from "@/contexts/AuthContext";
+import { getAuctionDisplayStatus } from "@/utils/dateUtils";
 import { extendTailwindMerge } from "tailwind-merge";
 
 const AuctionDetail = () => {
@@ -22,6 +29,7 @@ const AuctionDetail = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null); // Add error state
   const [timeLeft, setTimeLeft] = useState("");
+  const [maxBid, setMaxBid] = useState<IProxyBid | null>(null); // The user's private maximum bid
   const { user } = useAuth();
   const navigate = useNavigate(); // Keep navigate if needed for redirects on error etc.
 
@@ -61,9 +69,99 @@ const AuctionDetail = () => {
 
   }, [id]); // Dependency remains 'id'
 
+  // Load the logged-in user's maximum (proxy) bid, which only they can see
+  useEffect(() => {
+    if (!id || !user) {
+      setMaxBid(null);
+      return;
+    }
+
+    bidService.getMyProxyBid(id)
+      .then(response => setMaxBid(response.proxyBid))
+      .catch(err => console.error("Failed to fetch maximum bid:", err));
+  }, [id, user]);
+
+  // Apply bids committed by other users in real time
+  useAuctionEvent<INewBidEvent>(id, "new_bid", ({ currentBid, highestBidder, bidCount, minimumNextBid, reserveMet, buyNowAvailable, unitsAvailable, allocations }) => {
+    setAuction(prev => prev ? {
+      ...prev, currentBid, highestBidder, bidCount, minimumNextBid, reserveMet, buyNowAvailable,
+      // Multi-unit lots also send who holds which units now
+      unitsAvailable: unitsAvailable ?? prev.unitsAvailable,
+      allocations: allocations ?? prev.allocations,
+    } : prev);
+  });
+
+  // An admin approved a bid retraction and the bidding state was recalculated
+  useAuctionEvent<IBidRetractedEvent>(id, "bid_retracted", ({ currentBid, highestBidder, bidCount, minimumNextBid, reserveMet, buyNowAvailable, unitsAvailable, allocations }) => {
+    setAuction(prev => prev ? {
+      ...prev, currentBid, highestBidder, bidCount, minimumNextBid, buyNowAvailable,
+      reserveMet: reserveMet ?? prev.reserveMet,
+      unitsAvailable: unitsAvailable ?? prev.unitsAvailable,
+      allocations: allocations ?? prev.allocations,
+    } : prev);
+  });
+
+  // A hidden bid landed on a sealed-bid auction; only the count changes
+  useAuctionEvent<ISealedBidEvent>(id, "sealed_bid", ({ bidCount }) => {
+    setAuction(prev => prev ? { ...prev, bidCount } : prev);
+  });
+
+  // A late bid inside the soft-close window pushed the end time out
+  useAuctionEvent<IAuctionExtendedEvent>(id, "auction_extended", ({ endTime, status, extensionCount }) => {
+    setAuction(prev => prev ? { ...prev, endTime, status, extensionCount } : prev);
+  });
+
+  // The scheduled start time was reached and the auction opened for bidding
+  useAuctionEvent<IAuctionStartedEvent>(id, "auction_started", ({ status }) => {
+    setAuction(prev => prev ? { ...prev, status } : prev);
+  });
+
+  // The auction was closed early, e.g. someone used Buy It Now
+  useAuctionEvent<IAuctionEndedEvent>(id, "auction_ended", ({ endTime, status }) => {
+    setAuction(prev => prev ? { ...prev, endTime, status, buyNowAvailable: false } : prev);
+  });
+
+  // The server settled the auction after it ended. Sealed-bid auctions also
+  // reveal their top bid here.
+  useAuctionEvent<IAuctionClosedEvent>(id, "auction_closed", ({ status, closedAt, outcome, winner, winners, hammerPrice, currentBid }) => {
+    setAuction(prev => prev ? {
+      ...prev,
+      status, closedAt, outcome, winner, hammerPrice,
+      winners: winners ?? prev.winners,
+      currentBid: currentBid ?? prev.currentBid,
+      bidsSealed: false,
+      buyNowAvailable: false,
+    } : prev);
+  });
+
+  // Apply the closed auction returned after the current user bought it outright
+  // (Buy It Now, or accepting a Dutch auction's price)
+  const handleBought = ({ data }: IBuyNowApiResponse) => {
+    setAuction(prev => prev ? { ...prev, ...data, seller: prev.seller } : prev);
+  };
+
+  // Apply the auction state returned after the current user's own bid
+  const handleBidPlaced = ({ auction: update, isHighestBidder }: IPlaceBidApiResponse) => {
+    setAuction(prev => prev ? {
+      ...prev,
+      currentBid: update.currentBid,
+      bidCount: update.bidCount,
+      minimumNextBid: update.minimumNextBid,
+      reserveMet: update.reserveMet,
+      buyNowAvailable: update.buyNowAvailable,
+      endTime: update.endTime,
+      status: update.status,
+      extensionCount: update.extensionCount,
+      unitsAvailable: update.unitsAvailable ?? prev.unitsAvailable,
+      allocations: update.allocations ?? prev.allocations,
+      highestBidder: isHighestBidder && user ? { _id: user.id, name: user.name } : prev.highestBidder,
+    } : prev);
+  };
+
   // Update time left every second (logic remains largely the same)
   useEffect(() => {
-    if (!auction || !auction.endTime || auction.status === "ended" || auction.status === "upcoming") {
+    const displayStatus = auction ? getAuctionDisplayStatus(auction) : null;
+    if (!auction || !auction.endTime || (displayStatus !== "active" && displayStatus !== "ending-soon")) {
        setTimeLeft(""); // Clear time left if not applicable
        return;
     }
@@ -169,8 +267,12 @@ const AuctionDetail = () => {
   }
 
   // --- Render Auction Details ---
-  const isEndingSoon = auction.status === "ending-soon"; // Adjust based on your actual status values
-  const isUpcoming = auction.status === "upcoming";
+  const displayStatus = getAuctionDisplayStatus(auction);
+  const isEndingSoon = displayStatus === "ending-soon";
+  const isUpcoming = displayStatus === "upcoming";
+  const isDutch = auction.auctionType === "dutch";
+  const isSealed = auction.auctionType === "sealed";
+  const isLot = auction.isMultiUnit;
 
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
@@ -185,11 +287,12 @@ const AuctionDetail = () => {
             <AuctionImageSection
               title={auction.title}
               images={auction.images || []} // Ensure images is an array
-              status={auction.status}
+              status={displayStatus}
               timeLeft={timeLeft}
               isEndingSoon={isEndingSoon}
               isUpcoming={isUpcoming}
               startTime={auction.startTime} // Pass Date object
+              isExtended={auction.extensionCount > 0}
             />
 
             <AuctionDescription
@@ -198,6 +301,9 @@ const AuctionDetail = () => {
               description={auction.description}
               seller={auction.seller} // Assuming seller info is populated
               documents={auction.documents || []} // Ensure documents is an array
+              canWatch={!!user && user.id !== auction.seller?._id}
+              isWatched={auction.isWatched}
+              watchCount={auction.watchCount}
             />
           </div>
 
@@ -205,27 +311,66 @@ const AuctionDetail = () => {
           <div className="space-y-6">
             <div className="animate-fade-in-up" style={{ animationDelay: "0.4s" }}>
               {/* Pass necessary props to BidTimeline if it needs them directly */}
-              <BidTimeline auctionId={auction._id} />
+              <BidTimeline auctionId={auction._id} canRetract={displayStatus === "active"} />
             </div>
 
-            <MobileBidInfo
-              isUpcoming={isUpcoming}
-              startingBid={auction.startingBid}
-              currentBid={auction.currentBid}
-              auctionId={auction._id}
-            />
+            {isDutch ? (
+              <DutchPricePanel
+                auction={auction}
+                status={displayStatus}
+                canAccept={!!user && user.id !== auction.seller?._id}
+                onAccepted={handleBought}
+              />
+            ) : isSealed ? (
+              <SealedBidPanel
+                auction={auction}
+                status={displayStatus}
+                userId={user?.id ?? null}
+                onBidPlaced={handleBidPlaced}
+              />
+            ) : isLot ? (
+              <LotBidPanel
+                auction={auction}
+                status={displayStatus}
+                userId={user?.id ?? null}
+                onBidPlaced={handleBidPlaced}
+              />
+            ) : (
+              <MobileBidInfo
+                isUpcoming={isUpcoming}
+                startingBid={auction.startingBid}
+                currentBid={auction.currentBid}
+                minimumBid={auction.minimumNextBid}
+                hasReserve={auction.hasReserve}
+                reserveMet={auction.reserveMet}
+                auctionId={auction._id}
+                onBidPlaced={handleBidPlaced}
+                maxBid={maxBid}
+                onMaxBidChange={setMaxBid}
+              />
+            )}
           </div>
         </div>
       </main>
 
-      <StickyBidFooter
-        auctionId={auction._id}
-        currentBid={auction.currentBid}
-        endTime={new Date(auction.endTime)} // Pass Date object
-        isEndingSoon={isEndingSoon}
-        status={auction.status}
-        user={user}
-      />
+      {/* Dutch, sealed-bid and multi-unit auctions are handled from their own panels */}
+      {!isDutch && !isSealed && !isLot && (
+        <StickyBidFooter
+          auctionId={auction._id}
+          currentBid={auction.currentBid}
+          minimumBid={auction.minimumNextBid}
+          endTime={new Date(auction.endTime)} // Pass Date object
+          isEndingSoon={isEndingSoon}
+          status={displayStatus}
+          user={user}
+          onBidPlaced={handleBidPlaced}
+          maxBid={maxBid}
+          onMaxBidChange={setMaxBid}
+          buyNowPrice={auction.buyNowPrice}
+          buyNowAvailable={auction.buyNowAvailable}
+          onBought={handleBought}
+        />
+      )}
 
       <AuctionFooter />
     </div>
@@ -3,9 +3,11 @@ import AuctionForm from "@/components/AuctionForm";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 
 const CreateAuction = () => {
+  const { draftId } = useParams<{ draftId: string }>(); // Set when resuming a draft
+  
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -21,8 +23,8 @@ const CreateAuction = () => {
         </div>
         
         <div className="bg-white p-6 rounded-lg shadow animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
-          <h1 className="text-2xl font-bold mb-6">Create New Auction</h1>
-          <AuctionForm />
+          <h1 className="text-2xl font-bold mb-6">{draftId ? "Finish Your Draft" : "Create New Auction"}</h1>
+          <AuctionForm key={draftId} draftId={draftId} />
         </div>
       </main>
     </div>
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowRight, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { authService } from "@/services/authService";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword = () => {
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormValues) => {
+    try {
+      const { message } = await authService.forgotPassword(data.email);
+      setSentMessage(message);
+    } catch (error) {
+      toast({
+        title: "Request failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center bg-gray-50 px-4">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <Link to="/" className="flex justify-center">
+          <span className="text-2xl font-bold text-auction-purple">AuctionVerse</span>
+        </Link>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Reset your password
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          Remembered it?{" "}
+          <Link
+            to="/login"
+            className="font-medium text-auction-purple hover:text-auction-purple-dark"
+          >
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {sentMessage ? (
+            <p className="text-sm text-gray-700 text-center">{sentMessage}</p>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              <p className="text-sm text-gray-600">
+                Enter the email you signed up with and we'll send you a link to set a new password.
+              </p>
+
+              {/* --- Email Field --- */}
+              <div>
+                <Label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email
+                </Label>
+                <div className="mt-1 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    className={`block w-full pl-10 ${errors.email ? 'border-red-500' : 'border-gray-300'}`}
+                    placeholder="you@example.com"
+                    {...register("email")}
+                    aria-invalid={errors.email ? "true" : "false"}
+                  />
+                </div>
+                {errors.email && (
+                  <p className="mt-2 text-sm text-red-600" role="alert">{errors.email.message}</p>
+                )}
+              </div>
+
+              {/* --- Submit Button --- */}
+              <Button
+                type="submit"
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-auction-purple hover:bg-auction-purple-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-auction-purple-dark disabled:opacity-50"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  "Sending link..."
+                ) : (
+                  <>
+                    Send reset link <ArrowRight className="ml-2 h-4 w-4" />
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
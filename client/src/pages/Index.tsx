@@ -10,17 +10,17 @@ const AUCTIONS_PER_PAGE = 12; // Or your desired default limit
 
 const Index = () => {
   const [auctionsData, setAuctionsData] = useState<IAuction[]>([]);
-  const [activeFilter, setActiveFilter] = useState<string>('active');
+  const [activeFilter, setActiveFilter] = useState<string>('live');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   // TODO: Add state for pagination data if implementing pagination
   // const [paginationInfo, setPaginationInfo] = useState(null);
 
   const filterOptions = [
-    { id: 'active', label: 'Active' },
-    { id: 'upcoming', label: 'Upcoming' },
+    { id: 'live', label: 'Active' },
+    { id: 'scheduled', label: 'Upcoming' },
     { id: 'ending-soon', label: 'Ending Soon' },
-    // { id: 'ended', label: 'Ended Auctions' }
+    // { id: 'closed', label: 'Ended Auctions' }
   ];
 
   useEffect(() => {
@@ -32,14 +32,14 @@ const Index = () => {
       const params: IListAuctionParams = {
           // --- Use the constant ---
           limit: AUCTIONS_PER_PAGE,
-          sortBy: (activeFilter === 'upcoming') ? 'startTime' : 'endTime',
+          sortBy: (activeFilter === 'scheduled') ? 'startTime' : 'endTime',
           sortOrder: 'asc',
           // TODO: Add page parameter for pagination
           // page: currentPage,
       };
 
       if (activeFilter !== 'all') { // Assuming 'all' isn't a specific API status
-          params.status = activeFilter as 'upcoming' | 'active' | 'ending-soon';
+          params.status = activeFilter as IListAuctionParams['status'];
       }
 
       try {
@@ -155,9 +155,9 @@ const Index = () => {
               <p className="text-blue-600 mt-1">
                   There are currently no auctions matching the '{filterOptions.find(f => f.id === activeFilter)?.label}' filter.
               </p>
-              {activeFilter !== 'active' && (
+              {activeFilter !== 'live' && (
                    <button
-                     onClick={() => handleFilterChange('active')}
+                     onClick={() => handleFilterChange('live')}
                      className="mt-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
                    >
                      View Active Auctions
@@ -99,12 +99,11 @@ const Login = () => {
                     <Label htmlFor="password" className="block text-sm font-medium text-gray-700">
                         Password
                     </Label>
-                    {/* Optional: Forgot Password Link */}
-                    {/* <div className="text-sm">
-                        <a href="#" className="font-medium text-auction-purple hover:text-auction-purple-dark">
+                    <div className="text-sm">
+                        <Link to="/forgot-password" className="font-medium text-auction-purple hover:text-auction-purple-dark">
                         Forgot your password?
-                        </a>
-                    </div> */}
+                        </Link>
+                    </div>
                </div>
               <div className="mt-1 relative rounded-md shadow-sm">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
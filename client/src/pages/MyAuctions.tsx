@@ -8,9 +8,19 @@ import { Plus, Trash2 } from "lucide-react";
 import { auctionService } from '@/services/auctionService'; // Adjust path if needed
 import { IAuction, IUserLite, IAuctionDocument } from '@/types/auction'; // Adjust path & ensure IUserLite/IAuctionDocument are exported if needed elsewhere, though not directly rendered here
 import { AxiosError } from "axios";
+import { useToast } from "@/hooks/use-toast";
+import { getAuctionDisplayStatus } from "@/utils/dateUtils";
 
 // Define the type for the active tab based on UI
-type ActiveTab = 'all' | 'active' | 'ended' | 'draft'; // Keep UI tabs for now
+type ActiveTab = 'all' | 'active' | 'upcoming' | 'ended' | 'draft';
+
+const tabs: { id: ActiveTab; label: string }[] = [
+  { id: 'all', label: 'All Auctions' },
+  { id: 'active', label: 'Active' }, // Shows 'active' and 'ending-soon'
+  { id: 'upcoming', label: 'Upcoming' },
+  { id: 'ended', label: 'Ended' }, // Includes cancelled
+  { id: 'draft', label: 'Drafts' },
+];
 
 const MyAuctions = () => {
   // State for auctions, loading, error, and active tab
@@ -18,6 +28,7 @@ const MyAuctions = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<ActiveTab>('active');
+  const { toast } = useToast();
 
   // Fetch user's auctions on component mount
   useEffect(() => {
@@ -51,6 +62,36 @@ const MyAuctions = () => {
     fetchMyAuctions();
   }, []); // Run only once on mount
 
+  // Delete a draft outright; it was never public
+  const handleDelete = async (auctionId: string) => {
+    try {
+      await auctionService.deleteAuction(auctionId);
+      setAuctions(prev => prev.filter(a => a._id !== auctionId));
+      toast({ title: "Draft deleted" });
+    } catch (err) {
+      let errorMessage = "Could not delete the draft. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({ title: "Delete failed", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  // Cancel a live or upcoming auction and swap in the updated listing
+  const handleCancel = async (auctionId: string) => {
+    try {
+      const cancelled = await auctionService.cancelAuction(auctionId);
+      setAuctions(prev => prev.map(a => a._id === auctionId ? { ...a, ...cancelled } : a));
+      toast({ title: "Auction cancelled" });
+    } catch (err) {
+      let errorMessage = "Could not cancel the auction. Please try again.";
+      if (err instanceof AxiosError && err.response?.data?.message) {
+        errorMessage = err.response.data.message;
+      }
+      toast({ title: "Cancel failed", description: errorMessage, variant: "destructive" });
+    }
+  };
+
   // Format date string (ISO format expected from API) to readable string
   const formatDate = (dateString: string | undefined): string => {
     if (!dateString) return 'N/A';
@@ -76,7 +117,7 @@ const MyAuctions = () => {
 
   // Filter auctions based on activeTab, mapping API statuses
   const filteredAuctions = auctions.filter(auction => {
-    const status = auction.status; // 'upcoming' | 'active' | 'ending-soon' | 'ended'
+    const status = getAuctionDisplayStatus(auction);
 
     switch (activeTab) {
       case 'all':
@@ -85,11 +126,11 @@ const MyAuctions = () => {
         // Show active, ending-soon auctions in the 'Active' tab
         return status === 'active' || status === 'ending-soon';
       case 'ended':
-        return status === 'ended';
-      case 'draft':
-        // Map the API's 'upcoming' status to the UI's 'Drafts' tab
-        // If you have a true 'draft' status not listed in IAuction, adjust this logic
+        return status === 'ended' || status === 'cancelled';
+      case 'upcoming':
         return status === 'upcoming';
+      case 'draft':
+        return status === 'draft';
       default:
         return false;
     }
@@ -132,19 +173,14 @@ const MyAuctions = () => {
           </Link>
         </div>
 
-        {/* Tabs - Consider renaming 'Drafts' to 'Upcoming' if it aligns better */}
+        {/* Tabs */}
         <div className="mb-8 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
           <div className="border-b border-gray-200">
             <nav className="-mb-px flex space-x-8 overflow-x-auto" aria-label="Tabs">
-              {[
-                { id: 'all', label: 'All Auctions' },
-                { id: 'active', label: 'Active' }, // Shows 'active' and 'ending-soon'
-                { id: 'ended', label: 'Ended' },
-                { id: 'draft', label: 'Upcoming / Drafts' } // Label clarifies it shows 'upcoming'
-              ].map((tab) => (
+              {tabs.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as ActiveTab)}
+                  onClick={() => setActiveTab(tab.id)}
                   className={`
                     whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors duration-200
                     ${activeTab === tab.id
@@ -189,7 +225,7 @@ const MyAuctions = () => {
           <div className="bg-white p-12 rounded-lg shadow text-center animate-fade-in">
             <p className="text-gray-500">You don't have any auctions matching the '{
               // Find the label for the current activeTab
-              [{ id: 'all', label: 'All Auctions' }, { id: 'active', label: 'Active' }, { id: 'ended', label: 'Ended' }, { id: 'draft', label: 'Upcoming / Drafts' }].find(t => t.id === activeTab)?.label ?? activeTab
+              tabs.find(t => t.id === activeTab)?.label ?? activeTab
             }' category yet.</p>
             <Link to="/create-auction">
               <Button className="mt-4 gap-2">
@@ -204,7 +240,8 @@ const MyAuctions = () => {
             {filteredAuctions.map((auction, index) => {
               // Determine primary image source
               const primaryImage = auction.imageUrl ?? (auction.images.length > 0 ? auction.images[0] : '/placeholder.svg');
-              const statusLabel = auction.status === 'ending-soon' ? 'Ending Soon' : auction.status;
+              const status = getAuctionDisplayStatus(auction);
+              const statusLabel = status === 'ending-soon' ? 'Ending Soon' : status;
 
               return (
                 <div
@@ -222,9 +259,9 @@ const MyAuctions = () => {
                         onError={(e) => (e.currentTarget.src = "/placeholder.svg")}
                       />
                       {/* Status Overlay - Show for non-active states or 'ending-soon' */}
-                      {(auction.status === 'upcoming' || auction.status === 'ended' || auction.status === 'ending-soon') && (
-                        <div className={`absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center ${auction.status === 'ending-soon' ? 'bg-opacity-60' : ''}`}>
-                          <span className={`text-white font-semibold text-xs sm:text-sm uppercase tracking-wide px-2 py-1 rounded bg-black bg-opacity-60 ${auction.status === 'ending-soon' ? 'bg-red-500 text-white' : ''}`}>
+                      {status !== 'active' && (
+                        <div className={`absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center ${status === 'ending-soon' ? 'bg-opacity-60' : ''}`}>
+                          <span className={`text-white font-semibold text-xs sm:text-sm uppercase tracking-wide px-2 py-1 rounded bg-black bg-opacity-60 ${status === 'ending-soon' ? 'bg-red-500 text-white' : ''}`}>
                             {statusLabel}
                           </span>
                         </div>
@@ -232,46 +269,80 @@ const MyAuctions = () => {
                     </div>
                     {/* Details */}
                     <div className="flex-1 min-w-0">
-                      <Link to={`/auction/${auction._id}`} className="block hover:text-auction-purple transition-colors">
-                        <h3 className="text-lg font-semibold text-gray-900 truncate" title={auction.title}>{auction.title}</h3>
+                      {/* Drafts aren't public yet, so they open back in the form */}
+                      <Link to={status === 'draft' ? `/create-auction/${auction._id}` : `/auction/${auction._id}`} className="block hover:text-auction-purple transition-colors">
+                        <h3 className="text-lg font-semibold text-gray-900 truncate" title={auction.title}>{auction.title || 'Untitled draft'}</h3>
                       </Link>
                       <p className="mt-1 text-sm text-gray-600 line-clamp-2">{auction.description}</p>
                       <div className="mt-2 flex flex-col sm:flex-row sm:justify-between sm:items-end gap-2">
                         {/* Bid Info */}
                         <div>
                           <p className="text-sm text-gray-500">
-                            {auction.status === 'active' || auction.status === 'ending-soon' ? 'Current bid:' : (auction.status === 'ended' ? 'Winning bid:' : 'Starting bid:')}
+                            {status === 'active' || status === 'ending-soon' ? 'Current bid:' : (status === 'ended' ? (auction.reserveMet ? 'Winning bid:' : 'Highest bid:') : 'Starting bid:')}
                             {' '}
                             <span className="font-medium text-gray-900">
                               {auction.currentBid > 0
                                 ? `$${auction.currentBid.toLocaleString()}`
-                                : (auction.status !== 'upcoming' ? `$${auction.startingBid.toLocaleString()}` : 'Not started') // Show starting bid if no current bid (except upcoming)
+                                : (status !== 'upcoming' && status !== 'draft' ? `$${auction.startingBid.toLocaleString()}` : 'Not started') // Show starting bid if no current bid (except upcoming/draft)
                               }
                               {/* Handle case where even starting bid might be 0 */}
-                              {(auction.currentBid <= 0 && auction.startingBid <= 0 && auction.status !== 'upcoming') && 'No bids'}
+                              {(auction.currentBid <= 0 && auction.startingBid <= 0 && status !== 'upcoming') && 'No bids'}
                             </span>
                           </p>
                           <p className="text-sm text-gray-500">
                             {auction.bidCount} {auction.bidCount === 1 ? 'bid' : 'bids'}
                           </p>
+                          {auction.outcome && (
+                            <p className="text-sm text-gray-500">
+                              Outcome:{' '}
+                              <span className={auction.outcome === 'sold' ? 'font-medium text-green-600' : 'font-medium text-gray-900'}>
+                                {auction.outcome === 'sold'
+                                  ? `Sold for $${(auction.hammerPrice ?? auction.currentBid).toLocaleString()}`
+                                  : auction.outcome === 'reserve-not-met' ? 'Reserve not met' : 'Unsold'}
+                              </span>
+                            </p>
+                          )}
+                          {/* The reserve amount is only sent to the seller */}
+                          {auction.hasReserve && auction.reservePrice != null && (
+                            <p className="text-sm text-gray-500">
+                              Reserve: <span className="font-medium text-gray-900">${auction.reservePrice.toLocaleString()}</span>
+                              {' '}
+                              <span className={auction.reserveMet ? 'text-green-600' : 'text-orange-600'}>
+                                ({auction.reserveMet
+                                  ? 'met'
+                                  : status === 'ended' ? 'not met, no sale' : 'not met'})
+                              </span>
+                            </p>
+                          )}
                         </div>
                         {/* Date Info - Use appropriate date based on status */}
                         <div className="text-left sm:text-right flex-shrink-0">
                           <p className="text-xs text-gray-500">
-                            {auction.status === 'ended'
+                            {status === 'ended'
                               ? 'Ended:'
-                              : (auction.status === 'active' || auction.status === 'ending-soon')
+                              : (status === 'active' || status === 'ending-soon')
                                 ? 'Ends:'
                                 : 'Starts:'} {/* Changed from 'Created' to 'Starts' for upcoming */}
                           </p>
                           <p className="text-sm font-medium text-gray-700">
-                            {formatDate(auction.status === 'upcoming' ? auction.startTime : auction.endTime)}
+                            {formatDate(status === 'upcoming' ? auction.startTime : auction.endTime)}
                             </p>
                         </div>
                       </div>
                       {/* Action Buttons - Adjusted based on API status */}
                       <div className="mt-4 flex flex-wrap gap-2">
-                        {auction.status === 'upcoming' ? (
+                        {status === 'draft' ? (
+                          <>
+                            <Link to={`/create-auction/${auction._id}`}>
+                              <Button variant="default" size="sm">
+                                Continue Editing
+                              </Button>
+                            </Link>
+                            <Button variant="destructive" size="sm" onClick={() => handleDelete(auction._id)}>
+                              <Trash2 className="h-4 w-4 mr-1" /> Delete
+                            </Button>
+                          </>
+                        ) : status === 'upcoming' ? (
                           <>
                             <Link to={`/edit-auction/${auction._id}`}> {/* Edit upcoming/draft */}
                               <Button variant="default" size="sm">
@@ -286,7 +357,7 @@ const MyAuctions = () => {
                               <Trash2 className="h-4 w-4 mr-1" /> Delete
                             </Button>
                           </>
-                        ) : auction.status === 'active' || auction.status === 'ending-soon' ? (
+                        ) : status === 'active' || status === 'ending-soon' ? (
                           <>
                             <Link to={`/auction-analytics/${auction._id}`}>
                               <Button variant="default" size="sm">
@@ -299,12 +370,14 @@ const MyAuctions = () => {
                                 Edit Listing
                               </Button>
                             </Link> */}
-                             {/* Add Cancel functionality */}
-                             <Button variant="destructive" size="sm" /* onClick={() => handleCancel(auction._id)} */ >
-                                 Cancel Auction
-                             </Button>
+                             {/* Sellers can only cancel before the first bid */}
+                             {auction.bidCount === 0 && (
+                               <Button variant="destructive" size="sm" onClick={() => handleCancel(auction._id)}>
+                                   Cancel Auction
+                               </Button>
+                             )}
                           </>
-                        ) : auction.status === 'ended' ? (
+                        ) : status === 'ended' ? (
                            <>
                              <Link to={`/auction-analytics/${auction._id}`}>
                                <Button variant="default" size="sm">
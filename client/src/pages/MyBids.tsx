@@ -14,8 +14,11 @@ interface IMappedBid {
     auctionId: string;
     auctionTitle: string;
     bidAmount: number;
+    quantity?: number; // Multi-unit lots: units asked for
+    filledQuantity?: number; // Multi-unit lots: units this bid holds (or won)
+    isRetracted?: boolean; // Taken back with an admin's approval
     currentHighestBid: number;
-    status: 'winning' | 'outbid' | 'won' | 'lost' | 'ended' | 'unknown'; // Possible statuses
+    status: 'winning' | 'outbid' | 'sealed' | 'won' | 'lost' | 'ended' | 'unknown'; // Possible statuses
     timeLeft: string;
     image: string;
     endedDate?: string; // Only if status is 'lost' or 'won'
@@ -26,6 +29,7 @@ const TABS = [
   { id: 'all', label: 'All Bids' },
   { id: 'winning', label: 'Winning' },
   { id: 'outbid', label: 'Outbid' },
+  { id: 'sealed', label: 'Sealed' },
   { id: 'won', label: 'Won' },
   { id: 'lost', label: 'Lost' }
 ];
@@ -82,6 +86,9 @@ const MyBids = () => {
                         auctionId: auctionData?._id ?? 'N/A',
                         auctionTitle: auctionData?.title ?? 'Auction Title Unavailable',
                         bidAmount: bid.amount,
+                        quantity: auctionData?.quantity && auctionData.quantity > 1 ? bid.quantity ?? 1 : undefined,
+                        filledQuantity: bid.filledQuantity,
+                        isRetracted: bid.isRetracted,
                         currentHighestBid: auctionData?.currentBid ?? 0,
                         status: currentStatus,
                         timeLeft: calculateTimeLeft(auctionData?.endTime),
@@ -235,10 +242,16 @@ const MyBids = () => {
                                         <div className="mt-1 flex flex-col md:flex-row justify-between md:items-start">
                                             {/* Left side info */}
                                             <div>
-                                                <p className="text-sm text-gray-500">Your bid: <span className="font-medium text-gray-900">${bid.bidAmount.toLocaleString()}</span></p>
+                                                <p className="text-sm text-gray-500">Your bid: <span className="font-medium text-gray-900">${bid.bidAmount.toLocaleString()}{bid.quantity !== undefined && ` × ${bid.quantity}`}</span>{bid.isRetracted && <span className="ml-2 text-xs text-red-500">(retracted)</span>}</p>
+                                                {/* Partial fills on multi-unit lots */}
+                                                {bid.quantity !== undefined && (
+                                                    <p className="text-sm text-gray-500">
+                                                        Units {bid.status === 'won' ? 'won' : 'filled'}: <span className="font-medium text-gray-900">{bid.filledQuantity ?? 0} of {bid.quantity}</span>
+                                                    </p>
+                                                )}
                                                 <p className="text-sm text-gray-500">
-                                                    {bid.status === 'lost' || bid.status === 'won' ? 'Final price:' : 'Current highest:'}
-                                                    <span className="font-medium text-gray-900"> ${bid.currentHighestBid.toLocaleString()}</span>
+                                                    {bid.status === 'lost' || bid.status === 'won' ? 'Final price:' : bid.quantity !== undefined ? 'Clearing price:' : 'Current highest:'}
+                                                    <span className="font-medium text-gray-900"> {bid.status === 'sealed' ? 'hidden until close' : `$${bid.currentHighestBid.toLocaleString()}`}</span>
                                                 </p>
                                                 {(bid.status === 'lost' || bid.status === 'won') && bid.endedDate && (
                                                     <p className="text-sm text-gray-500">Ended on: <span className="font-medium">{bid.endedDate}</span></p>
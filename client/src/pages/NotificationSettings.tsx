@@ -0,0 +1,101 @@
+import Header from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+import { notificationService } from "@/services/notificationService";
+import { IEmailPreferences } from "@/types/notification";
+
+const EMAIL_OPTIONS: { key: keyof IEmailPreferences; label: string; description: string }[] = [
+  { key: 'outbid', label: 'Outbid', description: 'Someone bids above you on an auction you were leading.' },
+  { key: 'auctionWon', label: 'Auction won', description: 'You win an auction.' },
+  { key: 'auctionSold', label: 'Auction sold', description: 'One of your auctions sells.' },
+  { key: 'endingSoon', label: 'Ending soon', description: 'An auction on your watchlist has less than an hour left.' },
+];
+
+const NotificationSettings = () => {
+  const [preferences, setPreferences] = useState<IEmailPreferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await notificationService.getEmailPreferences();
+        setPreferences(response.emailPreferences);
+      } catch (err) {
+        console.error("Error fetching email preferences:", err);
+        setError("Failed to load your email settings. Please try again later.");
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleToggle = async (key: keyof IEmailPreferences, enabled: boolean) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: enabled }); // Optimistic
+
+    try {
+      const response = await notificationService.updateEmailPreferences({ [key]: enabled });
+      setPreferences(response.emailPreferences);
+    } catch (err) {
+      console.error("Error updating email preferences:", err);
+      setPreferences(previous);
+      toast({
+        title: "Settings not saved",
+        description: "Could not update your email settings. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-fade-in">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Notification Settings</h1>
+          <p className="mt-1 text-gray-500">
+            In-app notifications are always on. Choose which ones we also send you by email.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email notifications</CardTitle>
+            <CardDescription>
+              Account emails, like password resets, are always sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : !preferences ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              EMAIL_OPTIONS.map(option => (
+                <div key={option.key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`email-${option.key}`} className="text-sm font-medium">{option.label}</Label>
+                    <p className="text-sm text-gray-500">{option.description}</p>
+                  </div>
+                  <Switch
+                    id={`email-${option.key}`}
+                    checked={preferences[option.key]}
+                    onCheckedChange={(checked) => handleToggle(option.key, checked)}
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,137 @@
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Monitor } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { AuthSession, authService } from "@/services/authService";
+
+// A short label for a user agent, e.g. "Chrome on Windows"
+const describeDevice = (userAgent: string) => {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+};
+
+const Sessions = () => {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { logout } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setSessions(await authService.getSessions());
+      } catch (err) {
+        console.error("Error fetching sessions:", err);
+        setError("Failed to load your sessions. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: AuthSession) => {
+    if (session.current) {
+      logout(); // Signing this device out ends its session too
+      return;
+    }
+    setRevokingId(session._id);
+    try {
+      await authService.revokeSession(session._id);
+      setSessions(prev => prev.filter(existing => existing._id !== session._id));
+      toast({ title: "Device signed out", description: describeDevice(session.userAgent) });
+    } catch (err) {
+      toast({
+        title: "Could not sign out that device",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-fade-in">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Active Sessions</h1>
+          <p className="mt-1 text-gray-500">
+            Devices signed in to your account. Sign out any you don't recognise.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Signed-in devices</CardTitle>
+            <CardDescription>
+              Resetting your password signs out every device.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-gray-500">No active sessions.</p>
+            ) : (
+              sessions.map(session => (
+                <div key={session._id} className="flex items-center justify-between gap-4 py-4 first:pt-0 last:pb-0">
+                  <div className="flex items-start gap-3">
+                    <Monitor className="h-5 w-5 mt-0.5 text-gray-400" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {describeDevice(session.userAgent)}
+                        {session.current && (
+                          <span className="ml-2 text-xs font-normal text-auction-purple">This device</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                        {" · "}Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokingId === session._id}
+                    onClick={() => handleRevoke(session)}
+                  >
+                    {revokingId === session._id ? "Signing out..." : "Sign out"}
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Sessions;
@@ -1,7 +1,7 @@
 // src/pages/signup.tsx (Corrected Import Path)
 
 import { useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -22,6 +22,7 @@ import {
 // ***** USE CORRECTED IMPORT PATH *****
 import { useAuth } from "@/contexts/AuthContext";
 // **************************************
+import EmailVerificationForm from "@/components/EmailVerificationForm";
 
 // Schema definition remains the same (no terms)
 const signupSchema = z.object({
@@ -39,8 +40,11 @@ type SignupFormValues = z.infer<typeof signupSchema>;
 const Signup = () => {
     const [showPassword, setShowPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+    // Set once the account exists: the page then asks for the emailed code
+    const [verificationEmail, setVerificationEmail] = useState<string | null>(null);
     // Use useAuth hook with the correct import
     const { signup, isLoading } = useAuth();
+    const navigate = useNavigate();
 
     const form = useForm<SignupFormValues>({
         resolver: zodResolver(signupSchema),
@@ -56,9 +60,9 @@ const Signup = () => {
         // Log added previously for debugging
         console.log("Signup Component: onSubmit function started. Data:", data);
 
-        // Call context signup function
-        await signup(data.name, data.email, data.password);
-        // Navigation is handled by the signup function in useAuth context
+        // Call context signup function; on success move on to the verification step
+        const created = await signup(data.name, data.email, data.password);
+        if (created) setVerificationEmail(data.email);
     };
 
     return (
@@ -69,167 +73,182 @@ const Signup = () => {
                     <span className="text-2xl font-bold text-auction-purple">AuctionVerse</span>
                 </Link>
                 <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-                    Create your account
+                    {verificationEmail ? "Verify your email" : "Create your account"}
                 </h2>
-                <p className="mt-2 text-center text-sm text-gray-600">
-                    Or{" "}
-                    <Link
-                        to="/login"
-                        className="font-medium text-auction-purple hover:text-auction-purple-dark"
-                    >
-                        sign in to your existing account
-                    </Link>
-                </p>
+                {!verificationEmail && (
+                    <p className="mt-2 text-center text-sm text-gray-600">
+                        Or{" "}
+                        <Link
+                            to="/login"
+                            className="font-medium text-auction-purple hover:text-auction-purple-dark"
+                        >
+                            sign in to your existing account
+                        </Link>
+                    </p>
+                )}
             </div>
             <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
                 <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-                    <Form {...form}>
-                        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                             {/* --- Name Field --- */}
-                            <FormField
-                                control={form.control}
-                                name="name"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>Full Name</FormLabel>
-                                        <FormControl>
-                                            <div className="relative rounded-md shadow-sm">
-                                                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                                    <User className="h-5 w-5 text-gray-400" />
-                                                </div>
-                                                <Input
-                                                    placeholder="John Doe"
-                                                    className="pl-10"
-                                                    {...field}
-                                                />
-                                            </div>
-                                        </FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
+                    {verificationEmail ? (
+                        <>
+                            <EmailVerificationForm
+                                email={verificationEmail}
+                                onVerified={() => navigate('/', { replace: true })}
                             />
-
-                            {/* --- Email Field --- */}
-                             <FormField
-                                control={form.control}
-                                name="email"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>Email</FormLabel>
-                                        <FormControl>
-                                             <div className="relative rounded-md shadow-sm">
-                                                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                                    <Mail className="h-5 w-5 text-gray-400" />
+                            <p className="mt-4 text-center text-sm text-gray-500">
+                                <Link to="/" className="hover:text-gray-700">Skip for now</Link>
+                                {" "}&middot; you can verify later, but you'll need to before bidding or selling.
+                            </p>
+                        </>
+                    ) : (
+                        <Form {...form}>
+                            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                                 {/* --- Name Field --- */}
+                                <FormField
+                                    control={form.control}
+                                    name="name"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Full Name</FormLabel>
+                                            <FormControl>
+                                                <div className="relative rounded-md shadow-sm">
+                                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                        <User className="h-5 w-5 text-gray-400" />
+                                                    </div>
+                                                    <Input
+                                                        placeholder="John Doe"
+                                                        className="pl-10"
+                                                        {...field}
+                                                    />
                                                 </div>
-                                                <Input
-                                                    type="email"
-                                                    placeholder="you@example.com"
-                                                    className="pl-10"
-                                                    {...field}
-                                                />
-                                             </div>
-                                        </FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
-
-
-                            {/* --- Password Field --- */}
-                            <FormField
-                                control={form.control}
-                                name="password"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>Password</FormLabel>
-                                        <FormControl>
-                                            <div className="relative rounded-md shadow-sm">
-                                                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                                    <LockKeyhole className="h-5 w-5 text-gray-400" />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+    
+                                {/* --- Email Field --- */}
+                                 <FormField
+                                    control={form.control}
+                                    name="email"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Email</FormLabel>
+                                            <FormControl>
+                                                 <div className="relative rounded-md shadow-sm">
+                                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                        <Mail className="h-5 w-5 text-gray-400" />
+                                                    </div>
+                                                    <Input
+                                                        type="email"
+                                                        placeholder="you@example.com"
+                                                        className="pl-10"
+                                                        {...field}
+                                                    />
+                                                 </div>
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+    
+    
+                                {/* --- Password Field --- */}
+                                <FormField
+                                    control={form.control}
+                                    name="password"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Password</FormLabel>
+                                            <FormControl>
+                                                <div className="relative rounded-md shadow-sm">
+                                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                        <LockKeyhole className="h-5 w-5 text-gray-400" />
+                                                    </div>
+                                                    <Input
+                                                        type={showPassword ? "text" : "password"}
+                                                        placeholder="••••••••"
+                                                        className="pl-10 pr-10"
+                                                        {...field}
+                                                    />
+                                                     <button
+                                                        type="button"
+                                                        aria-label={showPassword ? "Hide password" : "Show password"}
+                                                        className="absolute inset-y-0 right-0 flex items-center pr-3 cursor-pointer"
+                                                        onClick={() => setShowPassword(!showPassword)}
+                                                    >
+                                                        {showPassword ? (
+                                                            <EyeOff className="h-5 w-5 text-gray-400" />
+                    ) : (
+                                                            <Eye className="h-5 w-5 text-gray-400" />
+                                                        )}
+                                                    </button>
                                                 </div>
-                                                <Input
-                                                    type={showPassword ? "text" : "password"}
-                                                    placeholder="••••••••"
-                                                    className="pl-10 pr-10"
-                                                    {...field}
-                                                />
-                                                 <button
-                                                    type="button"
-                                                    aria-label={showPassword ? "Hide password" : "Show password"}
-                                                    className="absolute inset-y-0 right-0 flex items-center pr-3 cursor-pointer"
-                                                    onClick={() => setShowPassword(!showPassword)}
-                                                >
-                                                    {showPassword ? (
-                                                        <EyeOff className="h-5 w-5 text-gray-400" />
-                                                    ) : (
-                                                        <Eye className="h-5 w-5 text-gray-400" />
-                                                    )}
-                                                </button>
-                                            </div>
-                                        </FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
-
-
-                            {/* --- Confirm Password Field --- */}
-                            <FormField
-                                control={form.control}
-                                name="confirmPassword"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>Confirm Password</FormLabel>
-                                        <FormControl>
-                                            <div className="relative rounded-md shadow-sm">
-                                                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                                    <LockKeyhole className="h-5 w-5 text-gray-400" />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+    
+    
+                                {/* --- Confirm Password Field --- */}
+                                <FormField
+                                    control={form.control}
+                                    name="confirmPassword"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Confirm Password</FormLabel>
+                                            <FormControl>
+                                                <div className="relative rounded-md shadow-sm">
+                                                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                        <LockKeyhole className="h-5 w-5 text-gray-400" />
+                                                    </div>
+                                                    <Input
+                                                        type={showConfirmPassword ? "text" : "password"}
+                                                        placeholder="••••••••"
+                                                        className="pl-10 pr-10"
+                                                        {...field}
+                                                    />
+                                                    <button
+                                                        type="button"
+                                                        aria-label={showConfirmPassword ? "Hide confirm password" : "Show confirm password"}
+                                                        className="absolute inset-y-0 right-0 flex items-center pr-3 cursor-pointer"
+                                                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                                                    >
+                                                        {showConfirmPassword ? (
+                                                            <EyeOff className="h-5 w-5 text-gray-400" />
+                    ) : (
+                                                            <Eye className="h-5 w-5 text-gray-400" />
+                                                        )}
+                                                    </button>
                                                 </div>
-                                                <Input
-                                                    type={showConfirmPassword ? "text" : "password"}
-                                                    placeholder="••••••••"
-                                                    className="pl-10 pr-10"
-                                                    {...field}
-                                                />
-                                                <button
-                                                    type="button"
-                                                    aria-label={showConfirmPassword ? "Hide confirm password" : "Show confirm password"}
-                                                    className="absolute inset-y-0 right-0 flex items-center pr-3 cursor-pointer"
-                                                    onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                                                >
-                                                    {showConfirmPassword ? (
-                                                        <EyeOff className="h-5 w-5 text-gray-400" />
-                                                    ) : (
-                                                        <Eye className="h-5 w-5 text-gray-400" />
-                                                    )}
-                                                </button>
-                                            </div>
-                                        </FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
-
-                            {/* --- Submit Button --- */}
-                            <Button
-                                type="submit"
-                                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-auction-purple hover:bg-auction-purple-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-auction-purple-dark disabled:opacity-50"
-                                disabled={isLoading}
-                            >
-                                {isLoading ? (
-                                    "Creating account..."
-                                ) : (
-                                    <>
-                                        Create account <ArrowRight className="ml-2 h-4 w-4" />
-                                    </>
-                                )}
-                            </Button>
-                        </form>
-                    </Form>
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+    
+                                {/* --- Submit Button --- */}
+                                <Button
+                                    type="submit"
+                                    className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-auction-purple hover:bg-auction-purple-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-auction-purple-dark disabled:opacity-50"
+                                    disabled={isLoading}
+                                >
+                                    {isLoading ? (
+                                        "Creating account..."
+                                    ) : (
+                                        <>
+                                            Create account <ArrowRight className="ml-2 h-4 w-4" />
+                                        </>
+                                    )}
+                                </Button>
+                            </form>
+                        </Form>
+                    )}
                 </div>
             </div>
         </div>
     );
 };
 
-export default Signup;
\ No newline at end of file
+export default Signup;
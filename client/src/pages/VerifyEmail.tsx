@@ -0,0 +1,39 @@
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import EmailVerificationForm from "@/components/EmailVerificationForm";
+import { useAuth } from "@/contexts/AuthContext";
+
+// For signed-in users who skipped verification at signup
+const VerifyEmail = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) return null; // ProtectedRoute handles signed-out users
+  if (user.isEmailVerified) return <Navigate to="/" replace />;
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center bg-gray-50 px-4 py-12">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <Link to="/" className="flex justify-center">
+          <span className="text-2xl font-bold text-auction-purple">AuctionVerse</span>
+        </Link>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Verify your email
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          You need a verified email address to bid or list auctions.
+        </p>
+      </div>
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          <EmailVerificationForm
+            email={user.email}
+            onVerified={() => navigate('/', { replace: true })}
+            codeJustSent={false}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
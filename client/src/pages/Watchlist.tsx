@@ -0,0 +1,122 @@
+import Header from "@/components/Header";
+import AuctionCard from "@/components/AuctionCard";
+import { Button } from "@/components/ui/button";
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { auctionService } from "@/services/auctionService";
+import { IAuction, IListAuctionParams } from "@/types/auction";
+
+const AUCTIONS_PER_PAGE = 24;
+
+// Tabs map onto the watchlist endpoint's status filter; 'all' sends none
+const TABS = [
+  { id: 'all', label: 'All' },
+  { id: 'live', label: 'Active' },
+  { id: 'ending-soon', label: 'Ending Soon' },
+  { id: 'scheduled', label: 'Upcoming' },
+  { id: 'closed', label: 'Ended' }
+];
+
+const Watchlist = () => {
+  const [auctions, setAuctions] = useState<IAuction[]>([]);
+  const [activeTab, setActiveTab] = useState(TABS[0].id);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchWatchlist = async () => {
+      setLoading(true);
+      setError(null);
+
+      const params: IListAuctionParams = {
+        limit: AUCTIONS_PER_PAGE,
+        sortBy: activeTab === 'scheduled' ? 'startTime' : 'endTime',
+        sortOrder: activeTab === 'closed' ? 'desc' : 'asc',
+      };
+      if (activeTab !== 'all') {
+        params.status = activeTab as IListAuctionParams['status'];
+      }
+
+      try {
+        const response = await auctionService.getWatchlist(params);
+        setAuctions(response.data);
+      } catch (err) {
+        console.error("Error fetching watchlist:", err);
+        setError("Failed to load your watchlist. Please try again later.");
+        setAuctions([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWatchlist();
+  }, [activeTab]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-fade-in">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 animate-fade-in-up" style={{ animationDelay: '0.1s' }}>Watchlist</h1>
+          <p className="mt-1 text-gray-500 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
+            Auctions you're following. We'll let you know when they start, get a new high bid or are about to end.
+          </p>
+        </div>
+
+        {/* --- Tabs --- */}
+        <div className="mb-8 animate-fade-in-up" style={{ animationDelay: '0.3s' }}>
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-8 overflow-x-auto" aria-label="Tabs">
+              {TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`
+                    whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm
+                    ${activeTab === tab.id
+                      ? 'border-auction-purple text-auction-purple'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}
+                  `}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </nav>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {Array(3).fill(0).map((_, index) => (
+              <div key={index} className="bg-white rounded-xl border border-gray-100 h-80 animate-skeleton-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-md shadow animate-fade-in">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        ) : auctions.length === 0 ? (
+          <div className="bg-white p-12 rounded-lg shadow text-center animate-fade-in">
+            <p className="text-gray-500">
+              {activeTab === 'all'
+                ? "You aren't watching any auctions yet."
+                : `No watched auctions in the '${TABS.find(tab => tab.id === activeTab)?.label}' category.`}
+            </p>
+            <Link to="/">
+              <Button variant="outline" className="mt-4">Browse Auctions</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {auctions.map((auction, index) => (
+              <AuctionCard key={auction._id} auction={auction} index={index} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { Routes, Route, Link, useLocation } from "react-router-dom";
+import { Routes, Route, Link, Navigate, useLocation } from "react-router-dom";
 import { 
   LayoutDashboard, 
   Users, 
@@ -22,41 +22,53 @@ import AdminAuctionAnalytics from "./AdminAuctionAnalytics";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { Permission } from "@/types/permission";
 
 const AdminDashboard = () => {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const location = useLocation();
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
-  const navItems = [
+  // Each section needs a permission; staff only see the ones their roles grant
+  const navItems: { title: string; icon: JSX.Element; path: string; permission: Permission }[] = [
     {
       title: "Dashboard",
       icon: <LayoutDashboard className="w-5 h-5" />,
       path: "/admin",
+      permission: "admin:access",
     },
     {
       title: "Auctions",
       icon: <Gavel className="w-5 h-5" />,
       path: "/admin/auctions",
+      permission: "auctions:suspend",
     },
     {
       title: "Users",
       icon: <Users className="w-5 h-5" />,
       path: "/admin/users",
+      permission: "users:view",
     },
     {
       title: "Reports",
       icon: <Flag className="w-5 h-5" />,
       path: "/admin/reports",
+      permission: "reports:manage",
     },
     {
       title: "Analytics",
       icon: <BarChart className="w-5 h-5" />,
       path: "/admin/analytics",
+      permission: "analytics:view",
     },
   ];
+  const visibleNavItems = navItems.filter((item) => hasPermission(item.permission));
+
+  // Sends staff without the section's permission back to the dashboard
+  const guard = (permission: Permission, element: JSX.Element) =>
+    hasPermission(permission) ? element : <Navigate to="/admin" replace />;
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
 
@@ -95,7 +107,7 @@ const AdminDashboard = () => {
           </div>
         </div>
         <nav className="space-y-1 px-2 py-4">
-          {navItems.map((item) => (
+          {visibleNavItems.map((item) => (
             <Link
               key={item.path}
               to={item.path}
@@ -126,10 +138,10 @@ const AdminDashboard = () => {
         <main className="container py-6">
           <Routes>
             <Route path="/" element={<AdminOverview />} />
-            <Route path="/auctions" element={<AdminAuctions />} />
-            <Route path="/users" element={<AdminUsers />} />
-            <Route path="/reports" element={<AdminReports />} />
-            <Route path="/analytics" element={<AdminAuctionAnalytics />} />
+            <Route path="/auctions" element={guard("auctions:suspend", <AdminAuctions />)} />
+            <Route path="/users" element={guard("users:view", <AdminUsers />)} />
+            <Route path="/reports" element={guard("reports:manage", <AdminReports />)} />
+            <Route path="/analytics" element={guard("analytics:view", <AdminAuctionAnalytics />)} />
           </Routes>
         </main>
       </div>
@@ -1,22 +1,25 @@
-
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { AxiosError } from "axios";
 import { useToast } from "@/hooks/use-toast";
-import { reportedAuctions, ReportedAuction } from "@/data/adminData";
-import { auctions } from "@/data/auctions";
-import { 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableHead, 
-  TableHeader, 
-  TableRow 
+import { useAuth } from "@/contexts/AuthContext";
+import { adminService } from "@/services/adminService";
+import { getReportReasonLabel } from "@/lib/reports";
+import { IAdminPagination } from "@/types/admin";
+import { IListReportsParams, IReport, ReportStatus } from "@/types/report";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
 } from "@/components/ui/table";
-import { 
-  Card, 
-  CardContent, 
-  CardDescription, 
-  CardHeader, 
-  CardTitle 
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -29,14 +32,15 @@ import {
   DialogClose,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { 
-  CheckCircle, 
-  Eye, 
-  XCircle,
-  RefreshCw,
-  AlertTriangle
+import {
+  CheckCircle,
+  Eye,
+  XCircle
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -44,84 +48,294 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { 
+import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger
 } from "@/components/ui/tooltip";
 
-const AdminReports = () => {
-  const [reportsList, setReportsList] = useState<ReportedAuction[]>(reportedAuctions);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300; // Wait for typing to pause before searching
+
+// Ban lengths offered when banning the seller, in days; 0 bans until lifted
+const BAN_DURATIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 0, label: "Until lifted" },
+];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof AxiosError && err.response?.data?.message ? err.response.data.message : fallback;
+
+const StatusBadge = ({ status }: { status: ReportStatus }) => (
+  <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium
+    ${status === 'pending'
+      ? 'bg-yellow-100 text-yellow-800'
+      : status === 'resolved'
+        ? 'bg-green-100 text-green-800'
+        : 'bg-gray-100 text-gray-800'}`
+  }>
+    {status.charAt(0).toUpperCase() + status.slice(1)}
+  </span>
+);
+
+interface ReportActionProps {
+  report: IReport;
+  onUpdated: (report: IReport) => void;
+}
+
+// Resolve with a note, optionally hiding the auction and banning its seller
+const ResolveReportDialog = ({ report, onUpdated }: ReportActionProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [hideAuction, setHideAuction] = useState(false);
+  const [banSeller, setBanSeller] = useState(false);
+  const [banDays, setBanDays] = useState("30");
+  const [submitting, setSubmitting] = useState(false);
+  const { hasPermission } = useAuth();
   const { toast } = useToast();
 
-  const filteredReports = reportsList.filter(
-    (report) => {
-      const matchesSearch = 
-        report.auctionTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        report.reason.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        report.reportedBy.name.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      const matchesStatus = statusFilter === "all" || report.status === statusFilter;
-      
-      return matchesSearch && matchesStatus;
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const response = await adminService.resolveReport(report._id, {
+        note: note.trim() || undefined,
+        hideAuction,
+        banSeller,
+        banExpiresAt: banSeller && Number(banDays) > 0
+          ? new Date(Date.now() + Number(banDays) * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      });
+      onUpdated(response.report);
+      setOpen(false);
+      toast({
+        title: "Report resolved",
+        description: [
+          response.report.auctionHidden && "The auction was hidden.",
+          response.report.sellerBanned && "The seller was banned.",
+        ].filter(Boolean).join(" ") || "The reporter has been notified.",
+      });
+    } catch (err) {
+      toast({
+        title: "Could not resolve the report",
+        description: errorMessage(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
     }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="icon" className="text-green-600">
+                <CheckCircle className="h-4 w-4" />
+              </Button>
+            </DialogTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Resolve Report</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Report</DialogTitle>
+          <DialogDescription>
+            Confirm the report about "{report.auction?.title ?? 'a removed auction'}" and choose what to do about it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`resolve-note-${report._id}`}>Note (optional)</Label>
+            <Textarea
+              id={`resolve-note-${report._id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="What was found and done"
+            />
+          </div>
+          {report.auction && hasPermission("auctions:suspend") && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`hide-auction-${report._id}`}
+                checked={hideAuction}
+                onCheckedChange={(checked) => setHideAuction(checked === true)}
+              />
+              <Label htmlFor={`hide-auction-${report._id}`}>
+                Hide the auction{report.auction.status === 'live' || report.auction.status === 'scheduled' ? ' and cancel it' : ''}
+              </Label>
+            </div>
+          )}
+          {report.auction?.seller && hasPermission("users:ban") && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`ban-seller-${report._id}`}
+                  checked={banSeller}
+                  onCheckedChange={(checked) => setBanSeller(checked === true)}
+                />
+                <Label htmlFor={`ban-seller-${report._id}`}>
+                  Ban the seller, {report.auction.seller.name}
+                </Label>
+              </div>
+              {banSeller && (
+                <Select value={banDays} onValueChange={setBanDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BAN_DURATIONS.map(duration => (
+                      <SelectItem key={duration.days} value={String(duration.days)}>{duration.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button disabled={submitting} onClick={handleSubmit}>
+            {submitting ? "Resolving..." : "Resolve Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   );
+};
 
-  const handleResolveReport = (id: string) => {
-    setReportsList(
-      reportsList.map((report) => {
-        if (report.id === id) {
-          return { ...report, status: 'resolved' };
-        }
-        return report;
-      })
-    );
-    
-    toast({
-      title: "Report resolved",
-      description: `Report #${id} has been marked as resolved.`,
-    });
-  };
+// Dismiss with a note; the auction stands
+const DismissReportDialog = ({ report, onUpdated }: ReportActionProps) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
 
-  const handleDismissReport = (id: string) => {
-    setReportsList(
-      reportsList.map((report) => {
-        if (report.id === id) {
-          return { ...report, status: 'dismissed' };
-        }
-        return report;
-      })
-    );
-    
-    toast({
-      title: "Report dismissed",
-      description: `Report #${id} has been dismissed.`,
-    });
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const response = await adminService.dismissReport(report._id, note.trim() || undefined);
+      onUpdated(response.report);
+      setOpen(false);
+      toast({
+        title: "Report dismissed",
+        description: "The reporter has been notified.",
+      });
+    } catch (err) {
+      toast({
+        title: "Could not dismiss the report",
+        description: errorMessage(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const handleReopenReport = (id: string) => {
-    setReportsList(
-      reportsList.map((report) => {
-        if (report.id === id) {
-          return { ...report, status: 'pending' };
-        }
-        return report;
-      })
-    );
-    
-    toast({
-      title: "Report reopened",
-      description: `Report #${id} has been reopened for review.`,
-    });
-  };
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="icon" className="text-red-600">
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </DialogTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Dismiss Report</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dismiss Report</DialogTitle>
+          <DialogDescription>
+            The auction stays up as it is.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`dismiss-note-${report._id}`}>Note (optional)</Label>
+          <Textarea
+            id={`dismiss-note-${report._id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Why no action is needed"
+          />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button variant="destructive" disabled={submitting} onClick={handleSubmit}>
+            {submitting ? "Dismissing..." : "Dismiss Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
 
-  const getAuctionDetails = (auctionId: string) => {
-    return auctions.find(auction => auction.id === auctionId);
+const AdminReports = () => {
+  const [reportsList, setReportsList] = useState<IReport[]>([]);
+  const [pagination, setPagination] = useState<IAdminPagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState(""); // searchTerm once typing pauses
+  const [statusFilter, setStatusFilter] = useState<NonNullable<IListReportsParams['status']>>("all");
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    const fetchReports = async () => {
+      setLoading(true);
+      try {
+        const response = await adminService.getReports({
+          status: statusFilter,
+          search: search || undefined,
+          page,
+          limit: PAGE_SIZE,
+        });
+        setReportsList(response.reports);
+        setPagination(response.pagination);
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching reports:", err);
+        setError(errorMessage(err, "Failed to load reports. Please try again later."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReports();
+  }, [statusFilter, search, page]);
+
+  const handleReportUpdated = (updated: IReport) => {
+    setReportsList(prev => prev.map(report => report._id === updated._id ? updated : report));
   };
 
+  const reasonsText = (report: IReport) =>
+    report.reasons.map(getReportReasonLabel).join(", ");
+
   return (
     <div className="space-y-8">
       <div>
@@ -135,16 +349,26 @@ const AdminReports = () => {
         <CardHeader>
           <CardTitle>All Reports</CardTitle>
           <CardDescription>
-            Total of {reportsList.length} reports on the platform.
+            {!pagination
+              ? 'Loading reports...'
+              : statusFilter === 'all' && !search
+                ? `Total of ${pagination.total} reports on the platform.`
+                : `${pagination.total} matching reports.`}
           </CardDescription>
           <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4 pt-2">
             <Input
-              placeholder="Search reports..."
+              placeholder="Search by auction title or reporter..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="max-w-sm"
             />
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value as typeof statusFilter);
+                setPage(1);
+              }}
+            >
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
@@ -158,206 +382,187 @@ const AdminReports = () => {
           </div>
         </CardHeader>
         <CardContent className="overflow-auto">
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead className="w-[50px]">ID</TableHead>
-                  <TableHead>Auction</TableHead>
-                  <TableHead className="hidden md:table-cell">Reason</TableHead>
-                  <TableHead className="hidden lg:table-cell">Reported By</TableHead>
-                  <TableHead className="hidden md:table-cell">Date</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredReports.map((report) => (
-                  <TableRow key={report.id}>
-                    <TableCell className="font-medium">{report.id}</TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="line-clamp-1">{report.auctionTitle}</div>
-                        <div className="text-xs text-muted-foreground">ID: {report.auctionId}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell className="hidden md:table-cell">{report.reason}</TableCell>
-                    <TableCell className="hidden lg:table-cell">{report.reportedBy.name}</TableCell>
-                    <TableCell className="hidden md:table-cell">
-                      {report.createdAt.toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium 
-                        ${report.status === 'pending' 
-                          ? 'bg-yellow-100 text-yellow-800' 
-                          : report.status === 'resolved'
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-gray-100 text-gray-800'}`
-                      }>
-                        {report.status.charAt(0).toUpperCase() + report.status.slice(1)}
-                      </span>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex space-x-1">
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <Dialog>
-                                <DialogTrigger asChild>
-                                  <Button variant="ghost" size="icon">
-                                    <Eye className="h-4 w-4" />
-                                  </Button>
-                                </DialogTrigger>
-                                <DialogContent className="max-w-3xl">
-                                  <DialogHeader>
-                                    <DialogTitle>Report Details</DialogTitle>
-                                    <DialogDescription>
-                                      Complete information about this report
-                                    </DialogDescription>
-                                  </DialogHeader>
-                                  <div className="grid gap-4 pt-4">
-                                    <div className="grid grid-cols-4 items-center gap-4">
-                                      <div className="font-semibold">Report ID:</div>
-                                      <div className="col-span-3">{report.id}</div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-center gap-4">
-                                      <div className="font-semibold">Auction:</div>
-                                      <div className="col-span-3">
-                                        {report.auctionTitle} (ID: {report.auctionId})
-                                      </div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-center gap-4">
-                                      <div className="font-semibold">Reported By:</div>
-                                      <div className="col-span-3">
-                                        {report.reportedBy.name} (ID: {report.reportedBy.id})
-                                      </div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-center gap-4">
-                                      <div className="font-semibold">Date:</div>
-                                      <div className="col-span-3">
-                                        {report.createdAt.toLocaleString()}
-                                      </div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-center gap-4">
-                                      <div className="font-semibold">Status:</div>
-                                      <div className="col-span-3">
-                                        <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium 
-                                          ${report.status === 'pending' 
-                                            ? 'bg-yellow-100 text-yellow-800' 
-                                            : report.status === 'resolved'
-                                              ? 'bg-green-100 text-green-800' 
-                                              : 'bg-gray-100 text-gray-800'}`
-                                        }>
-                                          {report.status.charAt(0).toUpperCase() + report.status.slice(1)}
-                                        </span>
-                                      </div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-start gap-4">
-                                      <div className="font-semibold">Reason:</div>
-                                      <div className="col-span-3">{report.reason}</div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-start gap-4">
-                                      <div className="font-semibold">Description:</div>
-                                      <div className="col-span-3">{report.description}</div>
-                                    </div>
-                                    <div className="grid grid-cols-4 items-start gap-4">
-                                      <div className="font-semibold">Auction Details:</div>
-                                      <div className="col-span-3">
-                                        {getAuctionDetails(report.auctionId) ? (
-                                          <div className="space-y-2">
-                                            <div><strong>Current Bid:</strong> ${getAuctionDetails(report.auctionId)?.currentBid}</div>
-                                            <div><strong>Bid Count:</strong> {getAuctionDetails(report.auctionId)?.bidCount}</div>
-                                            <div><strong>Status:</strong> {getAuctionDetails(report.auctionId)?.status}</div>
-                                            <div><strong>End Date:</strong> {getAuctionDetails(report.auctionId)?.endTime.toLocaleDateString()}</div>
-                                            <Button asChild className="mt-2">
-                                              <a href={`/auction/${report.auctionId}`} target="_blank" rel="noopener noreferrer">
-                                                View Auction
-                                              </a>
-                                            </Button>
-                                          </div>
-                                        ) : (
-                                          <div>Auction not found or has been removed.</div>
-                                        )}
-                                      </div>
-                                    </div>
-                                  </div>
-                                  <DialogFooter className="mt-6">
-                                    <DialogClose asChild>
-                                      <Button variant="outline">Close</Button>
-                                    </DialogClose>
-                                  </DialogFooter>
-                                </DialogContent>
-                              </Dialog>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>View Report Details</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-
-                        {report.status === 'pending' && (
-                          <>
-                            <TooltipProvider>
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon"
-                                    onClick={() => handleResolveReport(report.id)}
-                                    className="text-green-600">
-                                    <CheckCircle className="h-4 w-4" />
-                                  </Button>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p>Mark as Resolved</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TooltipProvider>
-                            
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[50px]">ID</TableHead>
+                    <TableHead>Auction</TableHead>
+                    <TableHead className="hidden md:table-cell">Reason</TableHead>
+                    <TableHead className="hidden lg:table-cell">Reported By</TableHead>
+                    <TableHead className="hidden md:table-cell">Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!loading && reportsList.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No reports found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {reportsList.map((report) => (
+                    <TableRow key={report._id} className={loading ? 'opacity-50' : undefined}>
+                      <TableCell className="font-medium">{report._id.slice(-6)}</TableCell>
+                      <TableCell>
+                        <div>
+                          <div className="line-clamp-1">{report.auction?.title ?? 'Removed auction'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {report.auction ? `ID: ${report.auction._id}` : 'No longer exists'}
+                            {report.auction?.hiddenAt && ' · Hidden'}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">{reasonsText(report)}</TableCell>
+                      <TableCell className="hidden lg:table-cell">{report.reporter?.name ?? 'Deleted user'}</TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {new Date(report.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={report.status} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-1">
+                          <Dialog>
                             <TooltipProvider>
                               <Tooltip>
                                 <TooltipTrigger asChild>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="icon"
-                                    onClick={() => handleDismissReport(report.id)}
-                                    className="text-red-600">
-                                    <XCircle className="h-4 w-4" />
-                                  </Button>
+                                  <DialogTrigger asChild>
+                                    <Button variant="ghost" size="icon">
+                                      <Eye className="h-4 w-4" />
+                                    </Button>
+                                  </DialogTrigger>
                                 </TooltipTrigger>
                                 <TooltipContent>
-                                  <p>Dismiss Report</p>
+                                  <p>View Report Details</p>
                                 </TooltipContent>
                               </Tooltip>
                             </TooltipProvider>
-                          </>
-                        )}
-                        
-                        {(report.status === 'resolved' || report.status === 'dismissed') && (
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button 
-                                  variant="ghost" 
-                                  size="icon"
-                                  onClick={() => handleReopenReport(report.id)}
-                                  className="text-blue-600">
-                                  <RefreshCw className="h-4 w-4" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Reopen Report</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        )}
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
+                            <DialogContent className="max-w-3xl">
+                              <DialogHeader>
+                                <DialogTitle>Report Details</DialogTitle>
+                                <DialogDescription>
+                                  Complete information about this report
+                                </DialogDescription>
+                              </DialogHeader>
+                              <div className="grid gap-4 pt-4">
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <div className="font-semibold">Report ID:</div>
+                                  <div className="col-span-3">{report._id}</div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <div className="font-semibold">Auction:</div>
+                                  <div className="col-span-3">
+                                    {report.auction ? `${report.auction.title} (ID: ${report.auction._id})` : 'Removed auction'}
+                                  </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <div className="font-semibold">Reported By:</div>
+                                  <div className="col-span-3">
+                                    {report.reporter ? `${report.reporter.name} (${report.reporter.email})` : 'Deleted user'}
+                                  </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <div className="font-semibold">Date:</div>
+                                  <div className="col-span-3">
+                                    {new Date(report.createdAt).toLocaleString()}
+                                  </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <div className="font-semibold">Status:</div>
+                                  <div className="col-span-3">
+                                    <StatusBadge status={report.status} />
+                                  </div>
+                                </div>
+                                <div className="grid grid-cols-4 items-start gap-4">
+                                  <div className="font-semibold">Reason:</div>
+                                  <div className="col-span-3">{reasonsText(report)}</div>
+                                </div>
+                                <div className="grid grid-cols-4 items-start gap-4">
+                                  <div className="font-semibold">Description:</div>
+                                  <div className="col-span-3">{report.details || 'No details given.'}</div>
+                                </div>
+                                {report.status !== 'pending' && (
+                                  <div className="grid grid-cols-4 items-start gap-4">
+                                    <div className="font-semibold">Review:</div>
+                                    <div className="col-span-3 space-y-1">
+                                      <div>
+                                        {report.status === 'resolved' ? 'Resolved' : 'Dismissed'}
+                                        {report.reviewedBy && ` by ${report.reviewedBy.name}`}
+                                        {report.reviewedAt && ` on ${new Date(report.reviewedAt).toLocaleString()}`}
+                                      </div>
+                                      {report.reviewNote && <div>{report.reviewNote}</div>}
+                                      {report.auctionHidden && <div>The auction was hidden.</div>}
+                                      {report.sellerBanned && <div>The seller was banned.</div>}
+                                    </div>
+                                  </div>
+                                )}
+                                <div className="grid grid-cols-4 items-start gap-4">
+                                  <div className="font-semibold">Auction Details:</div>
+                                  <div className="col-span-3">
+                                    {report.auction ? (
+                                      <div className="space-y-2">
+                                        <div><strong>Current Bid:</strong> ${report.auction.currentBid}</div>
+                                        <div><strong>Bid Count:</strong> {report.auction.bidCount}</div>
+                                        <div><strong>Status:</strong> {report.auction.status}{report.auction.hiddenAt && ' (hidden)'}</div>
+                                        <div><strong>End Date:</strong> {new Date(report.auction.endTime).toLocaleDateString()}</div>
+                                        {report.auction.seller && (
+                                          <div><strong>Seller:</strong> {report.auction.seller.name} ({report.auction.seller.email})</div>
+                                        )}
+                                        <Button asChild className="mt-2">
+                                          <a href={`/auction/${report.auction._id}`} target="_blank" rel="noopener noreferrer">
+                                            View Auction
+                                          </a>
+                                        </Button>
+                                      </div>
+                                    ) : (
+                                      <div>Auction not found or has been removed.</div>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                              <DialogFooter className="mt-6">
+                                <DialogClose asChild>
+                                  <Button variant="outline">Close</Button>
+                                </DialogClose>
+                              </DialogFooter>
+                            </DialogContent>
+                          </Dialog>
+
+                          {report.status === 'pending' && (
+                            <>
+                              <ResolveReportDialog report={report} onUpdated={handleReportUpdated} />
+                              <DismissReportDialog report={report} onUpdated={handleReportUpdated} />
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.currentPage} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={page >= pagination.totalPages || loading} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,21 +1,25 @@
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { AxiosError } from "axios";
 import { useToast } from "@/hooks/use-toast";
-import { users, User } from "@/data/adminData";
-import { 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableHead, 
-  TableHeader, 
-  TableRow 
+import { useAuth } from "@/contexts/AuthContext";
+import { adminService } from "@/services/adminService";
+import { AdminUserSortField, IAdminPagination, IAdminUser, IListAdminUsersParams } from "@/types/admin";
+import { StaffRole } from "@/types/permission";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
 } from "@/components/ui/table";
-import { 
-  Card, 
-  CardContent, 
-  CardDescription, 
-  CardHeader, 
-  CardTitle 
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,42 +32,372 @@ import {
   DialogFooter,
   DialogClose,
 } from "@/components/ui/dialog";
-import { Ban, Gavel, Lock, ShoppingBag, UserCheck } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Ban, Gavel, ShieldCheck, ShieldOff, ShoppingBag, UserCheck, UserCog } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
-const AdminUsers = () => {
-  const [usersList, setUsersList] = useState<User[]>(users);
-  const [searchTerm, setSearchTerm] = useState("");
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300; // Wait for typing to pause before searching
+
+// Ban lengths offered in the ban dialog, in days; 0 bans until lifted
+const BAN_DURATIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 0, label: "Until lifted" },
+];
+
+// Staff roles and what each one can do; see server/config/permissions.js
+const STAFF_ROLES: { role: StaffRole; label: string; description: string }[] = [
+  { role: "moderator", label: "Moderator", description: "Auctions, bid retractions, reports and user lookup" },
+  { role: "support", label: "Support", description: "User lookup" },
+  { role: "finance", label: "Finance", description: "Analytics and seller payouts" },
+];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof AxiosError && err.response?.data?.message ? err.response.data.message : fallback;
+
+interface UserActionProps {
+  user: IAdminUser;
+  onUpdated: (user: IAdminUser) => void;
+}
+
+// Ban with a reason and length, or lift the ban
+const BanUserDialog = ({ user, onUpdated }: UserActionProps) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [days, setDays] = useState("7");
+  const [submitting, setSubmitting] = useState(false);
   const { toast } = useToast();
+  const isActive = user.status === 'active';
 
-  const filteredUsers = usersList.filter(
-    (user) =>
-      user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      user.id.includes(searchTerm)
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const response = isActive
+        ? await adminService.banUser(user.id, {
+            reason: reason.trim(),
+            expiresAt: Number(days) > 0
+              ? new Date(Date.now() + Number(days) * 24 * 60 * 60 * 1000).toISOString()
+              : null,
+          })
+        : await adminService.unbanUser(user.id, reason.trim() || undefined);
+      onUpdated(response.user);
+      setOpen(false);
+      setReason("");
+      toast({
+        title: `User ${isActive ? 'banned' : 'unbanned'}`,
+        description: isActive ? response.message : `User ${user.name} has been unbanned.`,
+      });
+    } catch (err) {
+      toast({
+        title: `Could not ${isActive ? 'ban' : 'unban'} ${user.name}`,
+        description: errorMessage(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={isActive ? 'text-red-600' : 'text-green-600'}
+        >
+          {isActive ? (
+            <span className="flex items-center gap-1">
+              <Ban className="h-4 w-4" />
+              Ban
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <UserCheck className="h-4 w-4" />
+              Unban
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isActive ? 'Ban User' : 'Unban User'}
+          </DialogTitle>
+          <DialogDescription>
+            {isActive
+              ? `Ban ${user.name}? They will be signed out, can no longer bid or create auctions, and their bids on live auctions will be retracted.`
+              : `Are you sure you want to unban ${user.name}? They will be able to use the platform again. Retracted bids stay retracted.`
+            }
+          </DialogDescription>
+        </DialogHeader>
+        {!isActive && user.banReason && (
+          <p className="text-sm text-muted-foreground">Banned for: {user.banReason}</p>
+        )}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`ban-reason-${user.id}`}>{isActive ? 'Reason' : 'Note (optional)'}</Label>
+            <Textarea
+              id={`ban-reason-${user.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              placeholder={isActive ? "Shown to the user when they try to log in" : "Why the ban is lifted"}
+            />
+          </div>
+          {isActive && (
+            <div className="space-y-2">
+              <Label>Length</Label>
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BAN_DURATIONS.map(duration => (
+                    <SelectItem key={duration.days} value={String(duration.days)}>{duration.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            variant={isActive ? 'destructive' : 'default'}
+            disabled={submitting || (isActive && !reason.trim())}
+            onClick={handleSubmit}
+          >
+            {isActive ? 'Ban User' : 'Unban User'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   );
+};
 
-  const handleToggleUserStatus = (id: string) => {
-    setUsersList(
-      usersList.map((user) => {
-        if (user.id === id) {
-          const newStatus = user.status === 'active' ? 'banned' : 'active';
-          return { ...user, status: newStatus };
-        }
-        return user;
-      })
-    );
-    
-    const user = usersList.find(u => u.id === id);
-    const newStatus = user?.status === 'active' ? 'banned' : 'active';
-    
-    toast({
-      title: `User ${newStatus === 'active' ? 'unbanned' : 'banned'}`,
-      description: `User ${user?.name} has been ${newStatus === 'active' ? 'unbanned' : 'banned'}.`,
-    });
+// Grant or revoke admin access
+const AdminAccessDialog = ({ user, onUpdated }: UserActionProps) => {
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const response = user.isAdmin
+        ? await adminService.revokeAdmin(user.id)
+        : await adminService.grantAdmin(user.id);
+      onUpdated(response.user);
+      toast({ title: response.message, description: user.name });
+    } catch (err) {
+      toast({
+        title: "Could not update admin access",
+        description: errorMessage(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          {user.isAdmin ? (
+            <span className="flex items-center gap-1">
+              <ShieldOff className="h-4 w-4" />
+              Remove admin
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <ShieldCheck className="h-4 w-4" />
+              Make admin
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{user.isAdmin ? 'Remove Admin Access' : 'Grant Admin Access'}</DialogTitle>
+          <DialogDescription>
+            {user.isAdmin
+              ? `${user.name} will lose access to every admin tool.`
+              : `${user.name} will be able to use every admin tool, including banning users and managing admins.`
+            }
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <DialogClose asChild>
+            <Button disabled={submitting} onClick={handleConfirm}>
+              {user.isAdmin ? 'Remove Admin' : 'Make Admin'}
+            </Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Grant or revoke staff roles, one at a time
+const StaffRolesDialog = ({ user, onUpdated }: UserActionProps) => {
+  const [updatingRole, setUpdatingRole] = useState<StaffRole | null>(null);
+  const { toast } = useToast();
+
+  const handleToggle = async (role: StaffRole, granted: boolean) => {
+    setUpdatingRole(role);
+    try {
+      const response = granted
+        ? await adminService.grantRole(user.id, role)
+        : await adminService.revokeRole(user.id, role);
+      onUpdated(response.user);
+      toast({ title: response.message, description: user.name });
+    } catch (err) {
+      toast({
+        title: "Could not update staff roles",
+        description: errorMessage(err, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingRole(null);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <span className="flex items-center gap-1">
+            <UserCog className="h-4 w-4" />
+            Roles
+          </span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Staff Roles</DialogTitle>
+          <DialogDescription>
+            Choose which admin tools {user.name} can use. Changes apply right away.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {STAFF_ROLES.map(({ role, label, description }) => (
+            <div key={role} className="flex items-start space-x-3">
+              <Checkbox
+                id={`role-${user.id}-${role}`}
+                checked={user.roles.includes(role)}
+                disabled={updatingRole !== null}
+                onCheckedChange={(checked) => handleToggle(role, checked === true)}
+              />
+              <div className="grid gap-1">
+                <Label htmlFor={`role-${user.id}-${role}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Done</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminUsers = () => {
+  const [usersList, setUsersList] = useState<IAdminUser[]>([]);
+  const [pagination, setPagination] = useState<IAdminPagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState(""); // searchTerm once typing pauses
+  const [status, setStatus] = useState<NonNullable<IListAdminUsersParams['status']>>("all");
+  const [sortBy, setSortBy] = useState<AdminUserSortField>("registeredDate");
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>("desc");
+  const [page, setPage] = useState(1);
+  const { hasPermission } = useAuth();
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      setLoading(true);
+      try {
+        const response = await adminService.listUsers({
+          search: search || undefined,
+          status,
+          sortBy,
+          sortOrder,
+          page,
+          limit: PAGE_SIZE,
+        });
+        setUsersList(response.users);
+        setPagination(response.pagination);
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching users:", err);
+        setError(errorMessage(err, "Failed to load users. Please try again later."));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, [search, status, sortBy, sortOrder, page]);
+
+  const handleSort = (field: AdminUserSortField) => {
+    if (field === sortBy) {
+      setSortOrder(order => order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(field);
+      setSortOrder(field === 'name' || field === 'email' ? 'asc' : 'desc');
+    }
+    setPage(1);
+  };
+
+  const handleUserUpdated = (updated: IAdminUser) => {
+    setUsersList(prev => prev.map(user => user.id === updated.id ? updated : user));
+  };
+
+  const sortButton = (field: AdminUserSortField, label: string) => (
+    <button
+      type="button"
+      className="inline-flex items-center gap-1 hover:text-foreground"
+      onClick={() => handleSort(field)}
+    >
+      {label}
+      {sortBy === field && (sortOrder === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+    </button>
+  );
+
+  const canBan = hasPermission("users:ban");
+  const canManageRoles = hasPermission("users:manage_roles");
+
   return (
     <div className="space-y-8">
       <div>
@@ -77,129 +411,158 @@ const AdminUsers = () => {
         <CardHeader>
           <CardTitle>All Users</CardTitle>
           <CardDescription>
-            Total of {usersList.length} users on the platform.
+            {!pagination
+              ? 'Loading users...'
+              : status === 'all' && !search
+                ? `Total of ${pagination.total} users on the platform.`
+                : `${pagination.total} matching users.`}
           </CardDescription>
-          <div className="pt-2">
+          <div className="flex flex-col gap-2 pt-2 sm:flex-row">
             <Input
-              placeholder="Search users by name, email or ID..."
+              placeholder="Search users by name or email..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="max-w-sm"
             />
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as typeof status);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="sm:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="banned">Banned</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>User</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Registered</TableHead>
-                  <TableHead>Last Login</TableHead>
-                  <TableHead>Activity</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredUsers.map((user) => (
-                  <TableRow key={user.id}>
-                    <TableCell>
-                      <div className="flex items-center gap-3">
-                        <Avatar>
-                          <AvatarImage src={user.avatar} alt={user.name} />
-                          <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <div className="font-medium">{user.name}</div>
-                          <div className="text-xs text-muted-foreground">ID: {user.id}</div>
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>{user.email}</TableCell>
-                    <TableCell>
-                      <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium 
-                        ${user.status === 'active' 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-red-100 text-red-800'}`
-                      }>
-                        {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{sortButton('name', 'User')}</TableHead>
+                    <TableHead>{sortButton('email', 'Email')}</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>{sortButton('registeredDate', 'Registered')}</TableHead>
+                    <TableHead>{sortButton('lastLogin', 'Last Login')}</TableHead>
+                    <TableHead>
+                      <span className="inline-flex items-center gap-2">
+                        Activity:
+                        {sortButton('totalBids', 'Bids')}
+                        {sortButton('totalAuctions', 'Auctions')}
                       </span>
-                    </TableCell>
-                    <TableCell>
-                      {user.registeredDate.toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      {user.lastLogin.toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-1 text-xs">
-                        <div className="flex items-center gap-1">
-                          <Gavel className="h-3 w-3" />
-                          <span>{user.totalBids} bids</span>
+                    </TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!loading && usersList.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No users found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {usersList.map((user) => (
+                    <TableRow key={user.id} className={loading ? 'opacity-50' : undefined}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Avatar>
+                            <AvatarImage src={user.avatar ?? undefined} alt={user.name} />
+                            <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div className="font-medium">
+                              {user.name}
+                              {user.isAdmin && (
+                                <span className="ml-2 rounded-full bg-auction-purple/10 px-2 py-0.5 text-xs font-medium text-auction-purple">Admin</span>
+                              )}
+                              {!user.isAdmin && user.roles.map(role => (
+                                <span key={role} className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium capitalize text-gray-700">{role}</span>
+                              ))}
+                            </div>
+                            <div className="text-xs text-muted-foreground">ID: {user.id}</div>
+                          </div>
                         </div>
-                        <span className="mx-1">•</span>
+                      </TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium
+                          ${user.status === 'active'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-red-100 text-red-800'}`
+                        }>
+                          {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
+                        </span>
+                        {user.status === 'banned' && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            {user.banExpiresAt ? `Until ${new Date(user.banExpiresAt).toLocaleDateString()}` : 'Until lifted'}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(user.registeredDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        {user.lastLogin ? new Date(user.lastLogin).toLocaleDateString() : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 text-xs">
+                          <div className="flex items-center gap-1">
+                            <Gavel className="h-3 w-3" />
+                            <span>{user.totalBids} bids</span>
+                          </div>
+                          <span className="mx-1">•</span>
+                          <div className="flex items-center gap-1">
+                            <ShoppingBag className="h-3 w-3" />
+                            <span>{user.totalAuctions} auctions</span>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
                         <div className="flex items-center gap-1">
-                          <ShoppingBag className="h-3 w-3" />
-                          <span>{user.totalAuctions} auctions</span>
+                          {canBan && !user.isAdmin && (
+                            <BanUserDialog user={user} onUpdated={handleUserUpdated} />
+                          )}
+                          {canManageRoles && user.status === 'active' && (
+                            <AdminAccessDialog user={user} onUpdated={handleUserUpdated} />
+                          )}
+                          {canManageRoles && user.status === 'active' && !user.isAdmin && (
+                            <StaffRolesDialog user={user} onUpdated={handleUserUpdated} />
+                          )}
                         </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button 
-                            variant="ghost"
-                            size="sm"
-                            className={user.status === 'active' ? 'text-red-600' : 'text-green-600'}
-                          >
-                            {user.status === 'active' ? (
-                              <span className="flex items-center gap-1">
-                                <Ban className="h-4 w-4" />
-                                Ban
-                              </span>
-                            ) : (
-                              <span className="flex items-center gap-1">
-                                <UserCheck className="h-4 w-4" />
-                                Unban
-                              </span>
-                            )}
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>
-                              {user.status === 'active' ? 'Ban User' : 'Unban User'}
-                            </DialogTitle>
-                            <DialogDescription>
-                              {user.status === 'active' 
-                                ? `Are you sure you want to ban ${user.name}? They will no longer be able to bid or create auctions.`
-                                : `Are you sure you want to unban ${user.name}? They will be able to use the platform again.`
-                              }
-                            </DialogDescription>
-                          </DialogHeader>
-                          <DialogFooter>
-                            <DialogClose asChild>
-                              <Button variant="outline">Cancel</Button>
-                            </DialogClose>
-                            <DialogClose asChild>
-                              <Button 
-                                variant={user.status === 'active' ? 'destructive' : 'default'}
-                                onClick={() => handleToggleUserStatus(user.id)}
-                              >
-                                {user.status === 'active' ? 'Ban User' : 'Unban User'}
-                              </Button>
-                            </DialogClose>
-                          </DialogFooter>
-                        </DialogContent>
-                      </Dialog>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.currentPage} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" disabled={page >= pagination.totalPages || loading} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
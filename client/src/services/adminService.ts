@@ -0,0 +1,223 @@
+// src/services/adminService.ts
+import apiClient from './apiClient';
+import {
+    IAdminUserActionApiResponse,
+    IAdminUserListApiResponse,
+    IAuditLogApiResponse,
+    IBanUserPayload,
+    IListAdminUsersParams,
+    IListAuditLogParams,
+} from '../types/admin';
+import {
+    IListReportsParams,
+    IReportActionApiResponse,
+    IReportListApiResponse,
+    IResolveReportPayload,
+} from '../types/report';
+import { StaffRole } from '../types/permission';
+
+const BASE_PATH = '/admin';
+
+/**
+ * Fetches a page of users with their activity totals.
+ * Uses GET /api/admin/users (needs the users:view permission)
+ * @param params - Optional search, status filter, sorting and paging.
+ * @returns Promise resolving to the users and pagination details.
+ */
+const listUsers = async (params?: IListAdminUsersParams): Promise<IAdminUserListApiResponse> => {
+    try {
+        const response = await apiClient.get<IAdminUserListApiResponse>(`${BASE_PATH}/users`, { params });
+        return response.data;
+    } catch (error) {
+        console.error("Error fetching users:", error);
+        throw error;
+    }
+};
+
+/**
+ * Bans a user, signing them out and retracting their bids on live auctions.
+ * Uses POST /api/admin/users/:userId/ban (needs the users:ban permission)
+ * @param userId - The ID of the user.
+ * @param payload - The reason, and an optional expiry.
+ * @returns Promise resolving to the updated user and what was retracted.
+ */
+const banUser = async (userId: string, payload: IBanUserPayload): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.post<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/ban`, payload);
+        return response.data;
+    } catch (error) {
+        console.error(`Error banning user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Lifts a user's ban.
+ * Uses POST /api/admin/users/:userId/unban (needs the users:ban permission)
+ * @param userId - The ID of the user.
+ * @param reason - Optional note for the audit log.
+ * @returns Promise resolving to the updated user.
+ */
+const unbanUser = async (userId: string, reason?: string): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.post<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/unban`, { reason });
+        return response.data;
+    } catch (error) {
+        console.error(`Error unbanning user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Gives a user admin access.
+ * Uses POST /api/admin/users/:userId/admin (needs the users:manage_roles permission)
+ * @param userId - The ID of the user.
+ * @returns Promise resolving to the updated user.
+ */
+const grantAdmin = async (userId: string): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.post<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/admin`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error granting admin access to user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Takes a user's admin access away.
+ * Uses DELETE /api/admin/users/:userId/admin (needs the users:manage_roles permission)
+ * @param userId - The ID of the user.
+ * @returns Promise resolving to the updated user.
+ */
+const revokeAdmin = async (userId: string): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.delete<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/admin`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error revoking admin access of user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Gives a user a staff role.
+ * Uses POST /api/admin/users/:userId/roles/:role (needs the users:manage_roles permission)
+ * @param userId - The ID of the user.
+ * @param role - The role to grant.
+ * @returns Promise resolving to the updated user.
+ */
+const grantRole = async (userId: string, role: StaffRole): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.post<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/roles/${role}`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error granting the ${role} role to user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Takes a staff role away from a user.
+ * Uses DELETE /api/admin/users/:userId/roles/:role (needs the users:manage_roles permission)
+ * @param userId - The ID of the user.
+ * @param role - The role to revoke.
+ * @returns Promise resolving to the updated user.
+ */
+const revokeRole = async (userId: string, role: StaffRole): Promise<IAdminUserActionApiResponse> => {
+    if (!userId) throw new Error("User ID is required");
+    try {
+        const response = await apiClient.delete<IAdminUserActionApiResponse>(`${BASE_PATH}/users/${userId}/roles/${role}`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error revoking the ${role} role of user ${userId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Fetches staff actions, newest first.
+ * Uses GET /api/admin/audit-log (needs the audit:view permission)
+ * @param params - Optional filters and paging.
+ * @returns Promise resolving to the entries and pagination details.
+ */
+const getAuditLog = async (params?: IListAuditLogParams): Promise<IAuditLogApiResponse> => {
+    try {
+        const response = await apiClient.get<IAuditLogApiResponse>(`${BASE_PATH}/audit-log`, { params });
+        return response.data;
+    } catch (error) {
+        console.error("Error fetching the audit log:", error);
+        throw error;
+    }
+};
+
+/**
+ * Fetches auction reports for the moderation queue.
+ * Uses GET /api/admin/reports (needs the reports:manage permission)
+ * @param params - Optional status and reason filters, search and paging.
+ * @returns Promise resolving to the reports and pagination details.
+ */
+const getReports = async (params?: IListReportsParams): Promise<IReportListApiResponse> => {
+    try {
+        const response = await apiClient.get<IReportListApiResponse>(`${BASE_PATH}/reports`, { params });
+        return response.data;
+    } catch (error) {
+        console.error("Error fetching reports:", error);
+        throw error;
+    }
+};
+
+/**
+ * Resolves a report, optionally hiding the auction and banning its seller.
+ * Uses POST /api/admin/reports/:reportId/resolve (needs the reports:manage permission)
+ * @param reportId - The ID of the report.
+ * @param payload - A note and the actions to take.
+ * @returns Promise resolving to the updated report.
+ */
+const resolveReport = async (reportId: string, payload: IResolveReportPayload): Promise<IReportActionApiResponse> => {
+    if (!reportId) throw new Error("Report ID is required");
+    try {
+        const response = await apiClient.post<IReportActionApiResponse>(`${BASE_PATH}/reports/${reportId}/resolve`, payload);
+        return response.data;
+    } catch (error) {
+        console.error(`Error resolving report ${reportId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Dismisses a report; the auction stands.
+ * Uses POST /api/admin/reports/:reportId/dismiss (needs the reports:manage permission)
+ * @param reportId - The ID of the report.
+ * @param note - Optional note on the decision.
+ * @returns Promise resolving to the updated report.
+ */
+const dismissReport = async (reportId: string, note?: string): Promise<IReportActionApiResponse> => {
+    if (!reportId) throw new Error("Report ID is required");
+    try {
+        const response = await apiClient.post<IReportActionApiResponse>(`${BASE_PATH}/reports/${reportId}/dismiss`, { note });
+        return response.data;
+    } catch (error) {
+        console.error(`Error dismissing report ${reportId}:`, error);
+        throw error;
+    }
+};
+
+export const adminService = {
+    listUsers,
+    banUser,
+    unbanUser,
+    grantAdmin,
+    revokeAdmin,
+    grantRole,
+    revokeRole,
+    getAuditLog,
+    getReports,
+    resolveReport,
+    dismissReport,
+};
@@ -1,5 +1,5 @@
 // src/services/apiClient.ts
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 
 // Define your backend base URL
 const API_BASE_URL = 'http://localhost:5001/api'; // Use http for local dev if not using HTTPS
@@ -11,13 +11,27 @@ const apiClient = axios.create({
   },
 });
 
+// Keys for the tokens in localStorage. The access token is short-lived; the
+// refresh token renews it (and is itself replaced on every renewal).
+export const TOKEN_STORAGE_KEY = 'auctionverse_token';
+export const REFRESH_TOKEN_STORAGE_KEY = 'auctionverse_refresh_token';
+
+// Window events telling AuthContext about renewals done here
+export const TOKEN_REFRESHED_EVENT = 'auctionverse:token-refreshed'; // detail: the new access token
+export const SESSION_EXPIRED_EVENT = 'auctionverse:session-expired';
+
+// Requests whose 401 means bad credentials, not an expired access token
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
 // --- Interceptor to add Auth Token ---
 // This interceptor reads the token from localStorage (or wherever you store it)
 // and adds it to the Authorization header for every request.
 apiClient.interceptors.request.use(
   (config) => {
     // Use the same key you'll use in AuthContext for storing the token
-    const token = localStorage.getItem('auctionverse_token');
+    const token = localStorage.getItem(TOKEN_STORAGE_KEY);
     if (token) {
       // Ensure the header format matches what your backend 'protect' middleware expects
       config.headers.Authorization = `Bearer ${token}`;
@@ -29,27 +43,77 @@ apiClient.interceptors.request.use(
   }
 );
 
-// --- Optional: Interceptor for Response Error Handling ---
-// You might want to handle global errors, like logging out the user
-// if a 401 Unauthorized response is received.
+/**
+ * Swaps the stored refresh token for a new access token and refresh token.
+ * Uses plain axios so a failing refresh doesn't loop through the interceptors.
+ * @returns The new access token.
+ */
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  if (!refreshToken) throw new Error('No refresh token');
+
+  try {
+    const { data } = await axios.post<{ token: string; refreshToken: string }>(
+      `${API_BASE_URL}/auth/refresh`,
+      { refreshToken }
+    );
+    localStorage.setItem(TOKEN_STORAGE_KEY, data.token);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, data.refreshToken);
+    window.dispatchEvent(new CustomEvent(TOKEN_REFRESHED_EVENT, { detail: data.token }));
+    return data.token;
+  } catch (error) {
+    // Another tab may have renewed the session at the same time; use its tokens
+    const latestRefreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    const latestToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (latestRefreshToken && latestRefreshToken !== refreshToken && latestToken) {
+      return latestToken;
+    }
+    throw error;
+  }
+};
+
+// One renewal at a time: requests failing together all wait for the same one
+let pendingRefresh: Promise<string> | null = null;
+
+// --- Interceptor to renew an expired access token ---
+// On a 401, renews the access token with the refresh token and retries the
+// request once. If the session can't be renewed, the tokens are cleared and
+// AuthContext signs the user out.
 apiClient.interceptors.response.use(
   (response) => response, // Simply return successful responses
-  (error) => {
-    if (error.response && error.response.status === 401) {
-      // Token is invalid or expired
-      console.error("Unauthorized access - 401. Potentially logging out.");
-      // Optionally trigger a logout action here if you have access to your auth context/store
-      // For example: authContext.logout(false); // Pass false to prevent redirect loop if already on login page
-      localStorage.removeItem('auctionverse_token'); // Ensure token is cleared
-      // Redirect to login page if not already there
-      if (window.location.pathname !== '/login') {
-         // window.location.href = '/login'; // Hard redirect might be necessary
+  async (error) => {
+    const request = error.config as RetriableRequestConfig | undefined;
+    const canRefresh =
+      error.response?.status === 401 &&
+      request &&
+      !request._retried &&
+      !NO_REFRESH_PATHS.some(path => request.url?.startsWith(path)) &&
+      localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+
+    if (!canRefresh) {
+      return Promise.reject(error);
+    }
+
+    request._retried = true;
+    try {
+      if (!pendingRefresh) {
+        pendingRefresh = refreshAccessToken().finally(() => {
+          pendingRefresh = null;
+        });
       }
+      const token = await pendingRefresh;
+      request.headers.Authorization = `Bearer ${token}`;
+      return apiClient(request);
+    } catch {
+      console.error("Session could not be renewed. Logging out.");
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+      window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      // Return the original error so components can handle it if needed
+      return Promise.reject(error);
     }
-    // Return the error so components can handle specific errors if needed
-    return Promise.reject(error);
   }
 );
 
 
-export default apiClient;
\ No newline at end of file
+export default apiClient;
@@ -6,8 +6,11 @@ import {
   IAuctionUpdatePayload,
   IListAuctionParams,
   IApiResponse,
-  IApiListResponse // Use the specific list response type
+  IApiListResponse, // Use the specific list response type
+  IWatchApiResponse
 } from '../types/auction'; // Adjust path if you placed interfaces elsewhere
+import { IAcceptDutchApiResponse, IBuyNowApiResponse } from '../types/bid';
+import { IReportCreateApiResponse, IReportCreatePayload } from '../types/report';
 
 const BASE_PATH = '/auctions'; // Base path for auction routes
 
@@ -28,6 +31,38 @@ const createAuction = async (payload: IAuctionCreatePayload): Promise<IAuction>
   }
 };
 
+/**
+ * Saves an incomplete auction as a private draft (e.g. form autosave). Requires authentication.
+ * Nothing is validated until the draft is published.
+ * @param payload - Whatever fields have been filled in so far.
+ * @returns Promise resolving to the saved draft.
+ */
+const saveDraft = async (payload: IAuctionUpdatePayload): Promise<IAuction> => {
+  try {
+    const response = await apiClient.post<IApiResponse<IAuction>>(BASE_PATH, { ...payload, status: 'draft' });
+    return response.data.data;
+  } catch (error) {
+    console.error("Error saving auction draft:", error);
+    throw error;
+  }
+};
+
+/**
+ * Publishes a draft after full validation, scheduling it (or opening it right away). Requires authentication (seller).
+ * @param id - The ID of the draft to publish.
+ * @returns Promise resolving to the published auction.
+ */
+const publishAuction = async (id: string): Promise<IAuction> => {
+  if (!id) throw new Error("Auction ID is required for publish");
+  try {
+    const response = await apiClient.post<IApiResponse<IAuction>>(`${BASE_PATH}/${id}/publish`);
+    return response.data.data;
+  } catch (error) {
+    console.error(`Error publishing auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Fetches a list of auctions based on filter, sort, and pagination parameters. Public access.
  * @param params - Query parameters for filtering, sorting, and pagination.
@@ -113,6 +148,55 @@ const toggleLikeAuction = async (id: string): Promise<IAuction> => {
   }
 };
 
+/**
+ * Buys an auction outright at its Buy It Now price, ending it. Requires authentication.
+ * @param id - The ID of the auction to buy.
+ * @returns Promise resolving to the final bid and the closed auction.
+ */
+const buyNow = async (id: string): Promise<IBuyNowApiResponse> => {
+  if (!id) throw new Error("Auction ID is required for buy now");
+  try {
+    const response = await apiClient.post<IBuyNowApiResponse>(`${BASE_PATH}/${id}/buy-now`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error buying auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Accepts a Dutch auction's current price, winning it. Requires authentication.
+ * @param id - The ID of the Dutch auction.
+ * @param maxPrice - The price the buyer saw; the server refuses if its own price is higher.
+ * @returns Promise resolving to the winning bid and the closed auction.
+ */
+const acceptDutchPrice = async (id: string, maxPrice?: number): Promise<IAcceptDutchApiResponse> => {
+  if (!id) throw new Error("Auction ID is required for accept");
+  try {
+    const response = await apiClient.post<IAcceptDutchApiResponse>(`${BASE_PATH}/${id}/accept`, { maxPrice });
+    return response.data;
+  } catch (error) {
+    console.error(`Error accepting price for auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Cancels an auction before it closes. Requires authentication (seller with no bids yet, or admin).
+ * @param id - The ID of the auction to cancel.
+ * @returns Promise resolving to the cancelled auction.
+ */
+const cancelAuction = async (id: string): Promise<IAuction> => {
+  if (!id) throw new Error("Auction ID is required for cancel");
+  try {
+    const response = await apiClient.patch<IApiResponse<IAuction>>(`${BASE_PATH}/${id}/cancel`);
+    return response.data.data;
+  } catch (error) {
+    console.error(`Error cancelling auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Fetches auctions created by the currently logged-in user. Requires authentication.
  * @param params - Query parameters for filtering, sorting, and pagination.
@@ -145,14 +229,88 @@ const getLikedAuctions = async (params?: IListAuctionParams): Promise<IApiListRe
   }
 };
 
+/**
+ * Adds an auction to the logged-in user's watchlist. Requires authentication.
+ * @param id - The ID of the auction to watch.
+ * @returns Promise resolving to the watch state and the auction's watch count.
+ */
+const watchAuction = async (id: string): Promise<IWatchApiResponse> => {
+  if (!id) throw new Error("Auction ID is required to watch an auction");
+  try {
+    const response = await apiClient.post<IWatchApiResponse>(`${BASE_PATH}/${id}/watch`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error watching auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Removes an auction from the logged-in user's watchlist. Requires authentication.
+ * @param id - The ID of the auction to stop watching.
+ * @returns Promise resolving to the watch state and the auction's watch count.
+ */
+const unwatchAuction = async (id: string): Promise<IWatchApiResponse> => {
+  if (!id) throw new Error("Auction ID is required to unwatch an auction");
+  try {
+    const response = await apiClient.delete<IWatchApiResponse>(`${BASE_PATH}/${id}/watch`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error unwatching auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the auctions on the logged-in user's watchlist. Requires authentication.
+ * @param params - Query parameters; status narrows to scheduled, live, ending-soon or closed.
+ * @returns Promise resolving to the paginated list of watched auctions.
+ */
+const getWatchlist = async (params?: IListAuctionParams): Promise<IApiListResponse<IAuction>> => {
+  try {
+    // Lives under /users/me rather than /auctions
+    const response = await apiClient.get<IApiListResponse<IAuction>>('/users/me/watchlist', { params });
+    return response.data;
+  } catch (error) {
+    console.error("Error fetching watchlist:", error);
+    throw error;
+  }
+};
+
+/**
+ * Reports an auction to the moderators. Requires authentication.
+ * @param id - The ID of the auction to report.
+ * @param payload - The reason ids and optional details.
+ * @returns Promise resolving to the confirmation message.
+ */
+const reportAuction = async (id: string, payload: IReportCreatePayload): Promise<IReportCreateApiResponse> => {
+  if (!id) throw new Error("Auction ID is required to report an auction");
+  try {
+    const response = await apiClient.post<IReportCreateApiResponse>(`${BASE_PATH}/${id}/reports`, payload);
+    return response.data;
+  } catch (error) {
+    console.error(`Error reporting auction ID ${id}:`, error);
+    throw error;
+  }
+};
+
 // Export all functions as a single service object
 export const auctionService = {
   createAuction,
+  saveDraft,
+  publishAuction,
   getAuctions,
   getAuctionDetails,
   updateAuction,
   deleteAuction,
   toggleLikeAuction,
+  buyNow,
+  acceptDutchPrice,
+  cancelAuction,
   getMyAuctions,
   getLikedAuctions,
+  watchAuction,
+  unwatchAuction,
+  getWatchlist,
+  reportAuction,
 };
\ No newline at end of file
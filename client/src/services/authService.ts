@@ -1,6 +1,8 @@
 // src/services/authService.ts
+import { AxiosError } from 'axios';
 import apiClient from '@/services/apiClient';
 import { User } from '@/contexts/AuthContext'; // Assuming User type is here or imported
+import { Permission, StaffRole } from '@/types/permission';
 
 // --- Type Definitions ---
 
@@ -24,22 +26,60 @@ interface BackendUser {
   name: string;
   email: string;
   isAdmin: boolean;
+  roles: StaffRole[];
+  permissions: Permission[]; // Derived from isAdmin and roles
+  isEmailVerified: boolean;
   profilePictureUrl: string;
 }
 
 // Type for the response from login/register endpoints
 interface AuthResponse {
-  token: string;
+  token: string; // Short-lived access token
+  refreshToken: string; // Renews the access token (see apiClient)
   _id: string;
   name: string;
   email: string;
   isAdmin: boolean;
+  roles: StaffRole[];
+  permissions: Permission[];
+  isEmailVerified: boolean;
   profilePictureUrl: string;
 }
 
 // Type for the response from verify-token endpoint (User data without token)
 type VerifyTokenResponse = BackendUser;
 
+// Type for the response from the verify-email endpoint
+interface VerifyEmailResponse {
+  message: string;
+  isEmailVerified: boolean;
+}
+
+// Type for the response from the resend-otp endpoint
+interface ResendOtpResponse {
+  message: string;
+}
+
+// Type for the response from the forgot-password and reset-password endpoints
+interface MessageResponse {
+  message: string;
+}
+
+// A signed-in device, from the sessions endpoint
+export interface AuthSession {
+  _id: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string; // When the device signed in
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+interface SessionsResponse {
+  sessions: AuthSession[];
+}
+
 // Type for the response from update profile picture endpoint
 interface UpdateProfilePictureResponse {
     _id: string;
@@ -83,6 +123,81 @@ const verifyToken = async (): Promise<VerifyTokenResponse> => {
   }
 };
 
+const logout = async (refreshToken: string | null): Promise<void> => {
+  try {
+    // Sends the access token too when there is one; the refresh token covers an expired one
+    await apiClient.post('/auth/logout', { refreshToken });
+  } catch (error) {
+    // The tokens are cleared locally either way
+    console.error("Logout request failed:", error);
+  }
+};
+
+const getSessions = async (): Promise<AuthSession[]> => {
+  try {
+    const response = await apiClient.get<SessionsResponse>('/auth/sessions');
+    return response.data.sessions;
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error("Fetching sessions failed:", message || error);
+    throw new Error(message || 'Could not load your sessions.');
+  }
+};
+
+const revokeSession = async (sessionId: string): Promise<void> => {
+  try {
+    await apiClient.delete(`/auth/sessions/${sessionId}`);
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error(`Revoking session ${sessionId} failed:`, message || error);
+    throw new Error(message || 'Could not sign out that device.');
+  }
+};
+
+const verifyEmail = async (code: string): Promise<VerifyEmailResponse> => {
+  try {
+    const response = await apiClient.post<VerifyEmailResponse>('/auth/verify-email', { code });
+    return response.data;
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error("Email verification failed:", message || error);
+    throw new Error(message || 'Could not verify your email. Please try again.');
+  }
+};
+
+const resendOtp = async (): Promise<ResendOtpResponse> => {
+  try {
+    const response = await apiClient.post<ResendOtpResponse>('/auth/resend-otp');
+    return response.data;
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error("Resending verification code failed:", message || error);
+    throw new Error(message || 'Could not send a new code. Please try again.');
+  }
+};
+
+const forgotPassword = async (email: string): Promise<MessageResponse> => {
+  try {
+    const response = await apiClient.post<MessageResponse>('/auth/forgot-password', { email });
+    return response.data;
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error("Requesting a password reset failed:", message || error);
+    throw new Error(message || 'Could not send the reset link. Please try again.');
+  }
+};
+
+const resetPassword = async (token: string, password: string): Promise<MessageResponse> => {
+  try {
+    const response = await apiClient.post<MessageResponse>('/auth/reset-password', { token, password });
+    return response.data;
+  } catch (error) {
+    const message = error instanceof AxiosError ? error.response?.data?.message : undefined;
+    console.error("Password reset failed:", message || error);
+    throw new Error(message || 'Could not reset your password. Please try again.');
+  }
+};
+
 const updateProfilePicture = async (): Promise<UpdateProfilePictureResponse> => {
     try {
         // Token added automatically by interceptor
@@ -104,6 +219,9 @@ const mapBackendUserToFrontend = (backendUser: BackendUser | AuthResponse): User
         name: backendUser.name,
         avatar: backendUser.profilePictureUrl, // Map profilePictureUrl to avatar
         isAdmin: backendUser.isAdmin,
+        roles: backendUser.roles,
+        permissions: backendUser.permissions,
+        isEmailVerified: backendUser.isEmailVerified,
     };
 };
 
@@ -111,7 +229,14 @@ const mapBackendUserToFrontend = (backendUser: BackendUser | AuthResponse): User
 export const authService = {
   register,
   login,
+  logout,
+  getSessions,
+  revokeSession,
   verifyToken,
+  verifyEmail,
+  resendOtp,
+  forgotPassword,
+  resetPassword,
   updateProfilePicture,
   mapBackendUserToFrontend,
 };
\ No newline at end of file
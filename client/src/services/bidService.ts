@@ -4,7 +4,10 @@ import {
     IBid,
     IBidCreatePayload,
     IPlaceBidApiResponse,
-    IApiListResponse,
+    IBidListApiResponse,
+    IAuctionBidListApiResponse,
+    IProxyBidApiResponse,
+    IBidRetractionApiResponse,
     // Import IApiResponse if needed for other potential bid routes
 } from '../types/bid'; // Adjust path as needed
 // Import generic types if they live elsewhere
@@ -14,7 +17,7 @@ import {
  * Places a new bid on a specific auction. Requires authentication.
  * Uses POST /api/auctions/:auctionId/bids
  * @param auctionId - The ID of the auction to bid on.
- * @param payload - The bid amount { amount: number }.
+ * @param payload - The bid amount and/or maximum bid { amount?: number, maxAmount?: number }.
  * @returns Promise resolving to the API response containing the new bid and updated auction info.
  */
 const placeBid = async (auctionId: string, payload: IBidCreatePayload): Promise<IPlaceBidApiResponse> => {
@@ -35,13 +38,14 @@ const placeBid = async (auctionId: string, payload: IBidCreatePayload): Promise<
  * Fetches all bids for a specific auction. Public access.
  * Uses GET /api/auctions/:auctionId/bids
  * @param auctionId - The ID of the auction whose bids are to be fetched.
- * @returns Promise resolving to the paginated list of bids for the auction.
+ * @returns Promise resolving to the list of bids for the auction, newest first.
+ * Amounts and bidders are withheld while a sealed-bid auction is open.
  */
-const getBidsForAuction = async (auctionId: string): Promise<IApiListResponse<IBid>> => {
+const getBidsForAuction = async (auctionId: string): Promise<IAuctionBidListApiResponse> => {
     if (!auctionId) throw new Error("Auction ID is required to fetch bids");
     try {
-        // Assuming backend returns { success: true, count, data: bids[] }
-        const response = await apiClient.get<IApiListResponse<IBid>>(`/auctions/${auctionId}/bids`);
+        // Backend returns { success: true, count, sealed?, bids: bids[] }
+        const response = await apiClient.get<IAuctionBidListApiResponse>(`/auctions/${auctionId}/bids`);
         return response.data; // Return the whole response object
     } catch (error) {
         console.error(`Error fetching bids for auction ${auctionId}:`, error);
@@ -52,12 +56,12 @@ const getBidsForAuction = async (auctionId: string): Promise<IApiListResponse<IB
 /**
  * Fetches all bids placed by the currently logged-in user. Requires authentication.
  * Uses GET /api/bids/me
- * @returns Promise resolving to the paginated list of the user's bids.
+ * @returns Promise resolving to the list of the user's bids.
  */
-const getMyBids = async (): Promise<IApiListResponse<IBid>> => {
+const getMyBids = async (): Promise<IBidListApiResponse> => {
     try {
-        // Assuming backend returns { success: true, count, data: bids[] }
-        const response = await apiClient.get<IApiListResponse<IBid>>('/bids/me');
+        // Backend returns { success: true, count, bids: bids[] }
+        const response = await apiClient.get<IBidListApiResponse>('/bids/me');
         return response.data; // Return the whole response object
     } catch (error) {
         console.error("Error fetching my bids:", error);
@@ -65,10 +69,68 @@ const getMyBids = async (): Promise<IApiListResponse<IBid>> => {
     }
 };
 
+/**
+ * Fetches the logged-in user's active maximum (proxy) bid on an auction. Requires authentication.
+ * Uses GET /api/auctions/:auctionId/bids/proxy
+ * @param auctionId - The ID of the auction.
+ * @returns Promise resolving to the user's maximum bid, or null if none is set.
+ */
+const getMyProxyBid = async (auctionId: string): Promise<IProxyBidApiResponse> => {
+    if (!auctionId) throw new Error("Auction ID is required to fetch a maximum bid");
+    try {
+        const response = await apiClient.get<IProxyBidApiResponse>(`/auctions/${auctionId}/bids/proxy`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error fetching maximum bid for auction ${auctionId}:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Cancels the logged-in user's maximum (proxy) bid on an auction. Requires authentication.
+ * Bids already placed on the user's behalf are kept.
+ * Uses DELETE /api/auctions/:auctionId/bids/proxy
+ * @param auctionId - The ID of the auction.
+ * @returns Promise resolving to the API response (proxyBid is null).
+ */
+const cancelProxyBid = async (auctionId: string): Promise<IProxyBidApiResponse> => {
+    if (!auctionId) throw new Error("Auction ID is required to cancel a maximum bid");
+    try {
+        const response = await apiClient.delete<IProxyBidApiResponse>(`/auctions/${auctionId}/bids/proxy`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error cancelling maximum bid for auction ${auctionId}:`, error);
+        throw error;
+    }
+};
+
 
 // Export all functions as a single service object
+/**
+ * Asks for one of the logged-in user's bids to be retracted. An admin has to
+ * approve it before the bid is taken back. Requires authentication.
+ * Uses POST /api/auctions/:auctionId/bids/:bidId/retract
+ * @param auctionId - The ID of the auction the bid was placed on.
+ * @param bidId - The ID of the bid to retract.
+ * @param reason - Why the bid should be retracted.
+ * @returns Promise resolving to the API response with the pending request.
+ */
+const requestRetraction = async (auctionId: string, bidId: string, reason: string): Promise<IBidRetractionApiResponse> => {
+    if (!auctionId || !bidId) throw new Error("Auction ID and Bid ID are required to retract a bid");
+    try {
+        const response = await apiClient.post<IBidRetractionApiResponse>(`/auctions/${auctionId}/bids/${bidId}/retract`, { reason });
+        return response.data;
+    } catch (error) {
+        console.error(`Error requesting retraction of bid ${bidId}:`, error);
+        throw error;
+    }
+};
+
 export const bidService = {
     placeBid,
     getBidsForAuction,
     getMyBids,
+    getMyProxyBid,
+    cancelProxyBid,
+    requestRetraction,
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+// src/services/notificationService.ts
+import apiClient from './apiClient';
+import {
+    IEmailPreferences,
+    IEmailPreferencesApiResponse,
+    IListNotificationParams,
+    IMarkAllNotificationsReadApiResponse,
+    IMarkNotificationReadApiResponse,
+    INotificationListApiResponse,
+} from '../types/notification';
+
+const BASE_PATH = '/notifications';
+
+/**
+ * Fetches the logged-in user's notifications, newest first, with the unread count.
+ * Uses GET /api/notifications
+ * @param params - Optional filters: unread only, page and limit.
+ * @returns Promise resolving to the notifications and the unread count.
+ */
+const getNotifications = async (params?: IListNotificationParams): Promise<INotificationListApiResponse> => {
+    try {
+        const response = await apiClient.get<INotificationListApiResponse>(BASE_PATH, { params });
+        return response.data;
+    } catch (error) {
+        console.error("Error fetching notifications:", error);
+        throw error;
+    }
+};
+
+/**
+ * Marks one of the logged-in user's notifications as read.
+ * Uses PATCH /api/notifications/:notificationId/read
+ * @param notificationId - The ID of the notification.
+ * @returns Promise resolving to the updated notification and the new unread count.
+ */
+const markAsRead = async (notificationId: string): Promise<IMarkNotificationReadApiResponse> => {
+    if (!notificationId) throw new Error("Notification ID is required");
+    try {
+        const response = await apiClient.patch<IMarkNotificationReadApiResponse>(`${BASE_PATH}/${notificationId}/read`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error marking notification ${notificationId} as read:`, error);
+        throw error;
+    }
+};
+
+/**
+ * Marks all of the logged-in user's notifications as read.
+ * Uses PATCH /api/notifications/read-all
+ * @returns Promise resolving to how many were updated.
+ */
+const markAllAsRead = async (): Promise<IMarkAllNotificationsReadApiResponse> => {
+    try {
+        const response = await apiClient.patch<IMarkAllNotificationsReadApiResponse>(`${BASE_PATH}/read-all`);
+        return response.data;
+    } catch (error) {
+        console.error("Error marking all notifications as read:", error);
+        throw error;
+    }
+};
+
+/**
+ * Fetches which notification emails the logged-in user gets.
+ * Uses GET /api/users/me/email-preferences
+ * @returns Promise resolving to the email preferences.
+ */
+const getEmailPreferences = async (): Promise<IEmailPreferencesApiResponse> => {
+    try {
+        const response = await apiClient.get<IEmailPreferencesApiResponse>('/users/me/email-preferences');
+        return response.data;
+    } catch (error) {
+        console.error("Error fetching email preferences:", error);
+        throw error;
+    }
+};
+
+/**
+ * Turns notification emails on or off for the logged-in user.
+ * Uses PATCH /api/users/me/email-preferences
+ * @param preferences - The preferences to change; others are left as they are.
+ * @returns Promise resolving to the updated email preferences.
+ */
+const updateEmailPreferences = async (preferences: Partial<IEmailPreferences>): Promise<IEmailPreferencesApiResponse> => {
+    try {
+        const response = await apiClient.patch<IEmailPreferencesApiResponse>('/users/me/email-preferences', preferences);
+        return response.data;
+    } catch (error) {
+        console.error("Error updating email preferences:", error);
+        throw error;
+    }
+};
+
+export const notificationService = {
+    getNotifications,
+    markAsRead,
+    markAllAsRead,
+    getEmailPreferences,
+    updateEmailPreferences,
+};
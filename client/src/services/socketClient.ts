@@ -0,0 +1,83 @@
+// src/services/socketClient.ts
+import { io, Socket } from 'socket.io-client';
+
+// Socket.IO is served from the same origin as the REST API, without the /api prefix
+const SOCKET_URL = 'http://localhost:5001';
+
+// Single shared connection for the whole app, opened lazily on first use
+let socket: Socket | null = null;
+
+// Number of active subscribers per auction room, so that one component
+// unmounting doesn't pull the room out from under another one.
+const roomRefCounts = new Map<string, number>();
+
+// Token of the signed-in user, sent so the server adds this connection to
+// the user's own room for personal events
+let userToken: string | null = null;
+
+const getSocket = (): Socket => {
+  if (!socket) {
+    socket = io(SOCKET_URL, { transports: ['websocket'] });
+
+    // Rooms are per-connection on the server, so re-join them after a reconnect
+    socket.on('connect', () => {
+      roomRefCounts.forEach((_, auctionId) => {
+        socket?.emit('join_auction', auctionId);
+      });
+      if (userToken) socket?.emit('authenticate', userToken);
+    });
+  }
+  return socket;
+};
+
+/**
+ * Subscribes to real-time events for a single auction.
+ * @param auctionId - The ID of the auction room to join.
+ */
+const joinAuctionRoom = (auctionId: string) => {
+  const count = roomRefCounts.get(auctionId) ?? 0;
+  roomRefCounts.set(auctionId, count + 1);
+  const s = getSocket();
+  if (count === 0 && s.connected) {
+    s.emit('join_auction', auctionId);
+  }
+};
+
+/**
+ * Releases a subscription to an auction room. The room is only left once
+ * the last subscriber has released it.
+ * @param auctionId - The ID of the auction room to leave.
+ */
+const leaveAuctionRoom = (auctionId: string) => {
+  const count = roomRefCounts.get(auctionId) ?? 0;
+  if (count <= 1) {
+    roomRefCounts.delete(auctionId);
+    socket?.emit('leave_auction', auctionId);
+  } else {
+    roomRefCounts.set(auctionId, count - 1);
+  }
+};
+
+/**
+ * Identifies the signed-in user to the server, or signs the connection out
+ * when given null, so that personal events reach the right user.
+ * @param token - The user's auth token, or null once signed out.
+ */
+const setUserToken = (token: string | null) => {
+  if (token === userToken) return;
+  userToken = token;
+  const s = getSocket();
+  if (!s.connected) return; // Sent on connect instead
+  if (token) {
+    s.emit('authenticate', token);
+  } else {
+    s.emit('sign_out');
+  }
+};
+
+export const socketClient = {
+  getSocket,
+  joinAuctionRoom,
+  leaveAuctionRoom,
+  setUserToken,
+};
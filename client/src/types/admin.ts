@@ -0,0 +1,108 @@
+// src/types/admin.ts
+import { StaffRole } from './permission';
+
+// A row of the admin users table, with the user's activity totals
+export interface IAdminUser {
+    id: string;
+    name: string;
+    email: string;
+    avatar: string | null;
+    status: 'active' | 'banned'; // 'banned' only while the ban is in force
+    registeredDate: string;
+    lastLogin: string | null; // null if they never logged in
+    totalBids: number; // Standing (non-retracted) bids placed
+    totalAuctions: number; // Auctions created, drafts aside
+    isAdmin: boolean;
+    roles: StaffRole[];
+    isEmailVerified: boolean;
+    banReason: string | null; // Of the current or most recent ban
+    bannedAt: string | null;
+    banExpiresAt: string | null; // null for a ban until lifted
+}
+
+export type AdminUserSortField =
+    | 'name'
+    | 'email'
+    | 'registeredDate'
+    | 'lastLogin'
+    | 'totalBids'
+    | 'totalAuctions';
+
+// Query parameters for GET /admin/users
+export interface IListAdminUsersParams {
+    search?: string; // Name or email
+    status?: 'all' | 'active' | 'banned';
+    sortBy?: AdminUserSortField;
+    sortOrder?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+}
+
+export interface IAdminPagination {
+    total: number;
+    totalPages: number;
+    currentPage: number;
+    limit: number;
+}
+
+// Structure returned by GET /admin/users
+export interface IAdminUserListApiResponse {
+    success: boolean;
+    count: number;
+    pagination: IAdminPagination;
+    users: IAdminUser[];
+}
+
+// Body of POST /admin/users/:userId/ban
+export interface IBanUserPayload {
+    reason: string;
+    expiresAt?: string | null; // ISO date; omit for a ban until lifted
+}
+
+// Structure returned by the ban, unban, admin access and role endpoints
+export interface IAdminUserActionApiResponse {
+    success: boolean;
+    message: string;
+    user: IAdminUser;
+    retracted?: { auctions: number; bids: number }; // Ban only: the live bids taken back
+}
+
+export type AuditAction =
+    | 'user_banned'
+    | 'user_unbanned'
+    | 'admin_granted'
+    | 'admin_revoked'
+    | 'role_granted'
+    | 'role_revoked'
+    | 'auction_hidden'
+    | 'report_resolved'
+    | 'report_dismissed';
+
+// An entry of the admin audit log
+export interface IAuditLogEntry {
+    _id: string;
+    actor: { _id: string; name: string; email: string } | null;
+    action: AuditAction;
+    targetType: 'User' | 'Auction' | 'Report';
+    target: { _id: string; name?: string; email?: string; title?: string } | null;
+    reason: string | null;
+    details: Record<string, unknown> | null;
+    createdAt: string;
+}
+
+// Query parameters for GET /admin/audit-log
+export interface IListAuditLogParams {
+    action?: AuditAction;
+    target?: string; // A user or auction ID
+    actor?: string;
+    page?: number;
+    limit?: number;
+}
+
+// Structure returned by GET /admin/audit-log
+export interface IAuditLogApiResponse {
+    success: boolean;
+    count: number;
+    pagination: IAdminPagination;
+    entries: IAuditLogEntry[];
+}
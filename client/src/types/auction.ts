@@ -15,6 +15,60 @@ export interface IUserLite {
     type: string;
   }
   
+  // One row of a tiered increment table; upTo null means "and above"
+  export interface IIncrementTier {
+    upTo: number | null;
+    increment: number;
+  }
+
+  // Minimum bid increment rule
+  export interface IBidIncrement {
+    type: 'fixed' | 'percentage' | 'tiered';
+    value?: number; // Amount for 'fixed', percent of the current bid for 'percentage'
+    tiers?: IIncrementTier[]; // Used for 'tiered'
+  }
+
+  // Soft close (anti-sniping) setting; 0 for either value means off
+  export interface ISoftClose {
+    windowMinutes: number; // Bids within this many minutes of the end extend it
+    extensionMinutes: number; // New end time is this many minutes after the late bid
+  }
+
+  // 'english' takes ascending bids; 'dutch' sells to the first buyer to accept a falling price;
+  // 'sealed' takes one hidden bid per bidder, revealed when the auction closes
+  export type AuctionType = 'english' | 'dutch' | 'sealed';
+
+  // What the winner of a sealed-bid auction pays: their own bid, or the
+  // runner-up's bid (Vickrey)
+  export type SealedPricing = 'first-price' | 'second-price';
+
+  // Dutch price schedule: the price opens at startingBid and drops by `decrement`
+  // every `intervalMinutes` after startTime, never below `floorPrice`
+  export interface IDutchSchedule {
+    decrement: number;
+    intervalMinutes: number;
+    floorPrice: number;
+  }
+
+  // Units of a multi-unit lot held by one standing bid; the marginal bid may
+  // be filled in part
+  export interface IAllocation {
+    bid: string;
+    bidder: string;
+    amount: number; // Per-unit bid
+    quantity: number; // Units filled
+  }
+
+  // One winning bidder of a settled multi-unit lot
+  export interface IAuctionWinner {
+    bidder: string;
+    quantity: number; // Units won
+    price: number; // Per-unit clearing price
+  }
+
+  // Persisted lifecycle: draft -> scheduled -> live -> closed, or cancelled
+  export type AuctionStatus = 'draft' | 'scheduled' | 'live' | 'closed' | 'cancelled';
+
   // Main Auction interface matching the Mongoose model + virtuals
   export interface IAuction {
     _id: string;
@@ -22,23 +76,49 @@ export interface IUserLite {
     description: string;
     imageUrl?: string | null;
     images: string[];
-    startingBid: number;
-    currentBid: number;
+    auctionType: AuctionType;
+    startingBid: number; // Opening price for Dutch auctions
+    currentBid: number; // Stays at startingBid while sealed bids are hidden; the clearing price of a multi-unit lot
+    bidIncrement: IBidIncrement;
+    dutchSchedule: IDutchSchedule | null; // Only for Dutch auctions
+    sealedPricing: SealedPricing | null; // Only for sealed-bid auctions
+    quantity: number; // Identical units in the listing; above 1 for a multi-unit lot
+    allocations: IAllocation[]; // Current holders of a multi-unit lot's units, ranked
+    reservePrice?: number | null; // Only ever present for the auction's seller
+    buyNowPrice?: number | null; // Price that ends the auction immediately, if offered
     highestBidder?: IUserLite | null; // Populated
     bidCount: number;
     views: number;
+    watchCount: number; // Users with the auction on their watchlist
     likedBy: string[]; // Array of user IDs who liked
     seller: IUserLite; // Populated
     startTime: string; // Use string for ISO date format consistency
     endTime: string;   // Use string for ISO date format consistency
+    softClose: ISoftClose;
+    extensionCount: number; // Times a late bid has pushed endTime out
     documents: IAuctionDocument[];
     category?: string;
     location?: string;
+    // Final state, stamped by the server's settlement job once the auction ends
+    closedAt: string | null;
+    outcome: 'sold' | 'unsold' | 'reserve-not-met' | null;
+    winner: string | null; // User ID of the winning bidder when sold
+    winners: IAuctionWinner[]; // Every winner of a sold multi-unit lot
+    hammerPrice: number | null; // Winning price when sold
     createdAt: string;
     updatedAt: string;
     // Virtuals
     likes: number;     // Populated by virtual 'likes'
-    status: 'upcoming' | 'active' | 'ending-soon' | 'ended'; // Populated by virtual 'status'
+    minimumNextBid: number; // Populated by virtual 'minimumNextBid' (lowest acceptable next bid; the asking price for open Dutch auctions)
+    hasReserve: boolean; // Populated by virtual 'hasReserve'
+    reserveMet: boolean; // Populated by virtual 'reserveMet' (always true without a reserve once bid on)
+    buyNowAvailable: boolean; // Populated by virtual 'buyNowAvailable' (off once bidding nears the price)
+    status: AuctionStatus; // Persisted; moved along by the server's lifecycle job
+    isEndingSoon: boolean; // Populated by virtual 'isEndingSoon' (live, under an hour left)
+    bidsSealed: boolean; // Populated by virtual 'bidsSealed' (sealed-bid auction not yet closed)
+    isMultiUnit: boolean; // Populated by virtual 'isMultiUnit' (quantity above 1)
+    unitsAvailable: number; // Populated by virtual 'unitsAvailable' (units no bid holds yet)
+    isWatched?: boolean; // On the logged-in user's watchlist; from the detail and watchlist endpoints
   }
   
   // Interface for the data needed to create an auction
@@ -53,6 +133,14 @@ export interface IUserLite {
     category?: string;
     location?: string;
     documents?: IAuctionDocument[];
+    auctionType?: AuctionType; // Defaults to 'english' on the backend
+    dutchSchedule?: IDutchSchedule | null; // Required for Dutch auctions
+    sealedPricing?: SealedPricing | null; // Required for sealed-bid auctions
+    quantity?: number; // Defaults to 1 on the backend; English auctions only above that
+    bidIncrement?: IBidIncrement; // Defaults to a fixed step of 1 on the backend
+    softClose?: ISoftClose; // Defaults to off on the backend
+    reservePrice?: number | null; // Hidden minimum sale price; null for no reserve
+    buyNowPrice?: number | null; // Optional Buy It Now price; null for none
   }
   
   // Interface for the data allowed when updating an auction
@@ -72,7 +160,7 @@ export interface IUserLite {
     sellerId?: string;
     minPrice?: number;
     maxPrice?: number;
-    status?: 'upcoming' | 'active' | 'ending-soon' | 'ended';
+    status?: AuctionStatus | 'ending-soon'; // 'ending-soon' lists live auctions with under an hour left
     search?: string;
   }
   
@@ -96,4 +184,11 @@ export interface IUserLite {
   export interface IApiListResponse<T> extends IApiResponse<T[]> {
     count: number;
     pagination: IPagination;
-  }
\ No newline at end of file
+  }
+  // Structure returned by POST/DELETE /auctions/:id/watch
+  export interface IWatchApiResponse {
+    success: boolean;
+    message?: string;
+    isWatched: boolean;
+    watchCount: number;
+  }
@@ -1,5 +1,5 @@
 // src/types/bid.ts (or wherever you keep your types)
-import { IAuction, IAuctionBasic } from './auction'; // Assuming basic auction type exists
+import { IAllocation, IAuction, IAuctionBasic, IAuctionWinner } from './auction'; // Assuming basic auction type exists
 import { IUser, IUserBasic } from './user'; // Assuming basic user type exists
 
 // Represents the basic structure of a User when populated in a Bid
@@ -16,10 +16,18 @@ export interface IAuctionBasic {
     _id: string;
     title: string;
     imageUrl?: string | null;
+    auctionType?: IAuction['auctionType'];
+    quantity?: number; // Units in the lot
     endTime: string | Date;
     currentBid: number;
-    status?: string; // From virtual
+    status?: IAuction['status'];
     highestBidder?: string | null;
+    reserveMet?: boolean; // From virtual; false when it ended below the reserve
+    // Final state, set once the auction has been settled
+    closedAt?: string | null;
+    outcome?: IAuction['outcome'];
+    winner?: string | null;
+    hammerPrice?: number | null;
 }
 
 
@@ -28,30 +36,211 @@ export interface IBid {
   _id: string;
   auction: string | IAuctionBasic; // Can be string ID or populated object
   bidder: string | IUserBasic;   // Can be string ID or populated object
-  amount: number;
+  amount: number; // Per unit on a multi-unit lot
+  quantity?: number; // Units wanted; above 1 only on multi-unit lots
+  filledQuantity?: number; // Multi-unit lots: units this bid holds (or won), from getMyBids and placeBid
+  sequence?: number; // Arrival order within the auction (1, 2, 3, ...); missing on older bids
   createdAt: string | Date; // Typically string (ISO 8601) from JSON
   updatedAt: string | Date;
   isHighestBidder?: boolean; // Optional: Added by getMyBids logic
+  isAutoBid?: boolean; // Placed by the server on behalf of a maximum (proxy) bid
+  isBuyNow?: boolean; // The final bid recorded when the item was bought outright
+  isAcceptance?: boolean; // The acceptance that won a Dutch auction
+  isRetracted?: boolean; // Taken back with an admin's approval; kept in the history
+  retractedAt?: string | Date | null;
 }
 
-// Payload for placing a new bid (only amount needed in body for recommended route)
+// A bid on a sealed-bid auction that has not closed yet: only that a bid was
+// made, and when, is public
+export interface ISealedBid {
+  _id: string;
+  sequence?: number;
+  createdAt: string | Date;
+  isSealed: true;
+  isRetracted?: boolean;
+}
+
+// Payload for placing a new bid. Send amount, maxAmount, or both:
+// maxAmount alone bids the minimum needed and keeps bidding up to the ceiling.
 export interface IBidCreatePayload {
-  amount: number;
+  amount?: number;
+  maxAmount?: number;
+  quantity?: number; // Multi-unit lots only, with amount per unit
+}
+
+// The logged-in user's private maximum (proxy) bid on an auction
+export interface IProxyBid {
+  maxAmount: number;
+  isActive: boolean;
+  updatedAt?: string | Date;
+}
+
+// Structure returned by GET/DELETE /auctions/:auctionId/bids/proxy
+export interface IProxyBidApiResponse {
+  success: boolean;
+  message?: string;
+  proxyBid: IProxyBid | null;
 }
 
 // Specific structure returned by the placeBid endpoint
 export interface IPlaceBidApiResponse {
     success: boolean;
     message?: string;
-    bid: IBid;
+    bid: IBid | null; // null when only the maximum bid was changed
+    autoBids: IBid[]; // Bids placed automatically by competing maximum bids
+    isHighestBidder: boolean; // Whether the caller still leads after automatic bids
+    proxyBid: IProxyBid | null;
     auction: { // Partial auction update
         _id: string;
         currentBid: number;
         highestBidder: string | null;
         bidCount: number;
+        minimumNextBid: number;
+        reserveMet: boolean;
+        buyNowAvailable: boolean; // Withdrawn once bidding passes the cutoff
+        endTime: string; // Pushed out when the bid landed in the soft-close window
+        status: IAuction['status'];
+        extensionCount: number;
+        unitsAvailable?: number; // Multi-unit lots only
+        allocations?: IAllocation[]; // Multi-unit lots only
     };
 }
 
+// Error body returned by the placeBid endpoint on a rejected bid
+export interface IPlaceBidErrorResponse {
+    success: false;
+    message: string;
+    currentBid?: number; // Present when the bid was below the minimum next bid
+    startingBid?: number; // Present when the first bid was below the starting bid
+    minimumNextBid?: number; // Lowest amount the server would have accepted
+    auction?: IPlaceBidApiResponse['auction'] | null; // Fresh state on a 409, when other bids kept landing first
+}
+
+// Structure returned by GET /auctions/:auctionId/bids and GET /bids/me
+export interface IBidListApiResponse {
+    success: boolean;
+    count: number;
+    bids: IBid[];
+}
+
+// Structure returned by GET /auctions/:auctionId/bids; `sealed` is set while
+// the auction's bids are still hidden
+export interface IAuctionBidListApiResponse {
+    success: boolean;
+    count: number;
+    sealed?: boolean;
+    bids: (IBid | ISealedBid)[];
+}
+
+// Payload of the 'new_bid' Socket.IO event broadcast to an auction's room
+export interface INewBidEvent {
+    auctionId: string;
+    currentBid: number;
+    highestBidder: IUserBasic;
+    bidCount: number;
+    minimumNextBid: number;
+    reserveMet: boolean;
+    buyNowAvailable: boolean;
+    unitsAvailable?: number; // Multi-unit lots only
+    allocations?: IAllocation[]; // Multi-unit lots only
+    bid: IBid;
+}
+
+// Payload of the 'sealed_bid' Socket.IO event broadcast when a hidden bid is
+// placed on a sealed-bid auction
+export interface ISealedBidEvent {
+    auctionId: string;
+    bidCount: number;
+    bid: ISealedBid;
+}
+
+// Payload of the 'bid_retracted' Socket.IO event, sent when an admin approves
+// a retraction and the auction's bidding state has been recalculated
+export interface IBidRetractedEvent {
+    auctionId: string;
+    bidId: string;
+    currentBid: number;
+    highestBidder: IUserBasic | null;
+    bidCount: number;
+    minimumNextBid: number;
+    reserveMet?: boolean;
+    buyNowAvailable: boolean;
+    unitsAvailable?: number; // Multi-unit lots only
+    allocations?: IAllocation[]; // Multi-unit lots only
+}
+
+// A bidder's request to take back a bid, reviewed by an admin
+export interface IBidRetraction {
+    _id: string;
+    auction: string;
+    bid: string;
+    bidder: string;
+    amount: number;
+    reason: string;
+    status: 'pending' | 'approved' | 'rejected';
+    reviewedBy: string | null;
+    reviewedAt: string | null;
+    reviewNote: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Structure returned by POST /auctions/:auctionId/bids/:bidId/retract
+export interface IBidRetractionApiResponse {
+    success: boolean;
+    message?: string;
+    retraction: IBidRetraction;
+}
+
+// Payload of the 'auction_extended' Socket.IO event, sent when a late bid
+// triggers the soft close
+export interface IAuctionExtendedEvent {
+    auctionId: string;
+    endTime: string;
+    status: IAuction['status'];
+    extensionCount: number;
+}
+
+// Payload of the 'auction_ended' Socket.IO event, sent when an auction is
+// closed early (bought with Buy It Now, or cancelled)
+export interface IAuctionEndedEvent {
+    auctionId: string;
+    endTime: string;
+    status: IAuction['status'];
+    isBuyNow: boolean;
+}
+
+// Payload of the 'auction_closed' Socket.IO event, sent when the lifecycle
+// job stamps the final state on an ended auction
+export interface IAuctionClosedEvent {
+    auctionId: string;
+    status: 'closed';
+    closedAt: string;
+    outcome: NonNullable<IAuction['outcome']>;
+    winner: string | null;
+    winners?: IAuctionWinner[]; // Multi-unit lots only
+    hammerPrice: number | null;
+    currentBid?: number; // Revealed top bid when a sealed-bid auction closes
+}
+
+// Payload of the 'auction_started' Socket.IO event, sent when the lifecycle
+// job opens a scheduled auction for bidding
+export interface IAuctionStartedEvent {
+    auctionId: string;
+    status: 'live';
+}
+
+// Structure returned by POST /auctions/:id/buy-now
+export interface IBuyNowApiResponse {
+    success: boolean;
+    message?: string;
+    bid: IBid;
+    data: IAuction; // The closed auction
+}
+
+// Structure returned by POST /auctions/:id/accept (same shape as buy-now)
+export type IAcceptDutchApiResponse = IBuyNowApiResponse;
+
 // Assuming your backend uses these generic wrappers
 // Re-declare or import if defined elsewhere
 export interface IApiResponse<T> {
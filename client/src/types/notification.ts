@@ -0,0 +1,76 @@
+// src/types/notification.ts
+
+export type NotificationType =
+    | 'outbid'
+    | 'auction_won'
+    | 'auction_sold'
+    | 'watched_auction_started'
+    | 'watched_auction_new_bid'
+    | 'watched_auction_ending'
+    | 'report_resolved';
+
+// An in-app notification, as stored by the server and pushed live through
+// the 'notification' Socket.IO event
+export interface INotification {
+    _id: string;
+    user: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    auction: string | null; // The auction it is about, if any
+    link: string | null; // Client path to open, e.g. /auction/:id
+    readAt: string | null; // null while unread
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Query parameters for GET /notifications
+export interface IListNotificationParams {
+    unread?: boolean; // Only unread notifications
+    page?: number;
+    limit?: number;
+}
+
+// Structure returned by GET /notifications
+export interface INotificationListApiResponse {
+    success: boolean;
+    count: number;
+    unreadCount: number;
+    pagination: {
+        total: number;
+        totalPages: number;
+        currentPage: number;
+        limit: number;
+    };
+    notifications: INotification[];
+}
+
+// Structure returned by PATCH /notifications/:id/read
+export interface IMarkNotificationReadApiResponse {
+    success: boolean;
+    notification: INotification;
+    unreadCount: number;
+}
+
+// Structure returned by PATCH /notifications/read-all
+export interface IMarkAllNotificationsReadApiResponse {
+    success: boolean;
+    message?: string;
+    updatedCount: number;
+    unreadCount: number;
+}
+
+// Which notification emails a user gets. Account emails (welcome, password
+// reset) can't be turned off.
+export interface IEmailPreferences {
+    outbid: boolean;
+    auctionWon: boolean;
+    auctionSold: boolean;
+    endingSoon: boolean; // Watched auctions about to end
+}
+
+// Response of GET and PATCH /users/me/email-preferences
+export interface IEmailPreferencesApiResponse {
+    success: boolean;
+    emailPreferences: IEmailPreferences;
+}
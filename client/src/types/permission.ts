@@ -0,0 +1,19 @@
+// src/types/permission.ts
+
+// Staff roles; see server/config/permissions.js for what each one grants
+export type StaffRole = 'moderator' | 'support' | 'finance';
+
+// Permissions checked by the server's authorize() middleware. Admins have
+// all of them; other staff get their roles' permissions.
+export type Permission =
+    | 'admin:access'
+    | 'auctions:manage'
+    | 'auctions:suspend'
+    | 'bids:manage'
+    | 'reports:manage'
+    | 'users:view'
+    | 'users:ban'
+    | 'users:manage_roles'
+    | 'analytics:view'
+    | 'payouts:manage'
+    | 'audit:view';
@@ -0,0 +1,84 @@
+// src/types/report.ts
+import { IAdminPagination } from './admin';
+
+// Reason ids offered in ReportAuctionModal
+export type ReportReason =
+    | 'counterfeit'
+    | 'inappropriate'
+    | 'prohibited'
+    | 'misrepresented'
+    | 'scam'
+    | 'other';
+
+export type ReportStatus = 'pending' | 'resolved' | 'dismissed';
+
+// A user's report of an auction, as returned to moderators
+export interface IReport {
+    _id: string;
+    auction: {
+        _id: string;
+        title: string;
+        status: string;
+        currentBid: number;
+        bidCount: number;
+        endTime: string;
+        hiddenAt: string | null; // Set once a moderator took it down
+        seller: { _id: string; name: string; email: string; isBanned: boolean; banExpiresAt: string | null } | null;
+    } | null; // null if the auction was deleted
+    reporter: { _id: string; name: string; email: string } | null;
+    reasons: ReportReason[];
+    details: string;
+    status: ReportStatus;
+    reviewedBy: { _id: string; name: string } | null;
+    reviewedAt: string | null;
+    reviewNote: string | null;
+    auctionHidden: boolean; // What resolving the report did
+    sellerBanned: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Body of POST /auctions/:id/reports
+export interface IReportCreatePayload {
+    reasons: ReportReason[];
+    details?: string;
+}
+
+// Structure returned by POST /auctions/:id/reports
+export interface IReportCreateApiResponse {
+    success: boolean;
+    message: string;
+}
+
+// Query parameters for GET /admin/reports
+export interface IListReportsParams {
+    status?: ReportStatus | 'all';
+    reason?: ReportReason;
+    search?: string; // Auction title or reporter name
+    page?: number;
+    limit?: number;
+}
+
+// Structure returned by GET /admin/reports
+export interface IReportListApiResponse {
+    success: boolean;
+    count: number;
+    pagination: IAdminPagination;
+    reports: IReport[];
+}
+
+// Body of POST /admin/reports/:reportId/resolve
+export interface IResolveReportPayload {
+    note?: string;
+    hideAuction?: boolean; // Needs the auctions:suspend permission
+    banSeller?: boolean; // Needs the users:ban permission
+    banReason?: string;
+    banExpiresAt?: string | null;
+}
+
+// Structure returned by the resolve and dismiss endpoints
+export interface IReportActionApiResponse {
+    success: boolean;
+    message: string;
+    report: IReport;
+}
@@ -1,5 +1,60 @@
 // utils/dateUtils.ts (Example - create this file or add inside component)
 import { formatDistanceToNowStrict, format, isPast } from 'date-fns'; // Using date-fns for robust calculations
+import { IAuction } from '@/types/auction';
+
+// How an auction should be presented right now, from its lifecycle status and the clock
+export type AuctionDisplayStatus = 'draft' | 'upcoming' | 'active' | 'ending-soon' | 'ended' | 'cancelled';
+
+const ENDING_SOON_MS = 60 * 60 * 1000; // Matches the server's "ending soon" window
+
+// Mirrors the server's Auction.getDutchPriceAt(): one decrement per full
+// interval since startTime, never below the floor. The server's clock decides
+// the price actually charged.
+export const getDutchPrice = (
+    auction: Pick<IAuction, 'startingBid' | 'startTime' | 'dutchSchedule'>,
+    now: Date = new Date()
+): number => {
+    const { decrement = 0, intervalMinutes = 0, floorPrice = 0 } = auction.dutchSchedule ?? {};
+    const elapsed = now.getTime() - new Date(auction.startTime).getTime();
+    if (elapsed <= 0 || decrement <= 0 || intervalMinutes <= 0) return auction.startingBid;
+
+    const drops = Math.floor(elapsed / (intervalMinutes * 60 * 1000));
+    return Math.round(Math.max(floorPrice, auction.startingBid - drops * decrement) * 100) / 100;
+};
+
+// When a Dutch auction's price next drops, or null once it has reached the floor
+export const getNextDutchDropAt = (
+    auction: Pick<IAuction, 'startingBid' | 'startTime' | 'dutchSchedule'>,
+    now: Date = new Date()
+): Date | null => {
+    if (!auction.dutchSchedule || getDutchPrice(auction, now) <= auction.dutchSchedule.floorPrice) return null;
+    const intervalMs = auction.dutchSchedule.intervalMinutes * 60 * 1000;
+    const startMs = new Date(auction.startTime).getTime();
+    const elapsed = Math.max(0, now.getTime() - startMs);
+    return new Date(startMs + (Math.floor(elapsed / intervalMs) + 1) * intervalMs);
+};
+
+// The server's lifecycle job can lag behind start/end times by up to a minute,
+// so scheduled and live auctions are placed by the clock instead.
+export const getAuctionDisplayStatus = (
+    auction: Pick<IAuction, 'status' | 'startTime' | 'endTime'>,
+    now: Date = new Date()
+): AuctionDisplayStatus => {
+    switch (auction.status) {
+        case 'draft':
+            return 'draft';
+        case 'cancelled':
+            return 'cancelled';
+        case 'closed':
+            return 'ended';
+    }
+
+    const startDate = new Date(auction.startTime);
+    const endDate = new Date(auction.endTime);
+    if (now < startDate) return 'upcoming';
+    if (now >= endDate) return 'ended';
+    return endDate.getTime() - now.getTime() < ENDING_SOON_MS ? 'ending-soon' : 'active';
+};
 
 export const calculateTimeLeft = (endTime: string | Date | undefined): string => {
   if (!endTime) return "N/A";
@@ -31,23 +86,33 @@ export const formatEndedDate = (endTime: string | Date | undefined): string => {
 // NOTE: Assumes `bid.bidder` is populated with at least `_id` or is the string ID
 //       and `bid.auction` is populated with necessary fields.
 //       Also assumes `bid.isHighestBidder` is correctly set by the backend for active bids.
-export const getBidStatus = (bid: IBid, userId: string | null | undefined): 'winning' | 'outbid' | 'won' | 'lost' | 'ended' | 'unknown' => {
+export const getBidStatus = (bid: IBid, userId: string | null | undefined): 'winning' | 'outbid' | 'sealed' | 'won' | 'lost' | 'ended' | 'unknown' => {
     if (!bid || !bid.auction || typeof bid.auction === 'string' || !userId) {
         return 'unknown'; // Need auction details and user ID
     }
 
-    const auctionStatus = bid.auction.status; // From virtual field
+    const auctionStatus = bid.auction.status; // Persisted lifecycle status
     const highestBidderId = bid.auction.highestBidder;
     const bidderId = typeof bid.bidder === 'string' ? bid.bidder : bid.bidder?._id;
+    // Multi-unit lots have several winners: a bid wins if it holds any units
+    const isLot = (bid.auction.quantity ?? 1) > 1;
+    const holdsUnits = (bid.filledQuantity ?? 0) > 0;
 
-
-    if (auctionStatus === 'ended') {
-        if (highestBidderId === bidderId) {
+    if (bid.auction.outcome) {
+        // Settled: rely on the stored winner rather than the bidding state
+        if (isLot) return bid.auction.outcome === 'sold' && holdsUnits ? 'won' : 'lost';
+        return bid.auction.winner === bidderId ? 'won' : 'lost';
+    } else if (auctionStatus === 'closed' || isPast(new Date(bid.auction.endTime))) {
+        // Not settled yet. Ending below the reserve means nobody won
+        if ((isLot ? holdsUnits : highestBidderId === bidderId) && bid.auction.reserveMet !== false) {
             return 'won';
         } else {
             return 'lost';
         }
-    } else if (auctionStatus === 'active' || auctionStatus === 'ending-soon') {
+    } else if (auctionStatus === 'live' && bid.auction.auctionType === 'sealed') {
+        // Nobody knows who leads a sealed-bid auction until it closes
+        return 'sealed';
+    } else if (auctionStatus === 'live') {
         // Rely on isHighestBidder calculated in getMyBids controller for efficiency
          if (bid.isHighestBidder === true) {
             return 'winning';
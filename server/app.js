@@ -1,20 +1,32 @@
 require("dotenv").config();
 const express = require("express");
+const http = require("http");
 const app = express();
+const server = http.createServer(app); // Shared by Express and Socket.IO
 
 // --- Configurations ---
 const connectDB = require("./config/db");
+const { initSocket } = require("./config/socket");
+const { startAuctionLifecycleJob } = require("./jobs/auctionLifecycleJob");
 const cors = require("cors");
 const PORT = 5001;
 connectDB(); // Connect to MongoDB
+const io = initSocket(server); // Attach Socket.IO to the HTTP server
 app.use(express.json()); // Parse JSON bodies
 app.use(cors()); // Enable CORS for all routes
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
+app.use((req, res, next) => {
+  req.io = io; // Expose Socket.IO to controllers for real-time events
+  next();
+});
 
 // --- Routes ---
 const auctionRoutes = require("./routes/auctionRoutes");
 const authRoutes = require("./routes/authRoutes");
-const bidRoutes = require("./routes/bidRoutes"); // Assuming you have this route
+const bidRoutes = require("./routes/bidRoutes");
+const adminRoutes = require("./routes/adminRoutes");
+const userRoutes = require("./routes/userRoutes");
+const notificationRoutes = require("./routes/notificationRoutes");
 
 // --- Test Route ---
 app.get("/", (req, res) => {
@@ -26,9 +38,14 @@ app.get("/", (req, res) => {
 // --- API Routes ---
 app.use("/api/auth/", authRoutes);
 app.use("/api/auctions/", auctionRoutes);
+app.use("/api/auctions/:auctionId/bids", bidRoutes);
 app.use("/api/bids/", bidRoutes);
+app.use("/api/admin/", adminRoutes);
+app.use("/api/users/", userRoutes);
+app.use("/api/notifications/", notificationRoutes);
 
 // --- Start Server ---
-app.listen(PORT, () => {
+server.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
+  startAuctionLifecycleJob(); // Start and close auctions as their times pass
 });
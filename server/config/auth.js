@@ -0,0 +1,29 @@
+// src/config/auth.js
+const crypto = require("crypto");
+const dotenv = require("dotenv");
+const path = require("path");
+
+dotenv.config({ path: path.resolve(__dirname, "../.env") }); // Load .env from src directory
+
+/**
+ * Key used to sign access tokens. Required in production; elsewhere a
+ * random key is generated per process, which signs everyone out on restart.
+ */
+const resolveJwtSecret = () => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production.");
+  }
+  console.warn(
+    "JWT_SECRET is not set; using a random key. Sessions won't survive a restart."
+  );
+  return crypto.randomBytes(32).toString("hex");
+};
+
+module.exports = {
+  jwtSecret: resolveJwtSecret(),
+  // Lifetime of an access token, in jsonwebtoken's format (e.g. "15m")
+  accessTokenTtl: process.env.JWT_ACCESS_TTL || "15m",
+  // How long a session lasts without being refreshed
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+};
@@ -3,6 +3,7 @@
 const mongoose = require("mongoose");
 const dotenv = require("dotenv");
 const path = require("path");
+const markExistingEmailsVerified = require("../migrations/markExistingEmailsVerified");
 
 dotenv.config({ path: path.resolve(__dirname, "../.env") }); // Load .env from src directory
 
@@ -11,6 +12,11 @@ const connectDB = async () => {
     const conn = await mongoose.connect(process.env.MONGO_URI, {});
 
     console.log(`MongoDB Connected!`);
+
+    const grandfathered = await markExistingEmailsVerified();
+    if (grandfathered > 0) {
+      console.log(`Marked ${grandfathered} existing accounts as email-verified.`);
+    }
   } catch (error) {
     console.error(`Error: ${error.message}`);
     process.exit(1); // Exit with failure
@@ -0,0 +1,66 @@
+// src/config/permissions.js
+
+/**
+ * What each staff role may do. `User.isAdmin` grants every permission;
+ * other staff get the union of their roles' permissions (see hasPermission).
+ * Routes check them with the `authorize(permission)` middleware.
+ */
+const PERMISSIONS = [
+  "admin:access", // Open the admin panel
+  "auctions:manage", // Edit or delete any auction, past the seller's limits
+  "auctions:suspend", // Cancel any auction
+  "bids:manage", // Decide bid retraction requests
+  "reports:manage", // Handle reported auctions
+  "users:view", // Look up users
+  "users:ban", // Ban and unban users
+  "users:manage_roles", // Grant and revoke admin and staff roles
+  "analytics:view", // Marketplace analytics
+  "payouts:manage", // Seller payouts
+  "audit:view", // The admin audit log
+];
+
+const ROLE_PERMISSIONS = {
+  moderator: [
+    "admin:access",
+    "auctions:suspend",
+    "bids:manage",
+    "reports:manage",
+    "users:view",
+  ],
+  support: ["admin:access", "users:view"],
+  finance: ["admin:access", "analytics:view", "payouts:manage"],
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+/**
+ * Every permission a user has.
+ * @param {User|object} user - Needs isAdmin and roles.
+ * @returns {string[]}
+ */
+const getPermissions = (user) => {
+  if (!user) return [];
+  if (user.isAdmin) return [...PERMISSIONS];
+  const granted = new Set();
+  (user.roles || []).forEach((role) =>
+    (ROLE_PERMISSIONS[role] || []).forEach((permission) => granted.add(permission))
+  );
+  return PERMISSIONS.filter((permission) => granted.has(permission));
+};
+
+/**
+ * Whether a user has a permission.
+ * @param {User|object} user - Needs isAdmin and roles.
+ * @param {string} permission - One of PERMISSIONS.
+ * @returns {boolean}
+ */
+const hasPermission = (user, permission) =>
+  getPermissions(user).includes(permission);
+
+module.exports = {
+  PERMISSIONS,
+  ROLES,
+  ROLE_PERMISSIONS,
+  getPermissions,
+  hasPermission,
+};
@@ -0,0 +1,108 @@
+// src/config/socket.js
+
+const { Server } = require("socket.io");
+const mongoose = require("mongoose");
+const { verifyToken } = require("../utils/jwtUtils");
+const User = require("../models/User");
+const { isSessionActive } = require("../utils/sessionUtils");
+
+let io = null;
+
+/**
+ * Name of the room holding every connection of a signed-in user, for events
+ * meant for that user only.
+ * @param {ObjectId|string} userId
+ * @returns {string}
+ */
+const getUserRoom = (userId) => `user:${userId}`;
+
+/**
+ * Attaches a Socket.IO server to the given HTTP server.
+ * Clients join one room per auction (room name = auction ID) to receive
+ * live bid updates for that auction only. Signed-in clients also send their
+ * token to join their own user room (see getUserRoom).
+ * @param {http.Server} httpServer - The HTTP server Express is mounted on.
+ * @returns {Server} The Socket.IO server instance.
+ */
+const initSocket = (httpServer) => {
+  io = new Server(httpServer, {
+    cors: { origin: "*" },
+  });
+
+  io.on("connection", (socket) => {
+    // --- Identify the signed-in user, joining their user room ---
+    socket.on("authenticate", async (token) => {
+      const decoded = typeof token === "string" ? verifyToken(token) : null;
+      if (!decoded?.userId) return;
+      try {
+        // Tokens of ended sessions, or from before a password reset, no longer sign in
+        const [user, sessionActive] = await Promise.all([
+          User.findById(decoded.userId).select("passwordChangedAt"),
+          isSessionActive(decoded.sessionId),
+        ]);
+        if (!user || !sessionActive || user.changedPasswordAfter(decoded.iat)) return;
+      } catch (error) {
+        console.error("Socket authentication failed:", error);
+        return;
+      }
+      if (socket.data.userId) socket.leave(getUserRoom(socket.data.userId));
+      socket.data.userId = decoded.userId;
+      socket.join(getUserRoom(decoded.userId));
+    });
+
+    // --- Leave the user room on sign out ---
+    socket.on("sign_out", () => {
+      if (!socket.data.userId) return;
+      socket.leave(getUserRoom(socket.data.userId));
+      socket.data.userId = null;
+    });
+
+    // --- Join the room for a specific auction ---
+    socket.on("join_auction", (auctionId) => {
+      if (!mongoose.Types.ObjectId.isValid(auctionId)) return;
+      socket.join(auctionId.toString());
+    });
+
+    // --- Leave the room for a specific auction ---
+    socket.on("leave_auction", (auctionId) => {
+      if (!mongoose.Types.ObjectId.isValid(auctionId)) return;
+      socket.leave(auctionId.toString());
+    });
+  });
+
+  console.log("Socket.IO initialized");
+  return io;
+};
+
+/**
+ * Returns the Socket.IO server instance, or null if not yet initialized.
+ * Useful for code paths that don't have access to req.io (e.g. background jobs).
+ */
+const getIO = () => io;
+
+/**
+ * Signs every open connection of a user out of their user room, e.g. after
+ * their password was reset. Connections that authenticate again with a valid
+ * token rejoin it.
+ * @param {ObjectId|string} userId
+ */
+const signOutUserSockets = (userId) => {
+  if (!io) return;
+  const room = getUserRoom(userId);
+  io.in(room)
+    .fetchSockets()
+    .then((sockets) => {
+      sockets.forEach((socket) => {
+        socket.leave(room);
+        socket.data.userId = null;
+      });
+    })
+    .catch((error) => console.error("Failed to sign out user sockets:", error));
+};
+
+module.exports = {
+  initSocket,
+  getIO,
+  getUserRoom,
+  signOutUserSockets,
+};
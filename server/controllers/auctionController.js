@@ -2,9 +2,34 @@
 
 const mongoose = require("mongoose");
 const Auction = require("../models/Auction");
+const Bid = require("../models/Bid");
+const ProxyBid = require("../models/ProxyBid");
 const User = require("../models/User");
+const Watch = require("../models/Watch");
+const { notifyOutbid, notifySale } = require("../utils/notificationUtils");
+const { getBidWriteGuard } = require("../utils/bidUtils");
+const {
+  startOptionalTransaction,
+  isTransientTransactionError,
+} = require("../utils/dbUtils");
+const { hasPermission } = require("../config/permissions");
+
+// Fields listings may be sorted by; anything else (e.g. the hidden
+// reservePrice) is rejected
+const AUCTION_SORT_FIELDS = [
+  "endTime",
+  "startTime",
+  "createdAt",
+  "currentBid",
+  "bidCount",
+  "views",
+  "watchCount",
+  "title",
+];
 
 // --- Helper Function (Optional) ---
+// Returns the paging and sort options, with `error` set (a 400) for an
+// unknown sortBy.
 const parseQueryOptions = (query) => {
   const page = parseInt(query.page, 10) || 1;
   const limit =
@@ -14,18 +39,173 @@ const parseQueryOptions = (query) => {
 
   const sortOptions = {};
   if (query.sortBy) {
+    if (!AUCTION_SORT_FIELDS.includes(query.sortBy)) {
+      const error = new Error(
+        `Invalid sortBy. Use one of: ${AUCTION_SORT_FIELDS.join(", ")}`
+      );
+      error.statusCode = 400;
+      return { error };
+    }
     sortOptions[query.sortBy] = query.sortOrder === "desc" ? -1 : 1;
   } else {
-    sortOptions.endTime = 1; // Default: ending soonest
+    // Default: soonest first, except closed auctions which show most recent first
+    const sortField = query.status === "scheduled" ? "startTime" : "endTime";
+    sortOptions[sortField] = query.status === "closed" ? -1 : 1;
   }
 
   return { page, limit, skip, sortOptions };
 };
 
+// Statuses anyone may list; drafts and cancelled auctions stay with their seller
+const PUBLIC_STATUSES = ["scheduled", "live", "ending-soon", "closed"];
+
+/**
+ * Adds the filter for the `status` query parameter to a list filter.
+ * @param {object} filter - The filter being built (mutated).
+ * @param {string} [status] - The requested status, if any.
+ * @param {string[]} allowedStatuses - Statuses this endpoint may list.
+ * @returns {Error|null} A 400 error for an unknown or disallowed status.
+ */
+const applyStatusFilter = (filter, status, allowedStatuses) => {
+  const statusFilter =
+    allowedStatuses.includes(status) && Auction.getStatusFilter(status);
+  if (!statusFilter) {
+    const error = new Error(
+      `Invalid status filter. Use one of: ${allowedStatuses.join(", ")}`
+    );
+    error.statusCode = 400;
+    return error;
+  }
+  Object.assign(filter, statusFilter);
+  return null;
+};
+
+/**
+ * Checks the format-specific fields: a Dutch auction needs a price schedule
+ * that stays below its opening price and has no reserve or Buy It Now; a
+ * sealed-bid auction needs a pricing variant and has no Buy It Now. Only
+ * English auctions can sell several units, and then without Buy It Now.
+ * @param {object} fields - auctionType, startingBid, reservePrice, buyNowPrice,
+ *   dutchSchedule, sealedPricing, quantity.
+ * @returns {string|null} What is wrong, if anything.
+ */
+const getAuctionTypeError = ({
+  auctionType,
+  startingBid,
+  reservePrice,
+  buyNowPrice,
+  dutchSchedule,
+  sealedPricing,
+  quantity,
+}) => {
+  const hasBuyNow = buyNowPrice !== undefined && buyNowPrice !== null;
+
+  if (
+    auctionType !== undefined &&
+    !["english", "dutch", "sealed"].includes(auctionType)
+  ) {
+    return "Auction type must be english, dutch or sealed";
+  }
+  if (
+    quantity !== undefined &&
+    quantity !== null &&
+    (!Number.isInteger(quantity) || quantity < 1)
+  ) {
+    return "Quantity must be a whole number of at least 1";
+  }
+  if (quantity > 1) {
+    if (auctionType !== undefined && auctionType !== "english") {
+      return "Only English auctions can sell more than one unit";
+    }
+    if (hasBuyNow) return "Multi-unit lots can't have a Buy It Now price";
+  }
+  if (auctionType === "sealed") {
+    if (!["first-price", "second-price"].includes(sealedPricing)) {
+      return "Sealed-bid auctions need a pricing variant (first-price or second-price)";
+    }
+    if (hasBuyNow) return "Sealed-bid auctions can't have a Buy It Now price";
+    return null;
+  }
+  if (auctionType !== "dutch") return null;
+  if (
+    !dutchSchedule ||
+    !(dutchSchedule.decrement > 0) ||
+    !(dutchSchedule.intervalMinutes >= 1)
+  ) {
+    return "Dutch auctions need a price drop (decrement) and an interval of at least 1 minute";
+  }
+  if ((dutchSchedule.floorPrice || 0) >= startingBid) {
+    return "The floor price must be below the starting price";
+  }
+  if ((reservePrice !== undefined && reservePrice !== null) || hasBuyNow) {
+    return "Dutch auctions can't have a reserve or Buy It Now price; use the floor price instead";
+  }
+  return null;
+};
+
+/**
+ * Checks the fields an auction needs before it can go public. Drafts skip this
+ * until they are published.
+ * @param {object} fields - title, description, auctionType, startingBid, startTime, endTime,
+ *   reservePrice, buyNowPrice, dutchSchedule, sealedPricing, quantity.
+ * @param {Date} [now=new Date()]
+ * @returns {Error|null} A 400 error describing the first problem found.
+ */
+const validateAuctionFields = (fields, now = new Date()) => {
+  const {
+    title,
+    description,
+    startingBid,
+    startTime,
+    endTime,
+    reservePrice,
+    buyNowPrice,
+  } = fields;
+  let message = null;
+
+  if (
+    !title ||
+    !description ||
+    startingBid === undefined ||
+    startingBid === null ||
+    !endTime
+  ) {
+    message =
+      "Missing required auction fields (title, description, startingBid, endTime)";
+  } else if (
+    reservePrice !== undefined &&
+    reservePrice !== null &&
+    reservePrice < startingBid
+  ) {
+    message = "Reserve price cannot be below the starting bid";
+  } else if (
+    buyNowPrice !== undefined &&
+    buyNowPrice !== null &&
+    (buyNowPrice <= startingBid ||
+      (reservePrice !== undefined &&
+        reservePrice !== null &&
+        buyNowPrice < reservePrice))
+  ) {
+    message =
+      "Buy It Now price must be above the starting bid and no lower than the reserve price";
+  } else if (new Date(endTime) <= new Date(startTime || now)) {
+    message = "End time must be after start time";
+  } else if (new Date(endTime) <= now) {
+    message = "End time must be in the future";
+  } else {
+    message = getAuctionTypeError(fields);
+  }
+
+  if (!message) return null;
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
 // --- Controller Methods ---
 
 /**
- * @description Create a new auction
+ * @description Create a new auction, or save a draft when `status` is "draft"
  * @route POST /api/auctions
  * @access Private (Requires login)
  */
@@ -42,54 +222,58 @@ const createAuction = async (req, res, next) => {
       category,
       location,
       documents,
+      auctionType,
+      dutchSchedule,
+      sealedPricing,
+      quantity,
+      bidIncrement,
+      softClose,
+      reservePrice,
+      buyNowPrice,
     } = req.body;
     const sellerId = req.user.id; // From authentication middleware
+    // Drafts are saved as-is (e.g. form autosave) and validated on publish
+    const isDraft = req.body.status === "draft";
 
-    // Basic Validation
-    if (!title || !description || startingBid === undefined || !endTime) {
-      const error = new Error(
-        "Missing required auction fields (title, description, startingBid, endTime)"
-      );
-      error.statusCode = 400;
-      return next(error); // Use return to stop execution here
+    const now = new Date();
+    if (!isDraft) {
+      const validationError = validateAuctionFields(req.body, now);
+      if (validationError) return next(validationError); // Use return to stop execution here
     }
 
-    const now = new Date();
     const auctionStartTime = startTime ? new Date(startTime) : now;
-    const auctionEndTime = new Date(endTime);
-
-    if (auctionEndTime <= auctionStartTime) {
-      const error = new Error("End time must be after start time");
-      error.statusCode = 400;
-      return next(error);
-    }
-    if (auctionEndTime <= now && auctionStartTime <= now) {
-      const error = new Error("End time must be in the future");
-      error.statusCode = 400;
-      return next(error);
-    }
 
     const newAuction = new Auction({
+      status: isDraft ? "draft" : auctionStartTime <= now ? "live" : "scheduled",
       title,
       description,
       startingBid,
-      endTime: auctionEndTime,
+      endTime: endTime ? new Date(endTime) : undefined,
       startTime: auctionStartTime,
       imageUrl,
       images,
       category,
       location,
       documents,
+      auctionType, // Falls back to the schema default ('english')
+      dutchSchedule, // Only meaningful for Dutch auctions
+      sealedPricing, // Only meaningful for sealed-bid auctions
+      quantity, // Falls back to the schema default (a single item)
+      bidIncrement, // Falls back to the schema default (fixed step of 1)
+      softClose, // Falls back to the schema default (off)
+      reservePrice, // Hidden from everyone but the seller
+      buyNowPrice,
       seller: sellerId,
       currentBid: startingBid, // Initialize currentBid
     });
 
     await newAuction.save();
     await newAuction.populate("seller", "name profilePictureUrl");
+    newAuction.revealReservePrice(); // The seller is the one creating it
 
     res.status(201).json({
       success: true,
-      message: "Auction created successfully",
+      message: isDraft ? "Draft saved successfully" : "Auction created successfully",
       data: newAuction,
     });
   } catch (error) {
@@ -117,9 +301,9 @@ const createAuction = async (req, res, next) => {
  */
 const listAuctions = async (req, res, next) => {
   try {
-    const { page, limit, skip, sortOptions } = parseQueryOptions(req.query);
-    const filter = {};
-    const now = new Date();
+    const { page, limit, skip, sortOptions, error: queryError } = parseQueryOptions(req.query);
+    if (queryError) return next(queryError);
+    const filter = { hiddenAt: null }; // Auctions taken down by moderators stay out
 
     // --- Filtering ---
     if (req.query.category) filter.category = req.query.category;
@@ -142,29 +326,13 @@ const listAuctions = async (req, res, next) => {
         $lte: parseFloat(req.query.maxPrice),
       };
 
-    // Status filtering
-    if (req.query.status) {
-      switch (req.query.status) {
-        case "upcoming":
-          filter.startTime = { $gt: now };
-          if (!req.query.sortBy) sortOptions = { startTime: 1 };
-          break;
-        case "active":
-        case "ending-soon":
-          filter.startTime = { $lte: now };
-          filter.endTime = { $gt: now };
-          if (!req.query.sortBy) sortOptions = { endTime: 1 };
-          break;
-        case "ended":
-          filter.endTime = { $lte: now };
-          if (!req.query.sortBy) sortOptions = { endTime: -1 };
-          break;
-      }
-    } else {
-      filter.startTime = { $lte: now };
-      filter.endTime = { $gt: now };
-      if (!req.query.sortBy) sortOptions = { endTime: 1 };
-    }
+    // Status filtering (defaults to live auctions)
+    const statusError = applyStatusFilter(
+      filter,
+      req.query.status || "live",
+      PUBLIC_STATUSES
+    );
+    if (statusError) return next(statusError);
 
     // Search term
     if (req.query.search) {
@@ -174,6 +342,7 @@ const listAuctions = async (req, res, next) => {
     // --- End Filtering ---
 
     const auctions = await Auction.find(filter)
+      .select("+reservePrice") // Needed for the public reserveMet flag only
       .populate("seller", "name profilePictureUrl")
       .sort(sortOptions)
       .skip(skip)
@@ -209,26 +378,44 @@ const getAuctionById = async (req, res, next) => {
     }
 
     const auction = await Auction.findById(auctionId)
+      .select("+reservePrice") // Needed for the public reserveMet flag only
       .populate("seller", "name profilePictureUrl email")
       .populate("highestBidder", "name");
 
-    if (!auction) {
+    const isSeller =
+      !!req.user &&
+      auction?.seller?._id.toString() === req.user.id.toString();
+
+    // Drafts don't exist as far as anyone but their seller is concerned, and
+    // hidden auctions only for their seller and moderators
+    const isHiddenFromUser =
+      !!auction?.hiddenAt && !isSeller && !hasPermission(req.user, "auctions:suspend");
+    if (!auction || (auction.status === "draft" && !isSeller) || isHiddenFromUser) {
       const error = new Error("Auction not found");
       error.statusCode = 404;
       return next(error);
     }
 
-    // Increment views (fire and forget)
-    auction.incrementViews().catch((err) => {
-      console.error(
-        `Non-blocking: Failed to increment views for auction ${auctionId}:`,
-        err
-      );
-    });
+    if (isSeller) {
+      auction.revealReservePrice();
+    } else {
+      // Increment views (fire and forget)
+      auction.incrementViews().catch((err) => {
+        console.error(
+          `Non-blocking: Failed to increment views for auction ${auctionId}:`,
+          err
+        );
+      });
+    }
+
+    // Whether it is on the logged-in user's watchlist
+    const isWatched = req.user
+      ? !!(await Watch.exists({ user: req.user.id, auction: auctionId }))
+      : false;
 
     res.status(200).json({
       success: true,
-      data: auction,
+      data: { ...auction.toJSON(), isWatched },
     });
   } catch (error) {
     if (!error.statusCode) error.statusCode = 500;
@@ -239,13 +426,13 @@ const getAuctionById = async (req, res, next) => {
 /**
  * @description Update an auction
  * @route PUT /api/auctions/:id
- * @access Private (Auction Seller or Admin only)
+ * @access Private (Auction Seller, or staff via authorize())
  */
 const updateAuction = async (req, res, next) => {
   try {
     const auctionId = req.params.id;
-    const userId = req.user.id;
-    const isAdmin = req.user.isAdmin;
+    const userId = req.user.id.toString();
+    const isStaff = req.hasPermission; // Set by authorize(); false for the seller
 
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       const error = new Error("Invalid auction ID format");
@@ -253,7 +440,7 @@ const updateAuction = async (req, res, next) => {
       return next(error);
     }
 
-    let auction = await Auction.findById(auctionId);
+    let auction = await Auction.findById(auctionId).select("+reservePrice");
 
     if (!auction) {
       const error = new Error("Auction not found");
@@ -261,16 +448,12 @@ const updateAuction = async (req, res, next) => {
       return next(error);
     }
 
-    // Authorization
-    if (auction.seller.toString() !== userId && !isAdmin) {
-      const error = new Error("Not authorized to update this auction");
-      error.statusCode = 403; // Forbidden
-      return next(error);
-    }
-
     // Business Logic Checks
-    const currentStatus = auction.status; // Use virtual
-    if (currentStatus === "ended" && !isAdmin) {
+    const currentStatus = auction.status;
+    // Drafts take partial edits (autosave); publishAuction validates them
+    const isDraft = currentStatus === "draft";
+    const isEditable = isDraft || currentStatus === "scheduled";
+    if (["closed", "cancelled"].includes(currentStatus) && !isStaff) {
       const error = new Error("Cannot update an ended auction");
       error.statusCode = 400;
       return next(error);
@@ -280,10 +463,8 @@ const updateAuction = async (req, res, next) => {
       auction.startingBid !== req.body.startingBid
     ) {
       if (
-        (currentStatus === "active" ||
-          currentStatus === "ended" ||
-          auction.bidCount > 0) &&
-        !isAdmin
+        (!isEditable || auction.bidCount > 0) &&
+        !isStaff
       ) {
         const error = new Error(
           "Cannot change starting bid after auction starts or receives bids"
@@ -293,6 +474,17 @@ const updateAuction = async (req, res, next) => {
       }
       if (auction.bidCount === 0) req.body.currentBid = req.body.startingBid;
     }
+    // Bids were placed against these terms, so not even staff can change them
+    const lockedChanges = ["auctionType", "quantity", "reservePrice"].filter(
+      (key) => req.body[key] !== undefined && req.body[key] !== auction[key]
+    );
+    if (lockedChanges.length > 0 && (!isEditable || auction.bidCount > 0)) {
+      const error = new Error(
+        `Cannot change ${lockedChanges.join(", ")} after auction starts or receives bids`
+      );
+      error.statusCode = 400;
+      return next(error);
+    }
 
     // Whitelist updates
     const allowedUpdates = [
@@ -305,27 +497,36 @@ const updateAuction = async (req, res, next) => {
       "documents",
     ];
     if (
-      isAdmin ||
-      (currentStatus === "upcoming" && auction.seller.toString() === userId)
+      isStaff ||
+      (isEditable && auction.seller.toString() === userId)
     ) {
-      allowedUpdates.push("endTime", "startTime");
+      allowedUpdates.push("endTime", "startTime", "softClose");
       if (req.body.endTime) req.body.endTime = new Date(req.body.endTime);
       if (req.body.startTime) req.body.startTime = new Date(req.body.startTime);
       const newEndTime = req.body.endTime || auction.endTime;
       const newStartTime = req.body.startTime || auction.startTime;
-      if (newEndTime <= newStartTime) {
+      if (!isDraft && newEndTime <= newStartTime) {
         const error = new Error("End time must be after start time");
         error.statusCode = 400;
         return next(error);
       }
     }
     if (
-      isAdmin ||
-      (currentStatus === "upcoming" &&
+      isStaff ||
+      (isEditable &&
         auction.seller.toString() === userId &&
         auction.bidCount === 0)
     ) {
-      allowedUpdates.push("startingBid");
+      allowedUpdates.push(
+        "startingBid",
+        "auctionType",
+        "dutchSchedule",
+        "sealedPricing",
+        "quantity",
+        "bidIncrement",
+        "reservePrice",
+        "buyNowPrice"
+      );
     }
 
     Object.keys(req.body).forEach((key) => {
@@ -334,9 +535,59 @@ const updateAuction = async (req, res, next) => {
       }
     });
 
+    const newBuyNowPrice =
+      req.body.buyNowPrice !== undefined
+        ? req.body.buyNowPrice
+        : auction.buyNowPrice;
+    const newReservePrice =
+      req.body.reservePrice !== undefined
+        ? req.body.reservePrice
+        : auction.reservePrice;
+    const newStartingBid =
+      req.body.startingBid !== undefined
+        ? req.body.startingBid
+        : auction.startingBid;
+    if (
+      !isDraft &&
+      allowedUpdates.includes("reservePrice") &&
+      newReservePrice !== null &&
+      newReservePrice < newStartingBid
+    ) {
+      const error = new Error("Reserve price cannot be below the starting bid");
+      error.statusCode = 400;
+      return next(error);
+    }
+    if (
+      !isDraft &&
+      allowedUpdates.includes("buyNowPrice") &&
+      newBuyNowPrice !== null &&
+      (newBuyNowPrice <= newStartingBid ||
+        (newReservePrice !== null && newBuyNowPrice < newReservePrice))
+    ) {
+      const error = new Error(
+        "Buy It Now price must be above the starting bid and no lower than the reserve price"
+      );
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const auctionTypeError =
+      !isDraft &&
+      allowedUpdates.includes("auctionType") &&
+      getAuctionTypeError({
+        ...auction.toObject(),
+        reservePrice: auction.reservePrice, // Dropped by toObject()
+      });
+    if (auctionTypeError) {
+      const error = new Error(auctionTypeError);
+      error.statusCode = 400;
+      return next(error);
+    }
+
     await auction.save(); // Triggers validation
     await auction.populate("seller", "name profilePictureUrl email");
     await auction.populate("highestBidder", "name");
+    auction.revealReservePrice(); // Only the seller or an admin gets here
 
     res.status(200).json({
       success: true,
@@ -360,13 +611,12 @@ const updateAuction = async (req, res, next) => {
 /**
  * @description Delete an auction
  * @route DELETE /api/auctions/:id
- * @access Private (Auction Seller or Admin only)
+ * @access Private (Auction Seller, or staff via authorize())
  */
 const deleteAuction = async (req, res, next) => {
   try {
     const auctionId = req.params.id;
-    const userId = req.user.id;
-    const isAdmin = req.user.isAdmin;
+    const isStaff = req.hasPermission; // Set by authorize(); false for the seller
 
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       const error = new Error("Invalid auction ID format");
@@ -382,22 +632,15 @@ const deleteAuction = async (req, res, next) => {
       return next(error);
     }
 
-    // Authorization
-    if (auction.seller.toString() !== userId && !isAdmin) {
-      const error = new Error("Not authorized to delete this auction");
-      error.statusCode = 403;
-      return next(error);
-    }
-
     // Business Logic
     const currentStatus = auction.status;
     if (
-      ["active", "ended"].includes(currentStatus) &&
+      ["live", "closed"].includes(currentStatus) &&
       auction.bidCount > 0 &&
-      !isAdmin
+      !isStaff
     ) {
       const error = new Error(
-        "Cannot delete an auction that is active or ended with bids"
+        "Cannot delete an auction that is live or closed with bids"
       );
       error.statusCode = 400;
       return next(error);
@@ -407,6 +650,7 @@ const deleteAuction = async (req, res, next) => {
     // await Bid.deleteMany({ auction: auctionId });
 
     await Auction.findByIdAndDelete(auctionId);
+    await Watch.deleteMany({ auction: auctionId }); // Nothing left to watch
 
     res.status(200).json({
       success: true,
@@ -419,6 +663,466 @@ const deleteAuction = async (req, res, next) => {
   }
 };
 
+/**
+ * @description Publish a draft: runs the full validation a new auction gets and
+ * schedules it, or opens it right away if its start time has passed
+ * @route POST /api/auctions/:id/publish
+ * @access Private (Auction Seller only)
+ */
+const publishAuction = async (req, res, next) => {
+  try {
+    const auctionId = req.params.id;
+    const userId = req.user.id.toString();
+
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      const error = new Error("Invalid auction ID format");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const auction = await Auction.findById(auctionId).select("+reservePrice");
+
+    if (!auction || auction.seller.toString() !== userId) {
+      const error = new Error("Auction not found");
+      error.statusCode = 404;
+      return next(error);
+    }
+
+    if (auction.status !== "draft") {
+      const error = new Error("Only draft auctions can be published");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const now = new Date();
+    const startTime =
+      auction.startTime && auction.startTime > now ? auction.startTime : now;
+    const validationError = validateAuctionFields(
+      { ...auction.toObject(), reservePrice: auction.reservePrice, startTime },
+      now
+    );
+    if (validationError) return next(validationError);
+
+    auction.startTime = startTime;
+    auction.status = startTime <= now ? "live" : "scheduled";
+    auction.currentBid = auction.startingBid;
+    await auction.save(); // Full schema validation now that it isn't a draft
+    await auction.populate("seller", "name profilePictureUrl");
+    auction.revealReservePrice();
+
+    res.status(200).json({
+      success: true,
+      message: "Auction published successfully",
+      data: auction,
+    });
+  } catch (error) {
+    if (error.name === "ValidationError") {
+      const messages = Object.values(error.errors).map((val) => val.message);
+      const validationError = new Error(
+        `Validation Error: ${messages.join(", ")}`
+      );
+      validationError.statusCode = 400;
+      return next(validationError);
+    }
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
+/**
+ * @description Cancel a scheduled or live auction. Sellers can only cancel
+ * auctions without bids; moderators can cancel any open auction.
+ * @route PATCH /api/auctions/:id/cancel
+ * @access Private (Auction Seller, or staff via authorize())
+ */
+const cancelAuction = async (req, res, next) => {
+  try {
+    const auctionId = req.params.id;
+    const isStaff = req.hasPermission; // Set by authorize(); false for the seller
+
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      const error = new Error("Invalid auction ID format");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      const error = new Error("Auction not found");
+      error.statusCode = 404;
+      return next(error);
+    }
+
+    // Business Logic
+    if (!["draft", "scheduled", "live"].includes(auction.status)) {
+      const error = new Error(`Cannot cancel an auction that is ${auction.status}`);
+      error.statusCode = 400;
+      return next(error);
+    }
+    if (auction.bidCount > 0 && !isStaff) {
+      const error = new Error("Cannot cancel an auction that has bids");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    // Conditional on status so a concurrent close or cancel wins cleanly
+    const now = new Date();
+    const updatedAuction = await Auction.findOneAndUpdate(
+      { _id: auctionId, status: auction.status },
+      { $set: { status: "cancelled", closedAt: now } },
+      { new: true }
+    ).populate("seller", "name profilePictureUrl");
+
+    if (!updatedAuction) {
+      const error = new Error("Auction changed while cancelling, please retry");
+      error.statusCode = 409;
+      return next(error);
+    }
+
+    await ProxyBid.updateMany(
+      { auction: auctionId, isActive: true },
+      { $set: { isActive: false } }
+    );
+
+    if (req.io) {
+      req.io.to(auctionId).emit("auction_ended", {
+        auctionId: auctionId,
+        endTime: updatedAuction.endTime,
+        status: updatedAuction.status,
+        isBuyNow: false,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Auction cancelled successfully",
+      data: updatedAuction,
+    });
+  } catch (error) {
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
+/**
+ * Saves the bid that settles a sale after the auction was closed with a
+ * compare-and-set. In a transaction a failure rolls both back; without one
+ * the auction is reopened as it was read, so it is never sold without a
+ * winning Bid record.
+ * @param {Auction} auction - The auction as read before closing it.
+ * @param {Bid} bid - The winning bid.
+ * @param {ClientSession|null} session
+ */
+const saveSaleBid = async (auction, bid, session) => {
+  try {
+    await bid.save({ session });
+  } catch (error) {
+    if (!session) {
+      await Auction.updateOne(
+        { _id: auction._id, status: "closed", winner: bid.bidder },
+        {
+          $set: {
+            currentBid: auction.currentBid,
+            highestBidder: auction.highestBidder,
+            endTime: auction.endTime,
+            status: auction.status,
+            closedAt: null,
+            outcome: null,
+            winner: null,
+            hammerPrice: null,
+          },
+          $inc: { bidCount: -1 },
+        }
+      ).catch((undoError) =>
+        console.error(`Failed to reopen auction ${auction._id}:`, undoError)
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * @description Buy an auction outright at its Buy It Now price, ending it immediately
+ * @route POST /api/auctions/:id/buy-now
+ * @access Private (Requires login)
+ */
+const buyNow = async (req, res, next) => {
+  const auctionId = req.params.id;
+  const buyerId = req.user.id;
+
+  if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+    const error = new Error("Invalid auction ID format");
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  // The final bid and the auction closing must happen together
+  const { session, commit, abort } = await startOptionalTransaction();
+
+  try {
+    const auction = await Auction.findById(auctionId).session(session);
+
+    if (!auction) {
+      const error = new Error("Auction not found");
+      error.statusCode = 404;
+      throw error;
+    }
+    if (auction.seller.toString() === buyerId.toString()) {
+      const error = new Error("Sellers cannot buy their own auctions");
+      error.statusCode = 403;
+      throw error;
+    }
+    if (!auction.buyNowAvailable) {
+      const error = new Error(
+        auction.buyNowPrice
+          ? "Buy It Now is no longer available for this auction"
+          : "This auction has no Buy It Now price"
+      );
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const now = new Date();
+    const bid = new Bid({
+      auction: auctionId,
+      bidder: buyerId,
+      amount: auction.buyNowPrice,
+      isBuyNow: true,
+    });
+
+    // Only lands on the state Buy It Now was checked against: a bid placed
+    // meanwhile (or a changed price) fails it
+    const updatedAuction = await Auction.findOneAndUpdate(
+      { ...getBidWriteGuard(auction, now), buyNowPrice: auction.buyNowPrice },
+      {
+        $set: {
+          currentBid: auction.buyNowPrice,
+          highestBidder: buyerId,
+          endTime: now,
+          // Settled on the spot rather than waiting for the lifecycle job
+          status: "closed",
+          closedAt: now,
+          outcome: "sold",
+          winner: buyerId,
+          hammerPrice: auction.buyNowPrice,
+        },
+        $inc: { bidCount: 1, bidSequence: 1 },
+      },
+      { new: true, session }
+    ).populate("highestBidder", "name");
+
+    if (!updatedAuction) {
+      const error = new Error("The auction changed before your purchase went through");
+      error.statusCode = 409;
+      throw error;
+    }
+    bid.sequence = updatedAuction.bidSequence;
+    await saveSaleBid(auction, bid, session);
+    await ProxyBid.updateMany(
+      { auction: auctionId, isActive: true },
+      { $set: { isActive: false } },
+      { session }
+    );
+
+    await commit();
+
+    if (req.io) {
+      await bid.populate("bidder", "name profilePictureUrl _id");
+      req.io.to(auctionId).emit("new_bid", {
+        auctionId: auctionId,
+        currentBid: updatedAuction.currentBid,
+        highestBidder: bid.bidder,
+        bidCount: updatedAuction.bidCount,
+        minimumNextBid: updatedAuction.minimumNextBid,
+        reserveMet: true, // Buy-now prices are never below the reserve
+        buyNowAvailable: false,
+        bid: bid,
+      });
+      req.io.to(auctionId).emit("auction_ended", {
+        auctionId: auctionId,
+        endTime: updatedAuction.endTime,
+        status: updatedAuction.status,
+        isBuyNow: true,
+      });
+    }
+
+    // The sale is committed; a failed notification is only logged
+    const previousLeader = auction.highestBidder;
+    if (previousLeader && !previousLeader.equals(buyerId)) {
+      await notifyOutbid([previousLeader], updatedAuction).catch((error) =>
+        console.error("Failed to send outbid notification:", error)
+      );
+    }
+    await notifySale(updatedAuction, {
+      winner: buyerId,
+      hammerPrice: updatedAuction.hammerPrice,
+    }).catch((error) => console.error("Failed to send sale notifications:", error));
+
+    res.status(200).json({
+      success: true,
+      message: "You bought this item!",
+      bid: bid,
+      data: updatedAuction,
+    });
+  } catch (error) {
+    await abort();
+    // A bid racing the purchase in a transaction: the loser gets a write conflict
+    if (isTransientTransactionError(error)) {
+      error.message = "The auction changed before your purchase went through";
+      error.statusCode = 409;
+    }
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
+/**
+ * @description Accept a Dutch auction's current price. The server works the price
+ * out from the clock, and the first acceptance wins the auction. An optional
+ * `maxPrice` guards against paying more than the price the buyer saw.
+ * @route POST /api/auctions/:id/accept
+ * @access Private (Requires login)
+ */
+const acceptDutchPrice = async (req, res, next) => {
+  const auctionId = req.params.id;
+  const buyerId = req.user.id;
+  const { maxPrice } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+    const error = new Error("Invalid auction ID format");
+    error.statusCode = 400;
+    return next(error);
+  }
+  if (
+    maxPrice !== undefined &&
+    (typeof maxPrice !== "number" || maxPrice <= 0)
+  ) {
+    const error = new Error("Invalid maximum price. Must be a positive number.");
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  // The winning bid and the auction closing must happen together
+  const { session, commit, abort } = await startOptionalTransaction();
+
+  try {
+    const auction = await Auction.findById(auctionId).session(session);
+
+    if (!auction) {
+      const error = new Error("Auction not found");
+      error.statusCode = 404;
+      throw error;
+    }
+    if (auction.auctionType !== "dutch") {
+      const error = new Error("Only Dutch auctions have a price to accept");
+      error.statusCode = 400;
+      throw error;
+    }
+    if (auction.seller.toString() === buyerId.toString()) {
+      const error = new Error("Sellers cannot buy their own auctions");
+      error.statusCode = 403;
+      throw error;
+    }
+    if (!auction.isAcceptingBids() || auction.bidCount > 0) {
+      const error = new Error(
+        `Auction is not accepting offers. Status: ${auction.status}`
+      );
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const now = new Date();
+    const price = auction.getDutchPriceAt(now);
+    if (maxPrice !== undefined && price > maxPrice) {
+      const error = new Error(
+        `The price is now $${price}, above your maximum of $${maxPrice}`
+      );
+      error.statusCode = 409;
+      throw error;
+    }
+
+    const bid = new Bid({
+      auction: auctionId,
+      bidder: buyerId,
+      amount: price,
+      isAcceptance: true,
+    });
+
+    // Conditional on no earlier acceptance, so only the first buyer wins, and
+    // on the auction not having run out while the price was worked out
+    const updatedAuction = await Auction.findOneAndUpdate(
+      { _id: auctionId, status: "live", endTime: { $gt: now }, bidCount: 0 },
+      {
+        $set: {
+          currentBid: price,
+          highestBidder: buyerId,
+          endTime: now,
+          // Settled on the spot rather than waiting for the lifecycle job
+          status: "closed",
+          closedAt: now,
+          outcome: "sold",
+          winner: buyerId,
+          hammerPrice: price,
+        },
+        $inc: { bidCount: 1, bidSequence: 1 },
+      },
+      { new: true, session }
+    ).populate("highestBidder", "name");
+
+    if (!updatedAuction) {
+      const error = new Error("Someone else accepted this auction first");
+      error.statusCode = 409;
+      throw error;
+    }
+    bid.sequence = updatedAuction.bidSequence;
+    await saveSaleBid(auction, bid, session);
+
+    await commit();
+
+    if (req.io) {
+      await bid.populate("bidder", "name profilePictureUrl _id");
+      req.io.to(auctionId).emit("new_bid", {
+        auctionId: auctionId,
+        currentBid: updatedAuction.currentBid,
+        highestBidder: bid.bidder,
+        bidCount: updatedAuction.bidCount,
+        minimumNextBid: updatedAuction.minimumNextBid,
+        reserveMet: true, // Dutch auctions have no reserve beyond the floor price
+        buyNowAvailable: false,
+        bid: bid,
+      });
+      req.io.to(auctionId).emit("auction_ended", {
+        auctionId: auctionId,
+        endTime: updatedAuction.endTime,
+        status: updatedAuction.status,
+        isBuyNow: false,
+      });
+    }
+
+    await notifySale(updatedAuction, {
+      winner: buyerId,
+      hammerPrice: price,
+    }).catch((error) => console.error("Failed to send sale notifications:", error));
+
+    res.status(200).json({
+      success: true,
+      message: `You won this auction for $${price}!`,
+      bid: bid,
+      data: updatedAuction,
+    });
+  } catch (error) {
+    await abort();
+    // Two acceptances racing in transactions: the loser gets a write conflict
+    if (isTransientTransactionError(error)) {
+      error.message = "Someone else accepted this auction first";
+      error.statusCode = 409;
+    }
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
 /**
  * @description Like or unlike an auction
  * @route PATCH /api/auctions/:id/like
@@ -479,34 +1183,31 @@ const toggleLikeAuction = async (req, res, next) => {
  */
 const getMyAuctions = async (req, res, next) => {
   try {
-    const { page, limit, skip, sortOptions } = parseQueryOptions(req.query);
+    const { page, limit, skip, sortOptions, error: queryError } = parseQueryOptions(req.query);
+    if (queryError) return next(queryError);
     const sellerId = req.user.id;
     const filter = { seller: sellerId };
-    const now = new Date();
 
-    // Filtering for user's own auctions
+    // Filtering for user's own auctions, in any status
     if (req.query.status) {
-      switch (req.query.status) {
-        case "upcoming":
-          filter.startTime = { $gt: now };
-          break;
-        case "active":
-          filter.startTime = { $lte: now };
-          filter.endTime = { $gt: now };
-          break;
-        case "ended":
-          filter.endTime = { $lte: now };
-          break;
-      }
+      const statusError = applyStatusFilter(filter, req.query.status, [
+        ...PUBLIC_STATUSES,
+        "draft",
+        "cancelled",
+      ]);
+      if (statusError) return next(statusError);
     }
     if (req.query.category) filter.category = req.query.category;
 
     const auctions = await Auction.find(filter)
+      .select("+reservePrice")
       .populate("seller", "name profilePictureUrl")
       .populate("highestBidder", "name")
       .sort(sortOptions)
       .skip(skip)
       .limit(limit);
+    // These are all the seller's own auctions, so they may see their reserves
+    auctions.forEach((auction) => auction.revealReservePrice());
 
     const totalAuctions = await Auction.countDocuments(filter);
     const totalPages = Math.ceil(totalAuctions / limit);
@@ -530,29 +1231,26 @@ const getMyAuctions = async (req, res, next) => {
  */
 const getLikedAuctions = async (req, res, next) => {
   try {
-    const { page, limit, skip, sortOptions } = parseQueryOptions(req.query);
+    const { page, limit, skip, sortOptions, error: queryError } = parseQueryOptions(req.query);
+    if (queryError) return next(queryError);
     const userId = req.user.id;
-    const filter = { likedBy: userId };
-    const now = new Date();
+    const filter = { likedBy: userId, hiddenAt: null };
 
-    // Filtering for liked auctions
+    // Filtering for liked auctions, which only ever shows public ones
     if (req.query.status) {
-      switch (req.query.status) {
-        case "upcoming":
-          filter.startTime = { $gt: now };
-          break;
-        case "active":
-          filter.startTime = { $lte: now };
-          filter.endTime = { $gt: now };
-          break;
-        case "ended":
-          filter.endTime = { $lte: now };
-          break;
-      }
+      const statusError = applyStatusFilter(
+        filter,
+        req.query.status,
+        PUBLIC_STATUSES
+      );
+      if (statusError) return next(statusError);
+    } else {
+      filter.status = { $in: ["scheduled", "live", "closed"] };
     }
     if (req.query.category) filter.category = req.query.category;
 
     const auctions = await Auction.find(filter)
+      .select("+reservePrice") // Needed for the public reserveMet flag only
       .populate("seller", "name profilePictureUrl")
       .populate("highestBidder", "name")
       .sort(sortOptions)
@@ -574,13 +1272,169 @@ const getLikedAuctions = async (req, res, next) => {
   }
 };
 
+/**
+ * @description Add an auction to the logged-in user's watchlist
+ * @route POST /api/auctions/:id/watch
+ * @access Private (Requires login)
+ */
+const watchAuction = async (req, res, next) => {
+  try {
+    const auctionId = req.params.id;
+    const userId = req.user.id;
+
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      const error = new Error("Invalid auction ID format");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const auction = await Auction.findById(auctionId).select("seller status");
+    if (!auction || !["scheduled", "live", "closed"].includes(auction.status)) {
+      const error = new Error("Auction not found");
+      error.statusCode = 404;
+      return next(error);
+    }
+    if (auction.seller.equals(userId)) {
+      const error = new Error("Sellers cannot watch their own auctions");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    let added = false;
+    try {
+      const result = await Watch.updateOne(
+        { user: userId, auction: auctionId },
+        { $setOnInsert: { user: userId, auction: auctionId } },
+        { upsert: true }
+      );
+      added = result.upsertedCount > 0;
+    } catch (error) {
+      if (error.code !== 11000) throw error; // Added by a simultaneous request
+    }
+
+    const updatedAuction = added
+      ? await Auction.findByIdAndUpdate(
+          auctionId,
+          { $inc: { watchCount: 1 } },
+          { new: true }
+        ).select("watchCount")
+      : await Auction.findById(auctionId).select("watchCount");
+
+    res.status(added ? 201 : 200).json({
+      success: true,
+      message: added
+        ? "Auction added to your watchlist"
+        : "Auction is already on your watchlist",
+      isWatched: true,
+      watchCount: updatedAuction.watchCount,
+    });
+  } catch (error) {
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
+/**
+ * @description Remove an auction from the logged-in user's watchlist
+ * @route DELETE /api/auctions/:id/watch
+ * @access Private (Requires login)
+ */
+const unwatchAuction = async (req, res, next) => {
+  try {
+    const auctionId = req.params.id;
+    const userId = req.user.id;
+
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      const error = new Error("Invalid auction ID format");
+      error.statusCode = 400;
+      return next(error);
+    }
+
+    const result = await Watch.deleteOne({ user: userId, auction: auctionId });
+    const updatedAuction =
+      result.deletedCount > 0
+        ? await Auction.findByIdAndUpdate(
+            auctionId,
+            { $inc: { watchCount: -1 } },
+            { new: true }
+          ).select("watchCount")
+        : await Auction.findById(auctionId).select("watchCount");
+
+    res.status(200).json({
+      success: true,
+      message: "Auction removed from your watchlist",
+      isWatched: false,
+      watchCount: updatedAuction ? updatedAuction.watchCount : 0,
+    });
+  } catch (error) {
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
+/**
+ * @description Get the auctions on the logged-in user's watchlist
+ * @route GET /api/users/me/watchlist
+ * @access Private (Requires login)
+ */
+const getWatchedAuctions = async (req, res, next) => {
+  try {
+    const { page, limit, skip, sortOptions, error: queryError } = parseQueryOptions(req.query);
+    if (queryError) return next(queryError);
+    const userId = req.user.id;
+    const watchedIds = await Watch.find({ user: userId }).distinct("auction");
+    const filter = { _id: { $in: watchedIds }, hiddenAt: null };
+
+    // Filtering for watched auctions, which only ever shows public ones
+    if (req.query.status) {
+      const statusError = applyStatusFilter(
+        filter,
+        req.query.status,
+        PUBLIC_STATUSES
+      );
+      if (statusError) return next(statusError);
+    } else {
+      filter.status = { $in: ["scheduled", "live", "closed"] };
+    }
+    if (req.query.category) filter.category = req.query.category;
+
+    const auctions = await Auction.find(filter)
+      .select("+reservePrice") // Needed for the public reserveMet flag only
+      .populate("seller", "name profilePictureUrl")
+      .populate("highestBidder", "name")
+      .sort(sortOptions)
+      .skip(skip)
+      .limit(limit);
+
+    const totalAuctions = await Auction.countDocuments(filter);
+    const totalPages = Math.ceil(totalAuctions / limit);
+
+    res.status(200).json({
+      success: true,
+      count: auctions.length,
+      pagination: { totalAuctions, totalPages, currentPage: page, limit },
+      data: auctions.map((auction) => ({ ...auction.toJSON(), isWatched: true })),
+    });
+  } catch (error) {
+    if (!error.statusCode) error.statusCode = 500;
+    next(error);
+  }
+};
+
 module.exports = {
   createAuction,
   listAuctions,
   getAuctionById,
   updateAuction,
   deleteAuction,
+  publishAuction,
+  cancelAuction,
   toggleLikeAuction,
+  buyNow,
+  acceptDutchPrice,
   getMyAuctions,
   getLikedAuctions,
+  watchAuction,
+  unwatchAuction,
+  getWatchedAuctions,
 };
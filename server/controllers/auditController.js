@@ -0,0 +1,55 @@
+// controllers/auditController.js
+const mongoose = require("mongoose");
+const AuditLog = require("../models/AuditLog");
+const { handleServerError } = require("../utils/errorUtils");
+
+const MAX_AUDIT_PAGE_LIMIT = 100;
+
+// --- List the Audit Log (Admin) ---
+// Query: action, target (a user or auction ID), actor, page, limit. Newest first.
+exports.getAuditLog = async (req, res) => {
+  const { action, target, actor } = req.query;
+  const filter = {};
+  if (action) filter.action = action;
+  for (const [key, value] of Object.entries({ target, actor })) {
+    if (!value) continue;
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      return res
+        .status(400)
+        .json({ success: false, message: `Invalid ${key} ID format.` });
+    }
+    filter[key] = value;
+  }
+
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || 50, 1),
+    MAX_AUDIT_PAGE_LIMIT
+  );
+
+  try {
+    const [entries, total] = await Promise.all([
+      AuditLog.find(filter)
+        .populate("actor", "name email")
+        .populate("target", "name email title")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditLog.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      pagination: {
+        total: total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit: limit,
+      },
+      entries: entries,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve the audit log.");
+  }
+};
@@ -1,9 +1,28 @@
 // src/controllers/authControllers.js
+const mongoose = require("mongoose");
 const User = require("../models/User");
-const { generateToken, verifyToken } = require("../utils/jwtUtils");
+const { verifyToken } = require("../utils/jwtUtils");
+const {
+  createSession,
+  rotateSession,
+  endSession,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+} = require("../utils/sessionUtils");
 const randomAvatarGenerator = require("../utils/avatar");
+const { queueEmail, buildClientUrl } = require("../utils/mailUtils");
+const { signOutUserSockets } = require("../config/socket");
+const { issueOtp, verifyOtp } = require("../utils/otpUtils");
+const { getPermissions } = require("../config/permissions");
 const bcrypt = require("bcrypt");
 
+// Emails a fresh verification code to the user. Rate limited by issueOtp.
+const sendVerificationCode = async (user) => {
+  const { code, expiresInMinutes } = await issueOtp(user._id, "email_verification");
+  queueEmail(user, "email_verification", { code, expiresInMinutes });
+};
+
 // @desc Register a new user
 // @route POST /api/auth/register
 // @access Public
@@ -29,24 +48,34 @@ const registerUser = async (req, res) => {
     });
 
     await user.save();
+    // The account works right away, but bidding and selling wait until the
+    // emailed code is entered (POST /api/auth/verify-email). If no code goes
+    // out now, the user can ask for one with POST /api/auth/resend-otp
+    await sendVerificationCode(user).catch((error) =>
+      console.error(`Failed to send a verification code to user ${user._id}:`, error)
+    );
 
-    // Generate JWT
-    const token = generateToken({ userId: user._id, isAdmin: user.isAdmin });
+    // Start a session: a short-lived access token plus a refresh token
+    const { accessToken, refreshToken } = await createSession(user, req);
 
     res.status(201).json({
       _id: user._id,
       name: user.name,
       email: user.email,
       isAdmin: user.isAdmin,
+      roles: user.roles,
+      permissions: getPermissions(user), // What the client may show; the API still checks
+      isEmailVerified: user.isEmailVerified,
       profilePictureUrl: user.profilePictureUrl,
-      token: token,
+      token: accessToken,
+      refreshToken: refreshToken,
     });
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
 };
 
-// @desc Login user and return JWT
+// @desc Login user and return an access token and a refresh token
 // @route POST /api/auth/login
 // @access Public
 const loginUser = async (req, res) => {
@@ -66,19 +95,33 @@ const loginUser = async (req, res) => {
       return res.status(401).json({ message: "Invalid credentials" });
     }
 
+    if (user.isBanActive()) {
+      return res.status(403).json({
+        message: user.banExpiresAt
+          ? `This account is banned until ${user.banExpiresAt.toISOString()}.`
+          : "This account is banned.",
+        banReason: user.banReason,
+        banExpiresAt: user.banExpiresAt,
+      });
+    }
+
     // Update last login time
     await user.updateLastLogin();
 
-    // Generate JWT
-    const token = generateToken({ userId: user._id, isAdmin: user.isAdmin });
+    // Start a session: a short-lived access token plus a refresh token
+    const { accessToken, refreshToken } = await createSession(user, req);
 
     res.json({
       _id: user._id,
       name: user.name,
       email: user.email,
       isAdmin: user.isAdmin,
+      roles: user.roles,
+      permissions: getPermissions(user), // What the client may show; the API still checks
+      isEmailVerified: user.isEmailVerified,
       profilePictureUrl: user.profilePictureUrl,
-      token: token,
+      token: accessToken,
+      refreshToken: refreshToken,
     });
   } catch (error) {
     console.error(error);
@@ -109,11 +152,20 @@ const verifyUserToken = async (req, res) => {
       return res.status(404).json({ message: "User not found" });
     }
 
+    if (user.changedPasswordAfter(decoded.iat)) {
+      return res
+        .status(401)
+        .json({ message: "Password was changed recently. Please log in again." });
+    }
+
     res.json({
       _id: user._id,
       name: user.name,
       email: user.email,
       isAdmin: user.isAdmin,
+      roles: user.roles,
+      permissions: getPermissions(user), // What the client may show; the API still checks
+      isEmailVerified: user.isEmailVerified,
       profilePictureUrl: user.profilePictureUrl,
     });
   } catch (error) {
@@ -121,6 +173,232 @@ const verifyUserToken = async (req, res) => {
   }
 };
 
+// @desc Swap a refresh token for a new access token and refresh token
+// @route POST /api/auth/refresh
+// @access Public (needs a refresh token)
+const refreshAccessToken = async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      return res.status(400).json({ message: "Refresh token is required" });
+    }
+
+    const rotated = await rotateSession(refreshToken, async (userId) => {
+      const user = await User.findById(userId);
+      return user && !user.isBanActive() ? user : null;
+    });
+
+    res.json({
+      token: rotated.accessToken,
+      refreshToken: rotated.refreshToken,
+    });
+  } catch (error) {
+    res.status(error.statusCode || 500).json({ message: error.message });
+  }
+};
+
+// @desc End the current session
+// @route POST /api/auth/logout
+// @access Public (access token or refresh token)
+const logoutUser = async (req, res) => {
+  try {
+    // The access token may already have expired, so the refresh token works too
+    if (req.user && req.sessionId) {
+      await revokeSession(req.user.id, req.sessionId);
+    } else if (req.body.refreshToken) {
+      await endSession(req.body.refreshToken);
+    }
+    res.json({ message: "Logged out" });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// @desc List the user's active sessions (signed-in devices)
+// @route GET /api/auth/sessions
+// @access Private
+const getSessions = async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user.id);
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        _id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === String(req.sessionId),
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// @desc Revoke one of the user's sessions, signing that device out
+// @route DELETE /api/auth/sessions/:id
+// @access Private
+const deleteSession = async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: "Invalid session ID" });
+    }
+
+    const revoked = await revokeSession(req.user.id, req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    res.json({ message: "Session revoked" });
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// @desc Verify the user's email address with the emailed code
+// @route POST /api/auth/verify-email
+// @access Private
+const verifyEmail = async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (req.user.isEmailVerified) {
+      return res.status(400).json({ message: "Email is already verified" });
+    }
+    if (!code) {
+      return res.status(400).json({ message: "Verification code is required" });
+    }
+
+    await verifyOtp(req.user.id, "email_verification", String(code).trim());
+
+    const user = await User.findByIdAndUpdate(
+      req.user.id,
+      { isEmailVerified: true },
+      { new: true }
+    );
+    queueEmail(user, "welcome");
+
+    res.json({
+      message: "Email verified",
+      isEmailVerified: user.isEmailVerified,
+    });
+  } catch (error) {
+    res.status(error.statusCode || 500).json({ message: error.message });
+  }
+};
+
+// @desc Email the user a new verification code
+// @route POST /api/auth/resend-otp
+// @access Private
+const resendOtp = async (req, res) => {
+  try {
+    if (req.user.isEmailVerified) {
+      return res.status(400).json({ message: "Email is already verified" });
+    }
+
+    await sendVerificationCode(req.user);
+
+    res.json({ message: `A new code was sent to ${req.user.email}` });
+  } catch (error) {
+    if (error.retryAfterSeconds) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+    }
+    res.status(error.statusCode || 500).json({
+      message: error.message,
+      retryAfterSeconds: error.retryAfterSeconds,
+    });
+  }
+};
+
+// @desc Email a password reset link
+// @route POST /api/auth/forgot-password
+// @access Public
+const forgotPassword = async (req, res) => {
+  // Same answer whether or not the account exists, so emails can't be probed
+  const genericResponse = {
+    message: "If an account exists for that email, we've sent a link to reset the password.",
+  };
+
+  try {
+    const { email } = req.body;
+    if (!email) {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    const user = await User.findOne({
+      email: String(email).toLowerCase().trim(),
+    }).select("+passwordResetExpiresAt");
+    if (!user || user.isBanActive()) {
+      return res.json(genericResponse);
+    }
+
+    const reset = user.createPasswordResetToken();
+    if (!reset) {
+      return res.json(genericResponse); // A link was sent moments ago
+    }
+    await user.save({ validateBeforeSave: false });
+    const { token, expiresInMinutes } = reset;
+
+    queueEmail(user, "password_reset", {
+      resetUrl: buildClientUrl(`/reset-password?token=${token}`),
+      expiresInMinutes,
+    });
+
+    res.json(genericResponse);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// @desc Set a new password with an emailed reset token
+// @route POST /api/auth/reset-password
+// @access Public
+const resetPassword = async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || !password) {
+      return res
+        .status(400)
+        .json({ message: "Reset token and new password are required" });
+    }
+
+    const user = await User.findOne({
+      passwordResetTokenHash: User.hashResetToken(token),
+      passwordResetExpiresAt: { $gt: new Date() },
+    });
+    if (!user) {
+      return res
+        .status(400)
+        .json({ message: "This reset link is invalid or has expired" });
+    }
+
+    user.password = password; // Hashed by the pre-save hook
+    // Single use: the token is gone once the password is set
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpiresAt = undefined;
+    user.passwordChangedAt = new Date();
+    user.isEmailVerified = true; // Using the emailed link proves the address
+    await user.save();
+
+    // Sign out every existing session
+    await revokeAllSessions(user._id);
+    signOutUserSockets(user._id);
+
+    res.json({ message: "Password reset. Please log in with your new password." });
+  } catch (error) {
+    if (error.name === "ValidationError") {
+      const message = Object.values(error.errors)
+        .map((fieldError) => fieldError.message)
+        .join(" ");
+      return res.status(400).json({ message: message });
+    }
+    console.error(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
 // @desc Update user profile picture
 // @route PATCH /api/auth/profile-picture
 // @access Private
@@ -151,6 +429,14 @@ const updateUserProfilePicture = async (req, res) => {
 module.exports = {
   registerUser,
   loginUser,
+  refreshAccessToken,
+  logoutUser,
+  getSessions,
+  deleteSession,
   verifyUserToken,
+  verifyEmail,
+  resendOtp,
+  forgotPassword,
+  resetPassword,
   updateUserProfilePicture,
 };
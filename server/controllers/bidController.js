@@ -2,32 +2,513 @@
 const mongoose = require("mongoose");
 const Bid = require("../models/Bid");
 const Auction = require("../models/Auction");
-const User = require("../models/User"); // Optional: if needed for further checks
-
-// --- Helper Function for Error Handling ---
-const handleServerError = (
-  res,
-  error,
-  message = "An internal server error occurred."
-) => {
-  console.error(error);
-  // Avoid sending detailed Mongoose/DB errors to the client in production
-  const errorMessage =
-    process.env.NODE_ENV === "production" ? message : error.message;
-  res
-    .status(500)
-    .json({
-      success: false,
-      message: errorMessage,
-      error: process.env.NODE_ENV !== "production" ? error : undefined,
+const ProxyBid = require("../models/ProxyBid");
+const BidRetraction = require("../models/BidRetraction");
+const {
+  resolveProxyBids,
+  allocateLotUnits,
+  recomputeBiddingState,
+  getBidWriteGuard,
+} = require("../utils/bidUtils");
+const {
+  startOptionalTransaction,
+  isTransientTransactionError,
+} = require("../utils/dbUtils");
+const { runInBidQueue } = require("../utils/bidQueue");
+const { notifyWatchers } = require("../utils/watchUtils");
+const { notifyOutbid } = require("../utils/notificationUtils");
+const { handleServerError } = require("../utils/errorUtils");
+
+// Bids can't be retracted once an auction is this close to its end
+const RETRACTION_CUTOFF_MINUTES = parseInt(
+  process.env.BID_RETRACTION_CUTOFF_MINUTES || "60",
+  10
+);
+
+// Attempts at a bid write before giving up with a 409
+const MAX_BID_ATTEMPTS = 3;
+
+// --- Helpers for placeBid attempts ---
+// Each attempt returns { status, body, afterCommit?, notify? } for placeBid to
+// send, or null when the auction changed under it and the attempt should be
+// retried. afterCommit broadcasts before the response; notify runs after it.
+const rejectBid = (status, message, extra = {}) => ({
+  status,
+  body: { success: false, message, ...extra },
+});
+
+// Runs the writes that follow a bid's auction compare-and-set. In a
+// transaction a failure rolls them back with the auction write. Without one
+// the auction write has already landed, so the attempt's saved bids are
+// deleted and the auction rebuilt from the bids that remain: currentBid and
+// bidCount never count a Bid record that doesn't exist. Safe because the bid
+// queue keeps other bids on the auction waiting meanwhile.
+const completeBidWrite = async (auction, session, bids, write) => {
+  try {
+    await write();
+  } catch (error) {
+    if (!session) {
+      try {
+        await Bid.deleteMany({ _id: { $in: bids.map((bid) => bid._id) } });
+        const biddingState = await recomputeBiddingState(auction);
+        await Auction.updateOne(
+          { _id: auction._id },
+          {
+            $set: {
+              ...biddingState,
+              endTime: auction.endTime,
+              extensionCount: auction.extensionCount,
+            },
+          }
+        );
+      } catch (undoError) {
+        console.error(`Failed to undo a bid on auction ${auction._id}:`, undoError);
+      }
+    }
+    throw error;
+  }
+};
+
+// The public bidding state sent back with a bid, or with a 409
+const getBiddingState = (auction) => ({
+  _id: auction._id,
+  currentBid: auction.currentBid,
+  highestBidder: auction.bidsSealed ? null : auction.highestBidder,
+  bidCount: auction.bidCount,
+  minimumNextBid: auction.minimumNextBid,
+  reserveMet: auction.reserveMet,
+  buyNowAvailable: auction.buyNowAvailable,
+  endTime: auction.endTime,
+  status: auction.status,
+  extensionCount: auction.extensionCount,
+  ...(auction.isMultiUnit && {
+    unitsAvailable: auction.unitsAvailable,
+    allocations: auction.allocations,
+  }),
+});
+
+// --- Place a Sealed Bid (one placeBid attempt) ---
+// One secret bid per bidder, at least the starting bid. The auction's
+// currentBid/highestBidder are left alone so nothing leaks before close; the
+// lifecycle job ranks the bids and prices the sale when it settles.
+const placeSealedBid = async (req, auction, session, now) => {
+  const { amount, maxAmount } = req.body;
+  const bidderId = req.user.id;
+  const auctionId = auction._id.toString();
+
+  if (amount === undefined || maxAmount !== undefined) {
+    return rejectBid(400, "Sealed-bid auctions take a single bid amount, not a maximum bid.");
+  }
+  if (amount < auction.startingBid) {
+    return rejectBid(400, `Your bid must be at least the starting bid of ${auction.startingBid}.`);
+  }
+  const alreadyBid = await Bid.exists({ auction: auctionId, bidder: bidderId, isRetracted: false }).session(session);
+  if (alreadyBid) {
+    return rejectBid(400, "You have already placed your sealed bid on this auction.");
+  }
+
+  const updatedAuction = await Auction.findOneAndUpdate(
+    getBidWriteGuard(auction, now),
+    { $inc: { bidCount: 1, bidSequence: 1 } },
+    { new: true, session: session }
+  );
+  if (!updatedAuction) return null;
+
+  const bid = new Bid({
+    auction: auctionId,
+    bidder: bidderId,
+    amount: amount,
+    sequence: updatedAuction.bidSequence,
+    createdAt: now,
+  });
+  await completeBidWrite(auction, session, [bid], () => bid.save({ session: session }));
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      message: "Your sealed bid was placed. Bids are revealed when the auction closes.",
+      bid: bid, // The bidder's own bid, amount included
+      autoBids: [],
+      isHighestBidder: false, // Not known until the auction closes
+      proxyBid: null,
+      auction: getBiddingState(updatedAuction),
+    },
+    // Others only learn that a bid came in
+    afterCommit: async (io) => {
+      io.to(auctionId).emit("sealed_bid", {
+        auctionId: auctionId,
+        bidCount: updatedAuction.bidCount,
+        bid: { _id: bid._id, sequence: bid.sequence, createdAt: bid.createdAt, isSealed: true },
+      });
+    },
+  };
+};
+
+// --- Place a Bid on a Multi-Unit Lot (one placeBid attempt) ---
+// Body: { amount, quantity? }. amount is per unit. A bidder's new bid replaces
+// their earlier one; the units are then reallocated across all standing bids
+// and currentBid becomes the clearing price, the lowest winning bid.
+const placeLotBid = async (req, auction, session, now) => {
+  const { amount, maxAmount, quantity = 1 } = req.body;
+  const bidderId = req.user.id;
+  const auctionId = auction._id.toString();
+
+  if (amount === undefined || maxAmount !== undefined) {
+    return rejectBid(400, "Multi-unit lots take a bid amount per unit, not a maximum bid.");
+  }
+  if (quantity > auction.quantity) {
+    return rejectBid(400, `This lot only has ${auction.quantity} units.`);
+  }
+  const minimumNextBid = auction.minimumNextBid;
+  if (amount < minimumNextBid) {
+    return rejectBid(
+      400,
+      auction.unitsAvailable > 0
+        ? `Your bid must be at least the starting bid of ${auction.startingBid} per unit.`
+        : `Your bid must be at least ${minimumNextBid} per unit, above the lowest winning bid of ${auction.currentBid}.`,
+      { currentBid: auction.currentBid, minimumNextBid: minimumNextBid }
+    );
+  }
+  const previousBid = await Bid.findOne({ auction: auctionId, bidder: bidderId, isRetracted: false })
+    .sort({ sequence: -1, createdAt: -1 })
+    .session(session);
+  if (previousBid && amount < previousBid.amount) {
+    return rejectBid(400, `Your new bid can't be lower than your current bid of ${previousBid.amount} per unit.`);
+  }
+
+  const bid = new Bid({ auction: auctionId, bidder: bidderId, amount: amount, quantity: quantity, createdAt: now });
+  const allocations = await allocateLotUnits(auction, session, [bid]);
+  const extendedEndTime = auction.getSoftCloseEndTime(now);
+  const updatedAuction = await Auction.findOneAndUpdate(
+    getBidWriteGuard(auction, now),
+    {
+      $set: {
+        allocations: allocations,
+        currentBid: allocations[allocations.length - 1].amount,
+        highestBidder: allocations[0].bidder,
+        ...(extendedEndTime && { endTime: extendedEndTime }),
+      },
+      $inc: {
+        bidCount: 1,
+        bidSequence: 1,
+        ...(extendedEndTime && { extensionCount: 1 }),
+      },
+    },
+    { new: true, session: session }
+  ).select("+reservePrice");
+  if (!updatedAuction) return null;
+
+  bid.sequence = updatedAuction.bidSequence;
+  await completeBidWrite(auction, session, [bid], () => bid.save({ session: session }));
+
+  const ownAllocation = allocations.find((allocation) => allocation.bid.equals(bid._id));
+  const filledQuantity = ownAllocation ? ownAllocation.quantity : 0;
+
+  return {
+    status: 201,
+    body: {
+      success: true,
+      message: filledQuantity === quantity
+        ? "Bid placed successfully!"
+        : `Bid placed. It currently wins ${filledQuantity} of the ${quantity} units you asked for.`,
+      bid: { ...bid.toObject(), filledQuantity: filledQuantity },
+      autoBids: [],
+      isHighestBidder: filledQuantity > 0, // Holding at least one unit
+      proxyBid: null,
+      auction: getBiddingState(updatedAuction),
+    },
+    afterCommit: async (io) => {
+      const populatedBid = await Bid.findById(bid._id).populate("bidder", "name profilePictureUrl _id");
+      io.to(auctionId).emit("new_bid", {
+        auctionId: auctionId,
+        currentBid: updatedAuction.currentBid,
+        highestBidder: populatedBid.bidder,
+        bidCount: updatedAuction.bidCount,
+        minimumNextBid: updatedAuction.minimumNextBid,
+        reserveMet: updatedAuction.reserveMet,
+        buyNowAvailable: false,
+        unitsAvailable: updatedAuction.unitsAvailable,
+        allocations: updatedAuction.allocations,
+        bid: populatedBid,
+      });
+      if (extendedEndTime) {
+        io.to(auctionId).emit("auction_extended", {
+          auctionId: auctionId,
+          endTime: updatedAuction.endTime,
+          status: updatedAuction.status,
+          extensionCount: updatedAuction.extensionCount,
+        });
+      }
+    },
+    notify: async () => {
+      // Bidders who held units before this bid and now hold none
+      const outbidBidders = auction.allocations
+        .map((allocation) => allocation.bidder)
+        .filter(
+          (holder) =>
+            !holder.equals(bidderId) &&
+            !allocations.some((allocation) => allocation.bidder.equals(holder))
+        );
+      await notifyOutbid(outbidBidders, updatedAuction);
+      await notifyWatchers(updatedAuction, "new_high_bid", [
+        bidderId,
+        ...outbidBidders,
+      ]);
+    },
+  };
+};
+
+// --- Place an English Auction Bid (one placeBid attempt) ---
+// Works out every bid the request produces (the bidder's own, then automatic
+// bids from competing proxies) without writing, then writes the auction with
+// a compare-and-set before recording the bids and the proxy ceiling.
+const placeEnglishBid = async (req, auction, session, now) => {
+  const { amount, maxAmount, quantity } = req.body;
+  const bidderId = req.user.id;
+  const auctionId = auction._id.toString();
+
+  if (quantity !== undefined && quantity !== 1) {
+    return rejectBid(400, "This auction is for a single item.");
+  }
+
+  const isLeading =
+    !!auction.highestBidder && auction.highestBidder.equals(bidderId);
+  const minimumNextBid = auction.minimumNextBid; // Current bid plus the increment rule
+  // A leader who only raises their ceiling doesn't bid against themselves
+  const bidAmount =
+    amount !== undefined ? amount : isLeading ? null : minimumNextBid;
+
+  if (
+    bidAmount !== null &&
+    auction.bidCount > 0 &&
+    bidAmount < minimumNextBid
+  ) {
+    return rejectBid(
+      400,
+      `Your bid must be at least ${minimumNextBid}, the current bid of ${auction.currentBid} plus the minimum increment.`,
+      {
+        currentBid: auction.currentBid, // Send current bid for frontend context
+        minimumNextBid: minimumNextBid,
+      }
+    );
+  }
+
+  // Check against starting bid if it's the first bid potentially
+  if (
+    auction.bidCount === 0 &&
+    bidAmount !== null &&
+    bidAmount < auction.startingBid
+  ) {
+    return rejectBid(
+      400,
+      `The first bid must be at least the starting bid of ${auction.startingBid}.`,
+      { startingBid: auction.startingBid, minimumNextBid: minimumNextBid }
+    );
+  }
+
+  if (
+    maxAmount !== undefined &&
+    (maxAmount < (bidAmount ?? 0) ||
+      (auction.bidCount > 0 && maxAmount <= auction.currentBid))
+  ) {
+    return rejectBid(
+      400,
+      `Your maximum bid must be higher than the current bid of ${auction.currentBid}.`,
+      { currentBid: auction.currentBid }
+    );
+  }
+
+  // 1. Work out every bid this request produces: the bidder's own bid,
+  //    then any automatic bids from competing proxies (including the
+  //    ceiling this request sets, which isn't saved yet)
+  const pendingBids = [];
+  if (bidAmount !== null) {
+    pendingBids.push({
+      bidder: bidderId,
+      amount: bidAmount,
+      isAutoBid: false,
     });
+  }
+  const lastBid = pendingBids[pendingBids.length - 1];
+  const autoBids = await resolveProxyBids(
+    auction,
+    {
+      currentBid: lastBid ? lastBid.amount : auction.currentBid,
+      highestBidder: lastBid ? lastBid.bidder : auction.highestBidder,
+    },
+    session,
+    maxAmount !== undefined
+      ? { bidder: bidderId, maxAmount: maxAmount, updatedAt: now }
+      : null
+  );
+  autoBids.forEach((autoBid) =>
+    pendingBids.push({ ...autoBid, isAutoBid: true })
+  );
+
+  // 2. Compare-and-set the auction, pushing endTime out if the bid landed
+  //    inside the soft-close window. A leader only raising their ceiling
+  //    changes nothing on the auction but still checks it is unchanged.
+  const finalBid = pendingBids[pendingBids.length - 1];
+  const extendedEndTime = finalBid ? auction.getSoftCloseEndTime(now) : null;
+  const updatedAuction = await Auction.findOneAndUpdate(
+    getBidWriteGuard(auction, now),
+    finalBid
+      ? {
+          $set: {
+            currentBid: finalBid.amount,
+            highestBidder: finalBid.bidder,
+            ...(extendedEndTime && { endTime: extendedEndTime }),
+          },
+          $inc: {
+            bidCount: pendingBids.length,
+            bidSequence: pendingBids.length,
+            ...(extendedEndTime && { extensionCount: 1 }),
+          },
+        }
+      : { $inc: { bidCount: 0 } },
+    { new: true, session: session } // Return the updated document, use session
+  ).select("+reservePrice");
+  if (!updatedAuction) return null;
+
+  // 3. Create the Bid records, in order, numbered from the sequence the
+  //    auction write reserved for them, then record the bidder's proxy
+  //    ceiling, if any
+  const firstSequence = updatedAuction.bidSequence - pendingBids.length + 1;
+  const newBids = pendingBids.map(
+    (pendingBid, index) =>
+      new Bid({
+        auction: auctionId,
+        ...pendingBid,
+        sequence: firstSequence + index,
+        createdAt: now,
+      })
+  );
+  let proxyBid = null;
+  await completeBidWrite(auction, session, newBids, async () => {
+    for (const newBid of newBids) {
+      await newBid.save({ session: session });
+    }
+    if (maxAmount !== undefined) {
+      proxyBid = await ProxyBid.findOneAndUpdate(
+        { auction: auctionId, bidder: bidderId },
+        { $set: { maxAmount: maxAmount, isActive: true } },
+        { new: true, upsert: true, setDefaultsOnInsert: true, session: session }
+      );
+    }
+  });
+
+  const ownBid = bidAmount !== null ? newBids[0] : null;
+  return {
+    status: 201,
+    body: {
+      success: true,
+      message: ownBid
+        ? "Bid placed successfully!"
+        : "Maximum bid updated successfully!",
+      bid: ownBid, // Send the bidder's own bid details (null if only the ceiling changed)
+      autoBids: newBids.filter((bid) => bid.isAutoBid),
+      isHighestBidder: updatedAuction.highestBidder?.equals(bidderId) ?? false,
+      proxyBid: proxyBid
+        ? { maxAmount: proxyBid.maxAmount, isActive: proxyBid.isActive }
+        : null,
+      auction: getBiddingState(updatedAuction),
+    },
+    // --- Emit WebSocket events for real-time update, one per recorded bid ---
+    afterCommit: async (io) => {
+      if (newBids.length > 0) {
+        const populatedBids = await Bid.find({
+          _id: { $in: newBids.map((bid) => bid._id) },
+        }).populate("bidder", "name profilePictureUrl _id");
+        const bidsById = new Map(
+          populatedBids.map((bid) => [bid._id.toString(), bid])
+        );
+
+        newBids.forEach((newBid, index) => {
+          const bid = bidsById.get(newBid._id.toString()) || newBid;
+          io.to(auctionId).emit("new_bid", {
+            auctionId: auctionId,
+            currentBid: bid.amount,
+            highestBidder: bid.bidder,
+            bidCount: updatedAuction.bidCount - newBids.length + index + 1,
+            minimumNextBid: updatedAuction.getNextBidAbove(bid.amount),
+            reserveMet: updatedAuction.isReserveMetAt(bid.amount),
+            buyNowAvailable: updatedAuction.buyNowAvailable,
+            bid: bid,
+          });
+        });
+      }
+      if (extendedEndTime) {
+        io.to(auctionId).emit("auction_extended", {
+          auctionId: auctionId,
+          endTime: updatedAuction.endTime,
+          status: updatedAuction.status,
+          extensionCount: updatedAuction.extensionCount,
+        });
+      }
+    },
+    // The previous leader hears they were outbid; other watchers about the new high bid
+    notify: async () => {
+      if (newBids.length === 0) return;
+      const previousLeader = auction.highestBidder;
+      const lostLead =
+        !!previousLeader && !previousLeader.equals(updatedAuction.highestBidder);
+      if (lostLead) await notifyOutbid([previousLeader], updatedAuction);
+      await notifyWatchers(updatedAuction, "new_high_bid", [
+        bidderId,
+        updatedAuction.highestBidder,
+        lostLead ? previousLeader : null,
+      ]);
+    },
+  };
+};
+
+// --- One placeBid attempt: read, validate and write against one snapshot ---
+const attemptBid = async (req, session) => {
+  const { auctionId } = req.params;
+  const bidderId = req.user.id;
+  const now = new Date();
+
+  const auction = await Auction.findById(auctionId)
+    .select("+reservePrice") // For the reserveMet flag; never sent to bidders
+    .session(session);
+
+  if (!auction) return rejectBid(404, "Auction not found.");
+
+  if (auction.seller.toString() === bidderId.toString()) {
+    return rejectBid(403, "Sellers cannot bid on their own auctions.");
+  }
+
+  if (!auction.isAcceptingBids(now)) {
+    return rejectBid(400, `Auction is not accepting bids. Status: ${auction.status}`);
+  }
+
+  if (auction.auctionType === "dutch") {
+    return rejectBid(400, "Dutch auctions don't take bids. Accept the current price instead.");
+  }
+
+  if (auction.auctionType === "sealed") {
+    return placeSealedBid(req, auction, session, now);
+  }
+  if (auction.isMultiUnit) {
+    return placeLotBid(req, auction, session, now);
+  }
+  return placeEnglishBid(req, auction, session, now);
 };
 
 // --- Place a New Bid ---
+// Body: { amount, maxAmount? } or { maxAmount } alone.
+// With maxAmount the bidder also sets a private proxy ceiling, and the server
+// keeps bidding on their behalf up to it whenever they are outbid.
+// Multi-unit lots also take a quantity, see placeLotBid.
+// Each attempt runs in a transaction where MongoDB supports one, and its
+// auction write is a compare-and-set either way (see getBidWriteGuard); on a
+// standalone server a failed write after it is undone by completeBidWrite.
+// If other bids keep landing first, the request fails with a 409 and the
+// fresh bidding state after MAX_BID_ATTEMPTS tries.
 exports.placeBid = async (req, res) => {
   const { auctionId } = req.params;
-  const { amount } = req.body;
-  const bidderId = req.user.id; // Assuming auth middleware adds user info to req.user
+  const { amount, maxAmount, quantity } = req.body;
 
   if (!mongoose.Types.ObjectId.isValid(auctionId)) {
     return res
@@ -35,7 +516,16 @@ exports.placeBid = async (req, res) => {
       .json({ success: false, message: "Invalid Auction ID format." });
   }
 
-  if (typeof amount !== "number" || amount <= 0) {
+  if (amount === undefined && maxAmount === undefined) {
+    return res
+      .status(400)
+      .json({
+        success: false,
+        message: "A bid amount or a maximum bid is required.",
+      });
+  }
+
+  if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
     return res
       .status(400)
       .json({
@@ -44,127 +534,144 @@ exports.placeBid = async (req, res) => {
       });
   }
 
-  // Use a transaction for atomicity: create Bid record AND update Auction together
-  const session = await mongoose.startSession();
-  session.startTransaction();
+  if (
+    maxAmount !== undefined &&
+    (typeof maxAmount !== "number" ||
+      maxAmount <= 0 ||
+      (amount !== undefined && maxAmount < amount))
+  ) {
+    return res
+      .status(400)
+      .json({
+        success: false,
+        message:
+          "Invalid maximum bid. Must be a positive number no lower than your bid.",
+      });
+  }
+
+  if (
+    quantity !== undefined &&
+    (!Number.isInteger(quantity) || quantity < 1)
+  ) {
+    return res
+      .status(400)
+      .json({
+        success: false,
+        message: "Invalid quantity. Must be a whole number of at least 1.",
+      });
+  }
 
   try {
-    // 1. Find the auction within the transaction
-    const auction = await Auction.findById(auctionId).session(session);
+    for (let attempt = 1; attempt <= MAX_BID_ATTEMPTS; attempt += 1) {
+      const transaction = await startOptionalTransaction();
+      let result;
+      try {
+        result = await attemptBid(req, transaction.session);
+      } catch (error) {
+        await transaction.abort();
+        // Concurrent bids in transactions: the loser gets a write conflict
+        if (isTransientTransactionError(error)) continue;
+        throw error;
+      }
 
-    // 2. Perform Validations
-    if (!auction) {
-      await session.abortTransaction();
-      session.endSession();
-      return res
-        .status(404)
-        .json({ success: false, message: "Auction not found." });
-    }
+      if (!result) {
+        await transaction.abort(); // Another bid landed first; try again
+        continue;
+      }
+      if (result.status >= 400) {
+        await transaction.abort();
+        return res.status(result.status).json(result.body);
+      }
 
-    if (auction.seller.toString() === bidderId) {
-      await session.abortTransaction();
-      session.endSession();
-      return res
-        .status(403)
-        .json({
-          success: false,
-          message: "Sellers cannot bid on their own auctions.",
-        });
+      await transaction.commit();
+      if (req.io && result.afterCommit) {
+        // The bid is committed; a failed broadcast mustn't turn it into an error
+        await result
+          .afterCommit(req.io)
+          .catch((error) => console.error("Failed to broadcast bid:", error));
+      }
+      res.status(result.status).json(result.body);
+      // After responding, which releases the auction's bid queue, so fanning
+      // out to watchers doesn't hold up this bid or the ones behind it
+      if (result.notify) {
+        result
+          .notify()
+          .catch((error) => console.error("Failed to send bid notifications:", error));
+      }
+      return;
     }
 
-    const auctionStatus = auction.status; // Use the virtual getter
-    if (auctionStatus !== "active" && auctionStatus !== "ending-soon") {
-      await session.abortTransaction();
-      session.endSession();
-      return res
-        .status(400)
-        .json({
-          success: false,
-          message: `Auction is not active. Status: ${auctionStatus}`,
-        });
-    }
+    const freshAuction = await Auction.findById(auctionId).select("+reservePrice");
+    res.status(409).json({
+      success: false,
+      message:
+        "Other bids were placed at the same moment. Check the current bid and try again.",
+      auction: freshAuction ? getBiddingState(freshAuction) : null,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to place bid due to a server error.");
+  }
+};
 
-    if (amount <= auction.currentBid) {
-      await session.abortTransaction();
-      session.endSession();
-      return res.status(400).json({
-        success: false,
-        message: `Your bid must be higher than the current bid of ${auction.currentBid}.`,
-        currentBid: auction.currentBid, // Send current bid for frontend context
-      });
-    }
+// --- Get the Logged-in User's Proxy (Maximum) Bid for an Auction ---
+exports.getMyProxyBid = async (req, res) => {
+  const { auctionId } = req.params;
+  const userId = req.user.id;
 
-    // Check against starting bid if it's the first bid potentially
-    if (auction.bidCount === 0 && amount < auction.startingBid) {
-      await session.abortTransaction();
-      session.endSession();
-      return res.status(400).json({
-        success: false,
-        message: `The first bid must be at least the starting bid of ${auction.startingBid}.`,
-        startingBid: auction.startingBid,
-      });
-    }
+  if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid Auction ID format." });
+  }
 
-    // 3. Update the Auction within the transaction
-    const updatedAuction = await Auction.findByIdAndUpdate(
-      auctionId,
-      {
-        $set: {
-          currentBid: amount,
-          highestBidder: bidderId,
-        },
-        $inc: { bidCount: 1 },
-      },
-      { new: true, session: session } // Return the updated document, use session
+  try {
+    const proxyBid = await ProxyBid.findOne({
+      auction: auctionId,
+      bidder: userId,
+      isActive: true,
+    }).select("maxAmount isActive updatedAt");
+
+    res.status(200).json({
+      success: true,
+      proxyBid: proxyBid, // null if the user has no active ceiling
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve your maximum bid.");
+  }
+};
+
+// --- Cancel the Logged-in User's Proxy (Maximum) Bid for an Auction ---
+// Bids already placed on the user's behalf stand; only future automatic bids stop.
+exports.cancelProxyBid = async (req, res) => {
+  const { auctionId } = req.params;
+  const userId = req.user.id;
+
+  if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid Auction ID format." });
+  }
+
+  try {
+    const proxyBid = await ProxyBid.findOneAndUpdate(
+      { auction: auctionId, bidder: userId, isActive: true },
+      { $set: { isActive: false } },
+      { new: true }
     );
 
-    if (!updatedAuction) {
-      // Should not happen if auction was found initially, but check defensively
-      throw new Error("Failed to update auction during bid placement.");
+    if (!proxyBid) {
+      return res
+        .status(404)
+        .json({ success: false, message: "No active maximum bid found." });
     }
 
-    // 4. Create the Bid record within the transaction
-    const newBid = new Bid({
-      auction: auctionId,
-      bidder: bidderId,
-      amount: amount,
-    });
-    await newBid.save({ session: session });
-
-    // 5. Commit the transaction
-    await session.commitTransaction();
-    session.endSession();
-
-    // --- Optional: Emit WebSocket event for real-time update ---
-    // if (req.io) { // Assuming io is attached to req object
-    //   req.io.to(auctionId).emit('new_bid', {
-    //     auctionId: auctionId,
-    //     bidderId: bidderId,
-    //     bidderName: req.user.name, // Get name from auth middleware if available
-    //     amount: amount,
-    //     bidCount: updatedAuction.bidCount,
-    //     timestamp: newBid.createdAt
-    //   });
-    // }
-
-    // 6. Send Response
-    res.status(201).json({
+    res.status(200).json({
       success: true,
-      message: "Bid placed successfully!",
-      bid: newBid, // Send the created bid details
-      auction: {
-        // Send updated auction state
-        _id: updatedAuction._id,
-        currentBid: updatedAuction.currentBid,
-        highestBidder: updatedAuction.highestBidder,
-        bidCount: updatedAuction.bidCount,
-      },
+      message: "Maximum bid cancelled.",
+      proxyBid: null,
     });
   } catch (error) {
-    // If any error occurs, abort the transaction
-    await session.abortTransaction();
-    session.endSession();
-    handleServerError(res, error, "Failed to place bid due to a server error.");
+    handleServerError(res, error, "Failed to cancel your maximum bid.");
   }
 };
 
@@ -180,17 +687,36 @@ exports.getBidsForAuction = async (req, res) => {
 
   try {
     // Optional: Check if auction exists first
-    const auctionExists = await Auction.findById(auctionId).select("_id");
-    if (!auctionExists) {
+    const auction = await Auction.findById(auctionId).select("auctionType status");
+    if (!auction) {
       return res
         .status(404)
         .json({ success: false, message: "Auction not found." });
     }
 
+    // Sealed bids are only revealed once the auction has closed
+    if (auction.bidsSealed) {
+      const sealedBids = await Bid.find({ auction: auctionId })
+        .select("_id sequence createdAt isRetracted")
+        .sort({ sequence: -1, createdAt: -1 });
+      return res.status(200).json({
+        success: true,
+        count: sealedBids.length,
+        sealed: true,
+        bids: sealedBids.map((bid) => ({
+          _id: bid._id,
+          sequence: bid.sequence,
+          createdAt: bid.createdAt,
+          isSealed: true,
+          isRetracted: bid.isRetracted,
+        })),
+      });
+    }
+
     // Find bids, populate bidder info (select only needed fields), sort by newest first
     const bids = await Bid.find({ auction: auctionId })
       .populate("bidder", "name profilePictureUrl _id") // Select non-sensitive bidder fields
-      .sort({ createdAt: -1 }); // Newest bids first
+      .sort({ sequence: -1, createdAt: -1 }); // Newest first; unsequenced older bids sort last
 
     res.status(200).json({
       success: true,
@@ -211,18 +737,27 @@ exports.getMyBids = async (req, res) => {
       .populate({
         // Populate auction details
         path: "auction",
-        select: "title imageUrl endTime currentBid status highestBidder", // Select desired fields
+        // reservePrice is only loaded for the reserveMet flag; toObject() drops it
+        select:
+          "title imageUrl auctionType quantity allocations status startTime endTime currentBid bidCount highestBidder reservePrice closedAt outcome winner hammerPrice",
       })
       .sort({ createdAt: -1 }); // Show user's most recent bids first
 
     // Optionally, add auction status or if the user is the current highest bidder
     const bidsWithStatus = bids.map((bid) => {
       const bidObj = bid.toObject(); // Convert Mongoose doc to plain object
-      if (bidObj.auction) {
+      if (bidObj.auction?.quantity > 1) {
+        // Multi-unit lot: how many units this bid holds right now (or won)
+        const allocation = bidObj.auction.allocations.find(
+          (entry) => entry.bid.toString() === bidObj._id.toString()
+        );
+        bidObj.filledQuantity = allocation ? allocation.quantity : 0;
+        bidObj.isHighestBidder = bidObj.filledQuantity > 0;
+        delete bidObj.auction.allocations; // Other bidders' holdings aren't needed here
+      } else if (bidObj.auction) {
         // Check if auction was populated successfully
         bidObj.isHighestBidder =
-          bidObj.auction.highestBidder?.toString() === userId;
-        // Keep auction status from virtual if needed (it's already there if populated)
+          bidObj.auction.highestBidder?.toString() === userId.toString();
       } else {
         bidObj.isHighestBidder = false; // Auction data might be missing if deleted etc.
       }
@@ -238,3 +773,332 @@ exports.getMyBids = async (req, res) => {
     handleServerError(res, error, "Failed to retrieve your bids.");
   }
 };
+
+
+// --- Request a Bid Retraction ---
+// Body: { reason }. Only the bidder can ask, while the auction is live and
+// not yet in its final RETRACTION_CUTOFF_MINUTES. Nothing changes until an
+// admin approves the request.
+exports.requestBidRetraction = async (req, res) => {
+  const { auctionId, bidId } = req.params;
+  const { reason } = req.body;
+  const userId = req.user.id;
+
+  if (
+    !mongoose.Types.ObjectId.isValid(auctionId) ||
+    !mongoose.Types.ObjectId.isValid(bidId)
+  ) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid Auction or Bid ID format." });
+  }
+
+  if (typeof reason !== "string" || !reason.trim()) {
+    return res
+      .status(400)
+      .json({ success: false, message: "A reason for the retraction is required." });
+  }
+
+  try {
+    const bid = await Bid.findOne({ _id: bidId, auction: auctionId });
+    if (!bid) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Bid not found." });
+    }
+
+    if (!bid.bidder.equals(userId)) {
+      return res
+        .status(403)
+        .json({ success: false, message: "You can only retract your own bids." });
+    }
+
+    if (bid.isRetracted) {
+      return res
+        .status(400)
+        .json({ success: false, message: "This bid has already been retracted." });
+    }
+
+    if (bid.isBuyNow || bid.isAcceptance) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Purchases can't be retracted." });
+    }
+
+    const auction = await Auction.findById(auctionId).select("status startTime endTime");
+    if (!auction || !auction.isAcceptingBids()) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Bids can only be retracted while the auction is live." });
+    }
+
+    const cutoff = new Date(
+      new Date(auction.endTime).getTime() - RETRACTION_CUTOFF_MINUTES * 60 * 1000
+    );
+    if (new Date() >= cutoff) {
+      return res.status(400).json({
+        success: false,
+        message: `Bids can't be retracted in the last ${RETRACTION_CUTOFF_MINUTES} minutes of an auction.`,
+      });
+    }
+
+    const pending = await BidRetraction.exists({ bid: bidId, status: "pending" });
+    if (pending) {
+      return res.status(409).json({
+        success: false,
+        message: "A retraction request for this bid is already waiting for review.",
+      });
+    }
+
+    const retraction = await BidRetraction.create({
+      auction: auctionId,
+      bid: bidId,
+      bidder: userId,
+      amount: bid.amount,
+      reason: reason,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Retraction requested. An admin will review it shortly.",
+      retraction: retraction,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to request the retraction.");
+  }
+};
+
+// --- List Bid Retraction Requests (Admin) ---
+// Query: status (pending by default, or approved, rejected, all). Oldest first.
+exports.getBidRetractions = async (req, res) => {
+  const { status = "pending" } = req.query;
+
+  if (!["pending", "approved", "rejected", "all"].includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: "Status must be pending, approved, rejected or all.",
+    });
+  }
+
+  try {
+    const retractions = await BidRetraction.find(
+      status === "all" ? {} : { status: status }
+    )
+      .populate("bidder", "name email profilePictureUrl")
+      .populate("auction", "title status endTime currentBid")
+      .populate("reviewedBy", "name")
+      .sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: retractions.length,
+      retractions: retractions,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve retraction requests.");
+  }
+};
+
+// --- Apply an Approved Retraction (one transaction where supported) ---
+// Flips the request from pending to approved as a compare-and-set, so only
+// one reviewer applies it, then marks the bid retracted, stops the bidder's
+// maximum bid and rebuilds the auction's bidding state. Without a transaction
+// a failure after the flip puts the request and the bid back (a stopped
+// maximum bid stays stopped), so the request can be approved again.
+// Returns { status, body } for a rejection, or the approved retraction and
+// the updated auction.
+const applyBidRetraction = async (retraction, reviewerId, note) => {
+  const { session, commit, abort } = await startOptionalTransaction();
+  const now = new Date();
+  let approved = null;
+  try {
+    const auction = await Auction.findById(retraction.auction)
+      .select("+reservePrice")
+      .session(session);
+    if (!auction || !auction.isAcceptingBids(now)) {
+      await abort();
+      return rejectBid(409, "The auction is no longer live, so the bid can't be retracted.");
+    }
+
+    approved = await BidRetraction.findOneAndUpdate(
+      { _id: retraction._id, status: "pending" },
+      {
+        $set: {
+          status: "approved",
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+          reviewNote: note || null,
+        },
+      },
+      { new: true, session: session }
+    );
+    if (!approved) {
+      await abort();
+      return rejectBid(409, "This request has already been reviewed.");
+    }
+
+    await Bid.updateOne(
+      { _id: approved.bid },
+      { $set: { isRetracted: true, retractedAt: now } },
+      { session: session }
+    );
+    await ProxyBid.updateOne(
+      { auction: auction._id, bidder: approved.bidder, isActive: true },
+      { $set: { isActive: false } },
+      { session: session }
+    );
+
+    const biddingState = await recomputeBiddingState(auction, session);
+    const updatedAuction = await Auction.findOneAndUpdate(
+      { _id: auction._id, status: "live" },
+      { $set: biddingState },
+      { new: true, session: session }
+    ).select("+reservePrice");
+    if (!updatedAuction) {
+      const error = new Error("The auction closed while the bid was being retracted.");
+      error.statusCode = 409;
+      throw error;
+    }
+
+    await commit();
+    return { retraction: approved, auction: updatedAuction };
+  } catch (error) {
+    await abort();
+    if (!session && approved) {
+      await Promise.all([
+        BidRetraction.updateOne(
+          { _id: approved._id, status: "approved" },
+          { $set: { status: "pending", reviewedBy: null, reviewedAt: null, reviewNote: null } }
+        ),
+        Bid.updateOne(
+          { _id: approved.bid },
+          { $set: { isRetracted: false, retractedAt: null } }
+        ),
+      ]).catch((undoError) =>
+        console.error(`Failed to undo retraction ${approved._id}:`, undoError)
+      );
+    }
+    throw error;
+  }
+};
+
+// --- Approve a Bid Retraction (Admin) ---
+// Body: { note? }. Marks the bid retracted (it stays in the history), stops
+// the bidder's maximum bid and rebuilds the auction's bidding state from the
+// remaining bids, see applyBidRetraction. Runs in the auction's bid queue.
+exports.approveBidRetraction = async (req, res) => {
+  const { retractionId } = req.params;
+  const { note } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(retractionId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid retraction ID format." });
+  }
+
+  try {
+    const retraction = await BidRetraction.findById(retractionId);
+    if (!retraction) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Retraction request not found." });
+    }
+    if (retraction.status !== "pending") {
+      return res.status(409).json({
+        success: false,
+        message: `This request was already ${retraction.status}.`,
+      });
+    }
+
+    // Behind any bid already queued for the auction, like a ban's retractions
+    const result = await runInBidQueue(retraction.auction.toString(), () =>
+      applyBidRetraction(retraction, req.user.id, note)
+    );
+    if (result.status) return res.status(result.status).json(result.body);
+    const { auction: updatedAuction } = result;
+
+    const auctionState = {
+      currentBid: updatedAuction.currentBid,
+      highestBidder: updatedAuction.highestBidder,
+      bidCount: updatedAuction.bidCount,
+      minimumNextBid: updatedAuction.minimumNextBid,
+      reserveMet: updatedAuction.reserveMet,
+      buyNowAvailable: updatedAuction.buyNowAvailable,
+      ...(updatedAuction.isMultiUnit && {
+        unitsAvailable: updatedAuction.unitsAvailable,
+        allocations: updatedAuction.allocations,
+      }),
+    };
+
+    if (req.io) {
+      await updatedAuction.populate("highestBidder", "name profilePictureUrl _id");
+      req.io.to(updatedAuction._id.toString()).emit("bid_retracted", {
+        auctionId: updatedAuction._id.toString(),
+        bidId: retraction.bid,
+        ...auctionState,
+        highestBidder: updatedAuction.highestBidder,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Retraction approved and the bidding state recalculated.",
+      retraction: result.retraction,
+      auction: { _id: updatedAuction._id, ...auctionState },
+    });
+  } catch (error) {
+    if (isTransientTransactionError(error)) {
+      return res.status(409).json({
+        success: false,
+        message: "The auction changed while the bid was being retracted. Please try again.",
+      });
+    }
+    handleServerError(res, error, "Failed to approve the retraction.");
+  }
+};
+
+// --- Reject a Bid Retraction (Admin) ---
+// Body: { note? }. The bid stands.
+exports.rejectBidRetraction = async (req, res) => {
+  const { retractionId } = req.params;
+  const { note } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(retractionId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid retraction ID format." });
+  }
+
+  try {
+    const retraction = await BidRetraction.findOneAndUpdate(
+      { _id: retractionId, status: "pending" },
+      {
+        $set: {
+          status: "rejected",
+          reviewedBy: req.user.id,
+          reviewedAt: new Date(),
+          reviewNote: note || null,
+        },
+      },
+      { new: true }
+    );
+
+    if (!retraction) {
+      const exists = await BidRetraction.exists({ _id: retractionId });
+      return res.status(exists ? 409 : 404).json({
+        success: false,
+        message: exists
+          ? "This request has already been reviewed."
+          : "Retraction request not found.",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Retraction rejected.",
+      retraction: retraction,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to reject the retraction.");
+  }
+};
@@ -0,0 +1,109 @@
+// controllers/notificationController.js
+const mongoose = require("mongoose");
+const Notification = require("../models/Notification");
+const { handleServerError } = require("../utils/errorUtils");
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+
+// --- Get the Logged-in User's Notifications ---
+// Query: ?unread=true for unread ones only, page, limit. Newest first.
+exports.getMyNotifications = async (req, res) => {
+  const userId = req.user.id;
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.max(
+    Math.min(parseInt(req.query.limit, 10) || DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT),
+    1
+  );
+
+  const filter = { user: userId };
+  if (req.query.unread === "true") filter.readAt = null;
+
+  try {
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(filter),
+      Notification.countDocuments({ user: userId, readAt: null }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: notifications.length,
+      unreadCount: unreadCount,
+      pagination: {
+        total: total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit: limit,
+      },
+      notifications: notifications,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve notifications.");
+  }
+};
+
+// --- Mark One Notification as Read ---
+exports.markNotificationRead = async (req, res) => {
+  const { notificationId } = req.params;
+  const userId = req.user.id;
+
+  if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid notification ID format." });
+  }
+
+  try {
+    const notification = await Notification.findOne({
+      _id: notificationId,
+      user: userId, // Users can only touch their own notifications
+    });
+    if (!notification) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Notification not found." });
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+    const unreadCount = await Notification.countDocuments({
+      user: userId,
+      readAt: null,
+    });
+
+    res.status(200).json({
+      success: true,
+      notification: notification,
+      unreadCount: unreadCount,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to mark the notification as read.");
+  }
+};
+
+// --- Mark All of the Logged-in User's Notifications as Read ---
+exports.markAllNotificationsRead = async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    const result = await Notification.updateMany(
+      { user: userId, readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "All notifications marked as read.",
+      updatedCount: result.modifiedCount,
+      unreadCount: 0,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to mark notifications as read.");
+  }
+};
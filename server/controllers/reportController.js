@@ -0,0 +1,353 @@
+// controllers/reportController.js
+const mongoose = require("mongoose");
+const Report = require("../models/Report");
+const Auction = require("../models/Auction");
+const User = require("../models/User");
+const { hasPermission } = require("../config/permissions");
+const { banUser, hideAuction } = require("../utils/moderationUtils");
+const { recordAudit } = require("../utils/auditUtils");
+const { notifyUser } = require("../utils/notificationUtils");
+const { handleServerError } = require("../utils/errorUtils");
+
+const MAX_REPORTS_PAGE_LIMIT = 100;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// One message for every failed field of a Mongoose ValidationError
+const validationMessage = (error) =>
+  Object.values(error.errors).map((err) => err.message).join(" ");
+
+// Populates a report for the moderation queue
+const populateReport = (query) =>
+  query
+    .populate({
+      path: "auction",
+      select: "title status currentBid bidCount endTime hiddenAt seller",
+      populate: { path: "seller", select: "name email isBanned banExpiresAt" },
+    })
+    .populate("reporter", "name email")
+    .populate("reviewedBy", "name");
+
+// --- Report an Auction ---
+// Body: { reasons: string[], details? }. One open report per user per auction.
+exports.createReport = async (req, res) => {
+  const auctionId = req.params.id;
+  const { reasons, details } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid auction ID format." });
+  }
+  if (!Array.isArray(reasons) || reasons.length === 0) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Please select at least one reason for reporting." });
+  }
+  if (details !== undefined && typeof details !== "string") {
+    return res
+      .status(400)
+      .json({ success: false, message: "Details must be text." });
+  }
+
+  try {
+    const auction = await Auction.findById(auctionId).select("seller status hiddenAt");
+    if (!auction || auction.status === "draft" || auction.hiddenAt) {
+      return res.status(404).json({ success: false, message: "Auction not found." });
+    }
+    if (auction.seller.equals(req.user.id)) {
+      return res
+        .status(400)
+        .json({ success: false, message: "You can't report your own auction." });
+    }
+
+    const report = await Report.create({
+      auction: auctionId,
+      reporter: req.user.id,
+      reasons: [...new Set(reasons)],
+      details: details || "",
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Report submitted. Thank you for helping keep our platform safe.",
+      report: report,
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: "You've already reported this auction. Our team is reviewing it.",
+      });
+    }
+    if (error.name === "ValidationError") {
+      return res.status(400).json({ success: false, message: validationMessage(error) });
+    }
+    handleServerError(res, error, "Failed to submit the report.");
+  }
+};
+
+// --- List Reports (Admin) ---
+// Query: status (pending|resolved|dismissed|all), reason, search (auction
+// title or reporter name), page, limit. Pending reports come oldest first,
+// the rest newest first.
+exports.getReports = async (req, res) => {
+  const { status = "pending", reason, search } = req.query;
+
+  if (!["pending", "resolved", "dismissed", "all"].includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: "Status must be pending, resolved, dismissed or all.",
+    });
+  }
+
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || 20, 1),
+    MAX_REPORTS_PAGE_LIMIT
+  );
+
+  try {
+    const filter = {};
+    if (status !== "all") filter.status = status;
+    if (reason) filter.reasons = reason;
+    if (search && search.trim()) {
+      const regex = new RegExp(escapeRegex(search.trim()), "i");
+      const [auctionIds, reporterIds] = await Promise.all([
+        Auction.find({ title: regex }).distinct("_id"),
+        User.find({ name: regex }).distinct("_id"),
+      ]);
+      filter.$or = [{ auction: { $in: auctionIds } }, { reporter: { $in: reporterIds } }];
+    }
+
+    const [reports, total] = await Promise.all([
+      populateReport(Report.find(filter))
+        .sort({ createdAt: status === "pending" ? 1 : -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Report.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: reports.length,
+      pagination: {
+        total: total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit: limit,
+      },
+      reports: reports,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve reports.");
+  }
+};
+
+// --- Resolve a Report (Admin) ---
+// Body: { note?, hideAuction?, banSeller?, banReason?, banExpiresAt? }.
+// Hiding the auction needs auctions:suspend and banning the seller users:ban.
+// If either fails the report goes back to pending. The reporter is notified.
+exports.resolveReport = async (req, res) => {
+  const { reportId } = req.params;
+  const { note, hideAuction: shouldHide = false, banSeller = false, banExpiresAt } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(reportId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid report ID format." });
+  }
+  if (shouldHide && !hasPermission(req.user, "auctions:suspend")) {
+    return res
+      .status(403)
+      .json({ success: false, message: "You don't have permission to hide auctions." });
+  }
+  if (banSeller && !hasPermission(req.user, "users:ban")) {
+    return res
+      .status(403)
+      .json({ success: false, message: "You don't have permission to ban users." });
+  }
+  const expiresAt = banExpiresAt ? new Date(banExpiresAt) : null;
+  if (expiresAt && (isNaN(expiresAt) || expiresAt <= new Date())) {
+    return res
+      .status(400)
+      .json({ success: false, message: "banExpiresAt must be a date in the future." });
+  }
+
+  try {
+    const pending = await Report.findOne({ _id: reportId, status: "pending" }).populate(
+      "auction",
+      "title seller"
+    );
+    if (!pending) {
+      const exists = await Report.exists({ _id: reportId });
+      return res.status(exists ? 409 : 404).json({
+        success: false,
+        message: exists ? "This report has already been reviewed." : "Report not found.",
+      });
+    }
+    if (!pending.auction && (shouldHide || banSeller)) {
+      return res
+        .status(409)
+        .json({ success: false, message: "The reported auction no longer exists." });
+    }
+    if (banSeller) {
+      const seller = await User.findById(pending.auction.seller).select("isAdmin");
+      if (seller?.isAdmin) {
+        return res.status(409).json({
+          success: false,
+          message: "The seller is an admin; revoke their admin access before banning them.",
+        });
+      }
+    }
+
+    // Claimed before acting, so two moderators can't both hide or ban
+    const report = await Report.findOneAndUpdate(
+      { _id: reportId, status: "pending" },
+      {
+        $set: {
+          status: "resolved",
+          reviewedBy: req.user.id,
+          reviewedAt: new Date(),
+          reviewNote: note || null,
+        },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!report) {
+      return res
+        .status(409)
+        .json({ success: false, message: "This report has already been reviewed." });
+    }
+
+    const auctionTitle = pending.auction?.title;
+    try {
+      if (shouldHide) {
+        const hidden = await hideAuction(pending.auction._id, {
+          actor: req.user.id,
+          reason: note || `Reported auction: ${auctionTitle}`,
+        });
+        report.auctionHidden = !!hidden;
+      }
+      if (banSeller) {
+        const banned = await banUser(pending.auction.seller, {
+          actor: req.user.id,
+          reason: req.body.banReason || note || `Reported auction: ${auctionTitle}`,
+          expiresAt: expiresAt,
+        });
+        report.sellerBanned = !!banned;
+      }
+      await report.save();
+    } catch (error) {
+      // Back in the queue so it can be resolved again; an auction already
+      // hidden stays hidden and is noted on the report
+      await Report.updateOne(
+        { _id: report._id, status: "resolved" },
+        {
+          $set: {
+            status: "pending",
+            reviewedBy: null,
+            reviewedAt: null,
+            reviewNote: null,
+            auctionHidden: report.auctionHidden,
+          },
+        }
+      ).catch((undoError) =>
+        console.error(`Failed to reopen report ${report._id}:`, undoError)
+      );
+      throw error;
+    }
+
+    await recordAudit({
+      actor: req.user.id,
+      action: "report_resolved",
+      targetType: "Report",
+      target: report._id,
+      reason: note || null,
+      details: { auctionHidden: report.auctionHidden, sellerBanned: report.sellerBanned },
+    });
+
+    notifyUser(report.reporter, {
+      type: "report_resolved",
+      title: "Your report was reviewed",
+      message: `Thanks for reporting "${auctionTitle}". Our team looked into it and took action.`,
+      auction: report.auctionHidden ? null : report.auction,
+    }).catch((error) => console.error("Failed to notify the reporter:", error));
+
+    res.status(200).json({
+      success: true,
+      message: "Report resolved.",
+      report: await populateReport(Report.findById(report._id)),
+    });
+  } catch (error) {
+    if (error.name === "ValidationError") {
+      return res.status(400).json({ success: false, message: validationMessage(error) });
+    }
+    handleServerError(res, error, "Failed to resolve the report.");
+  }
+};
+
+// --- Dismiss a Report (Admin) ---
+// Body: { note? }. The auction stands; the reporter is notified.
+exports.dismissReport = async (req, res) => {
+  const { reportId } = req.params;
+  const { note } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(reportId)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Invalid report ID format." });
+  }
+
+  try {
+    const report = await Report.findOneAndUpdate(
+      { _id: reportId, status: "pending" },
+      {
+        $set: {
+          status: "dismissed",
+          reviewedBy: req.user.id,
+          reviewedAt: new Date(),
+          reviewNote: note || null,
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!report) {
+      const exists = await Report.exists({ _id: reportId });
+      return res.status(exists ? 409 : 404).json({
+        success: false,
+        message: exists ? "This report has already been reviewed." : "Report not found.",
+      });
+    }
+
+    await recordAudit({
+      actor: req.user.id,
+      action: "report_dismissed",
+      targetType: "Report",
+      target: report._id,
+      reason: note || null,
+    });
+
+    const auction = await Auction.findById(report.auction).select("title");
+    notifyUser(report.reporter, {
+      type: "report_resolved",
+      title: "Your report was reviewed",
+      message: auction
+        ? `Thanks for reporting "${auction.title}". Our team looked into it and found no violation.`
+        : "Thanks for your report. Our team looked into it and found no violation.",
+      auction: auction,
+    }).catch((error) => console.error("Failed to notify the reporter:", error));
+
+    res.status(200).json({
+      success: true,
+      message: "Report dismissed.",
+      report: await populateReport(Report.findById(report._id)),
+    });
+  } catch (error) {
+    if (error.name === "ValidationError") {
+      return res.status(400).json({ success: false, message: validationMessage(error) });
+    }
+    handleServerError(res, error, "Failed to dismiss the report.");
+  }
+};
@@ -0,0 +1,428 @@
+// controllers/userController.js
+const mongoose = require("mongoose");
+const User = require("../models/User");
+const Bid = require("../models/Bid");
+const Auction = require("../models/Auction");
+const { banUser, unbanUser } = require("../utils/moderationUtils");
+const { recordAudit } = require("../utils/auditUtils");
+const { ROLES } = require("../config/permissions");
+const { handleServerError } = require("../utils/errorUtils");
+
+const EMAIL_PREFERENCE_KEYS = ["outbid", "auctionWon", "auctionSold", "endingSoon"];
+
+// --- Get the Logged-in User's Email Preferences ---
+exports.getEmailPreferences = async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select("emailPreferences");
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found." });
+    }
+
+    res.status(200).json({
+      success: true,
+      emailPreferences: user.emailPreferences,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve email preferences.");
+  }
+};
+
+// --- Update the Logged-in User's Email Preferences ---
+// Body: any of { outbid, auctionWon, auctionSold, endingSoon } as booleans.
+exports.updateEmailPreferences = async (req, res) => {
+  const update = {};
+  for (const key of EMAIL_PREFERENCE_KEYS) {
+    if (req.body[key] === undefined) continue;
+    if (typeof req.body[key] !== "boolean") {
+      return res
+        .status(400)
+        .json({ success: false, message: `'${key}' must be true or false.` });
+    }
+    update[`emailPreferences.${key}`] = req.body[key];
+  }
+  if (Object.keys(update).length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: `Provide at least one of: ${EMAIL_PREFERENCE_KEYS.join(", ")}.`,
+    });
+  }
+
+  try {
+    const user = await User.findByIdAndUpdate(
+      req.user.id,
+      { $set: update },
+      { new: true, runValidators: true }
+    ).select("emailPreferences");
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found." });
+    }
+
+    res.status(200).json({
+      success: true,
+      emailPreferences: user.emailPreferences,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to update email preferences.");
+  }
+};
+
+// ===================== Admin: User Management =====================
+
+// Sortable columns of the admin users table, and the field each sorts on
+const USER_SORT_FIELDS = {
+  name: "name",
+  email: "email",
+  registeredDate: "createdAt",
+  lastLogin: "lastLogin",
+  totalBids: "totalBids",
+  totalAuctions: "totalAuctions",
+};
+const MAX_USERS_PAGE_LIMIT = 100;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Adds totalBids (standing bids placed) and totalAuctions (auctions created,
+// drafts aside) to each user
+const userTotalsStages = () => [
+  {
+    $lookup: {
+      from: Bid.collection.name,
+      let: { userId: "$_id" },
+      pipeline: [
+        { $match: { $expr: { $eq: ["$bidder", "$$userId"] }, isRetracted: false } },
+        { $count: "count" },
+      ],
+      as: "bidTotals",
+    },
+  },
+  {
+    $lookup: {
+      from: Auction.collection.name,
+      let: { userId: "$_id" },
+      pipeline: [
+        { $match: { $expr: { $eq: ["$seller", "$$userId"] }, status: { $ne: "draft" } } },
+        { $count: "count" },
+      ],
+      as: "auctionTotals",
+    },
+  },
+  {
+    $addFields: {
+      totalBids: { $ifNull: [{ $arrayElemAt: ["$bidTotals.count", 0] }, 0] },
+      totalAuctions: { $ifNull: [{ $arrayElemAt: ["$auctionTotals.count", 0] }, 0] },
+    },
+  },
+];
+
+// Shapes a user for the admin users table (see client data/adminData User)
+const userRowStage = (now) => ({
+  $project: {
+    _id: 0,
+    id: "$_id",
+    name: 1,
+    email: 1,
+    avatar: "$profilePictureUrl",
+    status: {
+      $cond: [
+        {
+          $and: [
+            "$isBanned",
+            {
+              $or: [
+                { $eq: [{ $ifNull: ["$banExpiresAt", null] }, null] },
+                { $gt: ["$banExpiresAt", now] },
+              ],
+            },
+          ],
+        },
+        "banned",
+        "active",
+      ],
+    },
+    registeredDate: "$createdAt",
+    lastLogin: 1,
+    totalBids: 1,
+    totalAuctions: 1,
+    isAdmin: 1,
+    roles: 1,
+    isEmailVerified: 1,
+    banReason: 1,
+    bannedAt: 1,
+    banExpiresAt: 1,
+  },
+});
+
+// One user as a row of the admin users table, or null if there's no such user
+const getUserRow = async (userId) => {
+  const [row] = await User.aggregate([
+    { $match: { _id: new mongoose.Types.ObjectId(userId) } },
+    ...userTotalsStages(),
+    userRowStage(new Date()),
+  ]);
+  return row ?? null;
+};
+
+// --- List Users (Admin) ---
+// Query: search (name or email), status (all|active|banned), sortBy (one of
+// USER_SORT_FIELDS), sortOrder (asc|desc), page, limit.
+exports.listUsers = async (req, res) => {
+  const { search, status = "all", sortBy = "registeredDate", sortOrder = "desc" } = req.query;
+
+  if (!["all", "active", "banned"].includes(status)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "Status must be all, active or banned." });
+  }
+  if (!USER_SORT_FIELDS[sortBy]) {
+    return res.status(400).json({
+      success: false,
+      message: `sortBy must be one of: ${Object.keys(USER_SORT_FIELDS).join(", ")}.`,
+    });
+  }
+
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || 20, 1),
+    MAX_USERS_PAGE_LIMIT
+  );
+
+  const now = new Date();
+  const conditions = [];
+  if (search && search.trim()) {
+    const regex = new RegExp(escapeRegex(search.trim()), "i");
+    conditions.push({ $or: [{ name: regex }, { email: regex }] });
+  }
+  if (status === "banned") conditions.push(User.activeBanFilter(now));
+  if (status === "active") conditions.push({ $nor: [User.activeBanFilter(now)] });
+
+  // Totals are only worked out for the page shown, unless they decide the order
+  const sortField = USER_SORT_FIELDS[sortBy];
+  const sortsByTotal = sortField === "totalBids" || sortField === "totalAuctions";
+
+  try {
+    const [result] = await User.aggregate([
+      { $match: conditions.length ? { $and: conditions } : {} },
+      ...(sortsByTotal ? userTotalsStages() : []),
+      { $sort: { [sortField]: sortOrder === "asc" ? 1 : -1, _id: 1 } },
+      {
+        $facet: {
+          users: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            ...(sortsByTotal ? [] : userTotalsStages()),
+            userRowStage(now),
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+    const total = result.total[0]?.count ?? 0;
+
+    res.status(200).json({
+      success: true,
+      count: result.users.length,
+      pagination: {
+        total: total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        limit: limit,
+      },
+      users: result.users,
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to retrieve users.");
+  }
+};
+
+// --- Ban a User (Admin) ---
+// Body: { reason, expiresAt? }. Without expiresAt the ban lasts until lifted.
+// Signs the user out and retracts their bids on live auctions.
+exports.banUser = async (req, res) => {
+  const { userId } = req.params;
+  const { reason, expiresAt } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return res.status(400).json({ success: false, message: "Invalid user ID format." });
+  }
+  if (typeof reason !== "string" || !reason.trim()) {
+    return res
+      .status(400)
+      .json({ success: false, message: "A reason for the ban is required." });
+  }
+  const banExpiresAt = expiresAt ? new Date(expiresAt) : null;
+  if (banExpiresAt && (isNaN(banExpiresAt) || banExpiresAt <= new Date())) {
+    return res
+      .status(400)
+      .json({ success: false, message: "expiresAt must be a date in the future." });
+  }
+  if (userId === req.user.id.toString()) {
+    return res.status(400).json({ success: false, message: "You can't ban yourself." });
+  }
+
+  try {
+    const target = await User.findById(userId).select("isAdmin");
+    if (!target) {
+      return res.status(404).json({ success: false, message: "User not found." });
+    }
+    if (target.isAdmin) {
+      return res.status(409).json({
+        success: false,
+        message: "Revoke this user's admin access before banning them.",
+      });
+    }
+
+    const banned = await banUser(userId, {
+      actor: req.user.id,
+      reason: reason.trim(),
+      expiresAt: banExpiresAt,
+    });
+    if (!banned) {
+      return res.status(404).json({ success: false, message: "User not found." });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `User banned. ${banned.retracted.bids} live ${
+        banned.retracted.bids === 1 ? "bid was" : "bids were"
+      } retracted.`,
+      retracted: banned.retracted,
+      user: await getUserRow(userId),
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to ban the user.");
+  }
+};
+
+// --- Unban a User (Admin) ---
+// Body: { reason? }. Retracted bids stay retracted.
+exports.unbanUser = async (req, res) => {
+  const { userId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return res.status(400).json({ success: false, message: "Invalid user ID format." });
+  }
+
+  try {
+    const target = await User.findById(userId).select("isBanned");
+    if (!target) {
+      return res.status(404).json({ success: false, message: "User not found." });
+    }
+    if (!target.isBanned) {
+      return res.status(409).json({ success: false, message: "This user is not banned." });
+    }
+
+    const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+    await unbanUser(userId, { actor: req.user.id, reason: reason || null });
+
+    res.status(200).json({
+      success: true,
+      message: "User unbanned.",
+      user: await getUserRow(userId),
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to unban the user.");
+  }
+};
+
+// --- Grant or Revoke Admin Access (Admin) ---
+// Conditional on the current value, so only an actual change is recorded.
+const setAdminAccess = (isAdmin) => async (req, res) => {
+  const { userId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return res.status(400).json({ success: false, message: "Invalid user ID format." });
+  }
+  if (!isAdmin && userId === req.user.id.toString()) {
+    return res
+      .status(400)
+      .json({ success: false, message: "You can't revoke your own admin access." });
+  }
+
+  try {
+    const user = await User.findOneAndUpdate(
+      { _id: userId, isAdmin: !isAdmin },
+      { $set: { isAdmin: isAdmin } },
+      { new: true }
+    );
+    if (!user) {
+      const exists = await User.exists({ _id: userId });
+      return res.status(exists ? 409 : 404).json({
+        success: false,
+        message: exists
+          ? `This user is ${isAdmin ? "already" : "not"} an admin.`
+          : "User not found.",
+      });
+    }
+
+    await recordAudit({
+      actor: req.user.id,
+      action: isAdmin ? "admin_granted" : "admin_revoked",
+      targetType: "User",
+      target: user._id,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: isAdmin ? "Admin access granted." : "Admin access revoked.",
+      user: await getUserRow(userId),
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to update admin access.");
+  }
+};
+
+exports.grantAdmin = setAdminAccess(true);
+exports.revokeAdmin = setAdminAccess(false);
+
+// --- Grant or Revoke a Staff Role (Admin) ---
+// Params: role, one of the staff roles in config/permissions. Granting a role
+// the user already has (or revoking one they lack) is a 409 with no audit entry.
+const setStaffRole = (granted) => async (req, res) => {
+  const { userId, role } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return res.status(400).json({ success: false, message: "Invalid user ID format." });
+  }
+  if (!ROLES.includes(role)) {
+    return res.status(400).json({
+      success: false,
+      message: `Role must be one of: ${ROLES.join(", ")}.`,
+    });
+  }
+
+  try {
+    const user = await User.findOneAndUpdate(
+      granted ? { _id: userId, roles: { $ne: role } } : { _id: userId, roles: role },
+      granted ? { $addToSet: { roles: role } } : { $pull: { roles: role } },
+      { new: true, runValidators: true }
+    );
+    if (!user) {
+      const exists = await User.exists({ _id: userId });
+      return res.status(exists ? 409 : 404).json({
+        success: false,
+        message: exists
+          ? `This user ${granted ? "already has" : "doesn't have"} the ${role} role.`
+          : "User not found.",
+      });
+    }
+
+    await recordAudit({
+      actor: req.user.id,
+      action: granted ? "role_granted" : "role_revoked",
+      targetType: "User",
+      target: user._id,
+      details: { role: role },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: granted ? `The ${role} role was granted.` : `The ${role} role was revoked.`,
+      user: await getUserRow(userId),
+    });
+  } catch (error) {
+    handleServerError(res, error, "Failed to update the user's roles.");
+  }
+};
+
+exports.grantRole = setStaffRole(true);
+exports.revokeRole = setStaffRole(false);
@@ -0,0 +1,293 @@
+// src/jobs/auctionLifecycleJob.js
+const Auction = require("../models/Auction");
+const Bid = require("../models/Bid");
+const ProxyBid = require("../models/ProxyBid");
+const { getIO } = require("../config/socket");
+const { notifyWatchers, notifyWatchersEndingSoon } = require("../utils/watchUtils");
+const { notifySale } = require("../utils/notificationUtils");
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 100;
+
+// Statuses the job still has to move along
+const OPEN_STATUSES = ["scheduled", "live"];
+
+/**
+ * Gives a status to auctions saved before status was persisted, working it
+ * out from their times. Ended ones are set live so settlement closes them.
+ * @param {Date} now
+ * @returns {Promise<void>}
+ */
+const backfillMissingStatuses = async (now) => {
+  await Auction.updateMany(
+    { status: { $exists: false }, startTime: { $gt: now } },
+    { $set: { status: "scheduled" } }
+  );
+  await Auction.updateMany(
+    { status: { $exists: false } },
+    { $set: { status: "live" } }
+  );
+};
+
+/**
+ * Moves scheduled auctions whose startTime has passed to live and tells
+ * their watchers.
+ * @param {Date} now
+ * @returns {Promise<number>} How many auctions went live.
+ */
+const startScheduledAuctions = async (now) => {
+  const dueAuctions = await Auction.find({
+    status: "scheduled",
+    startTime: { $lte: now },
+    endTime: { $gt: now }, // Ones already past their end go straight to settlement
+  }).select("_id title");
+  if (dueAuctions.length === 0) return 0;
+
+  const ids = dueAuctions.map((auction) => auction._id);
+  await Auction.updateMany(
+    { _id: { $in: ids }, status: "scheduled" },
+    { $set: { status: "live" } }
+  );
+
+  const io = getIO();
+  if (io) {
+    ids.forEach((id) =>
+      io.to(id.toString()).emit("auction_started", {
+        auctionId: id.toString(),
+        status: "live",
+      })
+    );
+  }
+  for (const auction of dueAuctions) {
+    await notifyWatchers(auction, "auction_started");
+  }
+  return ids.length;
+};
+
+/**
+ * Tells the watchers of live auctions that have just entered their final
+ * hour. Watchers already told about an auction are skipped.
+ * @param {Date} now
+ * @returns {Promise<number>} How many watchers were notified.
+ */
+const notifyEndingSoonWatchers = async (now) => {
+  const endingAuctions = await Auction.find({
+    ...Auction.getStatusFilter("ending-soon", now),
+    watchCount: { $gt: 0 },
+  }).select("_id title endTime currentBid");
+
+  let notifiedCount = 0;
+  for (const auction of endingAuctions) {
+    notifiedCount += await notifyWatchersEndingSoon(auction, now);
+  }
+  return notifiedCount;
+};
+
+/**
+ * Works out the final state of an ended auction from its bidding state.
+ * For a multi-unit lot currentBid is already the uniform clearing price (the
+ * lowest winning bid), so every bidder in the final `allocations` is recorded
+ * in `winners` with the units they won at that price; the top-ranked bidder
+ * is also recorded as the winner.
+ * @param {Auction} auction - The ended auction, with reservePrice selected.
+ * @returns {{ outcome: string, winner: ObjectId|null, hammerPrice: number|null,
+ *   winners?: { bidder: ObjectId, quantity: number, price: number }[] }}
+ */
+const getSettlement = (auction) => {
+  if (auction.bidCount === 0 || !auction.highestBidder) {
+    return { outcome: "unsold", winner: null, hammerPrice: null };
+  }
+  if (!auction.isReserveMetAt(auction.currentBid)) {
+    return { outcome: "reserve-not-met", winner: null, hammerPrice: null };
+  }
+  const settlement = {
+    outcome: "sold",
+    winner: auction.highestBidder,
+    hammerPrice: auction.currentBid,
+  };
+  if (!auction.isMultiUnit) return settlement;
+
+  // A bidder may hold units through several bids; they win them all
+  const winners = [];
+  auction.allocations.forEach((allocation) => {
+    const entry = winners.find((winner) => winner.bidder.equals(allocation.bidder));
+    if (entry) {
+      entry.quantity += allocation.quantity;
+    } else {
+      winners.push({
+        bidder: allocation.bidder,
+        quantity: allocation.quantity,
+        price: auction.currentBid,
+      });
+    }
+  });
+  return { ...settlement, winners };
+};
+
+/**
+ * Works out the final state of an ended sealed-bid auction by ranking its
+ * remaining (non-retracted) bids, highest first and earliest on a tie.
+ * First-price winners pay their own bid; second-price (Vickrey) winners pay
+ * the runner-up's bid, or the starting bid without one, but never less than
+ * the reserve.
+ * The hidden bidding state is revealed as currentBid/highestBidder.
+ * @param {Auction} auction - The ended auction, with reservePrice selected.
+ * @returns {Promise<{ outcome: string, winner: ObjectId|null, hammerPrice: number|null,
+ *   currentBid?: number, highestBidder?: ObjectId }>}
+ */
+const getSealedSettlement = async (auction) => {
+  const [topBid, runnerUp] = await Bid.find({ auction: auction._id, isRetracted: false })
+    .sort({ amount: -1, sequence: 1, createdAt: 1 })
+    .limit(2);
+  if (!topBid) return { outcome: "unsold", winner: null, hammerPrice: null };
+
+  const revealed = { currentBid: topBid.amount, highestBidder: topBid.bidder };
+  if (!auction.isReserveMetAt(topBid.amount)) {
+    return { ...revealed, outcome: "reserve-not-met", winner: null, hammerPrice: null };
+  }
+  const hammerPrice =
+    auction.sealedPricing === "second-price"
+      ? Math.max(
+          runnerUp ? runnerUp.amount : auction.startingBid,
+          auction.reservePrice || 0
+        )
+      : topBid.amount;
+  return { ...revealed, outcome: "sold", winner: topBid.bidder, hammerPrice };
+};
+
+/**
+ * Closes one ended auction and stamps its final state. If it sold, the
+ * winner(s) and the seller are notified.
+ * The write only applies if the auction is still open and its bidding
+ * state is unchanged since it was read, so concurrent or repeated runs are
+ * harmless: a skipped auction is simply picked up on the next run.
+ * @param {Auction} auction - The ended auction, with reservePrice selected.
+ * @param {Date} now - The time to record as closedAt.
+ * @returns {Promise<boolean>} Whether this call settled the auction.
+ */
+const settleAuction = async (auction, now) => {
+  const settlement =
+    auction.auctionType === "sealed"
+      ? await getSealedSettlement(auction)
+      : getSettlement(auction);
+
+  const result = await Auction.updateOne(
+    {
+      _id: auction._id,
+      status: { $in: OPEN_STATUSES },
+      endTime: auction.endTime,
+      bidCount: auction.bidCount,
+    },
+    { $set: { ...settlement, status: "closed", closedAt: now } }
+  );
+  if (result.modifiedCount === 0) return false;
+
+  // No more automatic bids can be placed on a closed auction
+  await ProxyBid.updateMany(
+    { auction: auction._id, isActive: true },
+    { $set: { isActive: false } }
+  );
+
+  const io = getIO();
+  if (io) {
+    io.to(auction._id.toString()).emit("auction_closed", {
+      auctionId: auction._id.toString(),
+      status: "closed",
+      closedAt: now,
+      ...settlement,
+    });
+  }
+
+  if (settlement.outcome === "sold") {
+    // The auction is settled either way; a failed notification is only logged
+    await notifySale(auction, settlement).catch((error) =>
+      console.error(`Failed to send sale notifications for auction ${auction._id}:`, error)
+    );
+  }
+  return true;
+};
+
+/**
+ * Settles every open auction whose endTime has passed.
+ * Because it looks at stored state rather than at what changed since the
+ * last run, it also catches up on anything missed while the server was down.
+ * @returns {Promise<number>} How many auctions were settled.
+ */
+const settleEndedAuctions = async () => {
+  let settledCount = 0;
+  const skipped = [];
+
+  for (;;) {
+    const now = new Date();
+    const dueAuctions = await Auction.find({
+      status: { $in: OPEN_STATUSES },
+      endTime: { $lte: now },
+      _id: { $nin: skipped },
+    })
+      .select("+reservePrice")
+      .sort({ endTime: 1 })
+      .limit(BATCH_SIZE);
+    if (dueAuctions.length === 0) break;
+
+    for (const auction of dueAuctions) {
+      if (await settleAuction(auction, now)) {
+        settledCount += 1;
+      } else {
+        skipped.push(auction._id); // Changed under us; retry next run
+      }
+    }
+  }
+
+  return settledCount;
+};
+
+/**
+ * Starts the auction lifecycle job, which moves auctions from scheduled to
+ * live, settles them into closed and warns watchers of auctions about to
+ * end. One run happens straight away (to recover from missed runs after a
+ * restart), then one every intervalMs. Runs never overlap.
+ * @param {number} [intervalMs] - Defaults to AUCTION_JOB_INTERVAL_MS or one minute.
+ * @returns {() => void} Stops the job.
+ */
+const startAuctionLifecycleJob = (
+  intervalMs = parseInt(
+    process.env.AUCTION_JOB_INTERVAL_MS || `${DEFAULT_INTERVAL_MS}`,
+    10
+  )
+) => {
+  let isRunning = false;
+
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const now = new Date();
+      await backfillMissingStatuses(now);
+      const startedCount = await startScheduledAuctions(now);
+      const settledCount = await settleEndedAuctions();
+      await notifyEndingSoonWatchers(now);
+      if (startedCount > 0 || settledCount > 0) {
+        console.log(
+          `Auction lifecycle job: started ${startedCount}, closed ${settledCount} auction(s)`
+        );
+      }
+    } catch (error) {
+      console.error("Auction lifecycle job failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
+
+module.exports = {
+  getSettlement,
+  getSealedSettlement,
+  startScheduledAuctions,
+  settleEndedAuctions,
+  notifyEndingSoonWatchers,
+  startAuctionLifecycleJob,
+};
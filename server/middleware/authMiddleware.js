@@ -2,6 +2,9 @@
 
 const jwt = require("jsonwebtoken");
 const User = require("../models/User"); // Adjust path if needed
+const { jwtSecret } = require("../config/auth");
+const { isSessionActive } = require("../utils/sessionUtils");
+const { hasPermission } = require("../config/permissions");
 
 /**
  * Protects routes by verifying JWT token.
@@ -22,11 +25,15 @@ const protect = async (req, res, next) => {
       token = req.headers.authorization.split(" ")[1];
 
       // 3. Verify the token
-      const decoded = jwt.verify(token, "top-secret");
+      const decoded = jwt.verify(token, jwtSecret);
       // console.log("Decoded JWT:", decoded); // Debugging line
-      // 4. Find the user associated with the token's ID
+      // 4. Find the user associated with the token's ID, and check the
+      //    token's session hasn't been logged out or revoked
       //    - Exclude the password field
-      const foundUser = await User.findById(decoded.userId).select("-password");
+      const [foundUser, sessionActive] = await Promise.all([
+        User.findById(decoded.userId).select("-password"),
+        isSessionActive(decoded.sessionId),
+      ]);
 
       if (!foundUser) {
         const error = new Error(
@@ -36,8 +43,23 @@ const protect = async (req, res, next) => {
         return next(error);
       }
 
-      // Optional: Check if user is banned
-      if (foundUser.isBanned) {
+      if (!sessionActive) {
+        const error = new Error("Session has ended. Please log in again.");
+        error.statusCode = 401;
+        return next(error);
+      }
+
+      // Sessions from before a password reset are signed out
+      if (foundUser.changedPasswordAfter(decoded.iat)) {
+        const error = new Error(
+          "Password was changed recently. Please log in again."
+        );
+        error.statusCode = 401;
+        return next(error);
+      }
+
+      // Check if user is banned (bans with an expiry lapse by themselves)
+      if (foundUser.isBanActive()) {
         const error = new Error("User account is banned.");
         error.statusCode = 403; // Forbidden
         return next(error);
@@ -56,6 +78,7 @@ const protect = async (req, res, next) => {
 
       // Attach the modified plain object to the request
       req.user = userPayload;
+      req.sessionId = decoded.sessionId; // For logout and the sessions list
 
       // 6. Proceed to the next middleware or route handler
       next();
@@ -89,20 +112,71 @@ const protect = async (req, res, next) => {
 };
 
 /**
- * Optional: Middleware to restrict access to Admins only.
+ * For public routes that show more to a logged-in user.
+ * Attaches req.user like `protect` when a valid token is sent; a missing or
+ * bad token just leaves the request anonymous instead of failing it.
  */
-const adminOnly = (req, res, next) => {
-  // Now checks req.user.isAdmin (assuming isAdmin property exists on the plain object)
-  if (req.user && req.user.isAdmin) {
+const optionalAuth = (req, res, next) => {
+  if (!req.headers.authorization?.startsWith("Bearer")) return next();
+  protect(req, res, () => next());
+};
+
+/**
+ * Restricts bidding and selling to users who verified their email address.
+ * Use after `protect`.
+ */
+const requireVerifiedEmail = (req, res, next) => {
+  if (req.user && req.user.isEmailVerified) {
     next();
   } else {
-    const error = new Error("Not authorized as an admin.");
+    const error = new Error("Please verify your email address first.");
     error.statusCode = 403;
     next(error);
   }
 };
 
+/**
+ * Restricts a route to users with a permission (see config/permissions).
+ * Use after `protect`.
+ *
+ * With `allowOwner`, the owner of the resource may use the route without the
+ * permission. It receives the request and resolves to the owner's user ID,
+ * or null when the resource doesn't exist, in which case the route handler
+ * runs and reports that (e.g. with a 404).
+ * On success, `req.hasPermission` tells the handler whether the user acts
+ * through the permission rather than as the owner.
+ * @param {string} permission
+ * @param {{ allowOwner?: (req: express.Request) => Promise<ObjectId|null> }} [options]
+ */
+const authorize = (permission, { allowOwner } = {}) => async (req, res, next) => {
+  if (!req.user) {
+    const error = new Error("Not authorized, no token provided.");
+    error.statusCode = 401;
+    return next(error);
+  }
+
+  req.hasPermission = hasPermission(req.user, permission);
+  if (req.hasPermission) return next();
+
+  if (allowOwner) {
+    try {
+      const ownerId = await allowOwner(req);
+      if (!ownerId || ownerId.toString() === req.user.id.toString()) {
+        return next();
+      }
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  const error = new Error("You don't have permission to do this.");
+  error.statusCode = 403;
+  next(error);
+};
+
 module.exports = {
   protect,
-  adminOnly,
+  optionalAuth,
+  requireVerifiedEmail,
+  authorize,
 };
@@ -0,0 +1,36 @@
+// middleware/bidQueueMiddleware.js
+
+const { runInBidQueue } = require("../utils/bidQueue");
+
+// Longest a request may hold its auction's queue, so a stuck one can't block it
+const MAX_HOLD_MS = Number(process.env.BID_QUEUE_MAX_HOLD_MS) || 30000;
+
+/**
+ * Serializes requests that bid on the same auction: each waits for earlier
+ * ones to finish responding before its handler runs, so bids are processed
+ * in arrival order. Requests without the param pass straight through.
+ * @param {string} [paramName="auctionId"] - Route param holding the auction ID.
+ */
+const queueByAuction = (paramName = "auctionId") => (req, res, next) => {
+  const auctionId = req.params[paramName];
+  // Mounted without an auction in the path (/api/bids): nothing to order by,
+  // and one shared key would serialize unrelated requests
+  if (!auctionId) return next();
+
+  runInBidQueue(
+    auctionId,
+    () =>
+      new Promise((resolve) => {
+        const timer = setTimeout(resolve, MAX_HOLD_MS);
+        const release = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        res.once("finish", release);
+        res.once("close", release); // Client went away before the response
+        next();
+      })
+  ).catch(next);
+};
+
+module.exports = { queueByAuction };
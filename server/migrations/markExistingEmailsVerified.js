@@ -0,0 +1,19 @@
+// migrations/markExistingEmailsVerified.js
+const User = require("../models/User");
+
+/**
+ * Grandfathers accounts created before email verification: they have no
+ * isEmailVerified field at all (every signup since stores false until the
+ * code is entered), so they are marked verified instead of losing bidding
+ * and selling on deploy. Safe to run on every start; later runs match nothing.
+ * @returns {Promise<number>} Accounts marked verified.
+ */
+const markExistingEmailsVerified = async () => {
+  const result = await User.updateMany(
+    { isEmailVerified: { $exists: false } },
+    { $set: { isEmailVerified: true } }
+  );
+  return result.modifiedCount;
+};
+
+module.exports = markExistingEmailsVerified;
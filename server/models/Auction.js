@@ -8,48 +8,166 @@ const DocumentSchema = new mongoose.Schema({
   type: { type: String, required: true, trim: true }
 }, { _id: false });
 
+// --- Sub-Schema for Bid Increment Tiers ---
+// A tier applies while the current bid is below `upTo`; the last tier has no upper bound.
+const IncrementTierSchema = new mongoose.Schema({
+  upTo: { type: Number, default: null, min: 0 },
+  increment: { type: Number, required: true, min: 0.01 }
+}, { _id: false });
+
+// --- Sub-Schema for the Minimum Bid Increment Rule ---
+const BidIncrementSchema = new mongoose.Schema({
+  type: { type: String, enum: ['fixed', 'percentage', 'tiered'], default: 'fixed' },
+  value: { type: Number, min: 0.01, default: 1 }, // Amount for 'fixed', percent of the current bid for 'percentage'
+  tiers: {
+    type: [IncrementTierSchema],
+    default: [],
+    validate: [
+        function(tiers) {
+          if (this.type !== 'tiered') return true;
+          if (tiers.length === 0 || tiers[tiers.length - 1].upTo !== null) return false;
+          // Every bounded tier must end above the previous one
+          return tiers.slice(0, -1).every((tier, i) =>
+            tier.upTo !== null && (i === 0 || tier.upTo > tiers[i - 1].upTo));
+        },
+        'Increment tiers must be in ascending order and end with an unbounded tier'
+    ],
+  }
+}, { _id: false });
+
+// --- Sub-Schema for Soft Close (Anti-Sniping) ---
+// A bid accepted within the final `windowMinutes` pushes endTime out to
+// `extensionMinutes` after that bid. Either value at 0 turns it off.
+const SoftCloseSchema = new mongoose.Schema({
+  windowMinutes: { type: Number, min: 0, default: 0 },
+  extensionMinutes: { type: Number, min: 0, default: 0 }
+}, { _id: false });
+
+// --- Sub-Schema for the Dutch Price Schedule ---
+// The price opens at startingBid and drops by `decrement` every `intervalMinutes`
+// after startTime, never going below `floorPrice`.
+const DutchScheduleSchema = new mongoose.Schema({
+  decrement: { type: Number, min: 0.01, default: 1 },
+  intervalMinutes: { type: Number, min: 1, default: 60 },
+  floorPrice: { type: Number, min: 0, default: 0 }
+}, { _id: false });
+
+// --- Sub-Schema for Multi-Unit Allocations ---
+// Units of a multi-unit lot currently held by one standing bid. Kept ranked,
+// highest bid first; the marginal bid may be filled only in part.
+const AllocationSchema = new mongoose.Schema({
+  bid: { type: mongoose.Schema.Types.ObjectId, ref: 'Bid', required: true },
+  bidder: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  amount: { type: Number, required: true, min: 0 }, // Per-unit bid
+  quantity: { type: Number, required: true, min: 1 } // Units filled
+}, { _id: false });
+
+// --- Sub-Schema for Multi-Unit Winners ---
+// One winning bidder of a settled multi-unit lot: the units they won across
+// their bids and the per-unit clearing price they pay.
+const WinnerSchema = new mongoose.Schema({
+  bidder: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  price: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+// 'english' takes ascending bids; 'dutch' sells to the first buyer to accept the falling price;
+// 'sealed' takes one secret bid per bidder, revealed and priced at close
+const AUCTION_TYPES = ['english', 'dutch', 'sealed'];
+// Sealed-bid pricing: the winner pays their own bid, or the runner-up's (Vickrey)
+const SEALED_PRICING = ['first-price', 'second-price'];
+
+// Lifecycle: draft -> scheduled -> live -> closed, or cancelled from any open state.
+// Persisted and moved along by the auction lifecycle job.
+const AUCTION_STATUSES = ['draft', 'scheduled', 'live', 'closed', 'cancelled'];
+const ENDING_SOON_MS = 60 * 60 * 1000; // Live auctions within an hour of endTime are "ending soon"
+
+// Drafts may be saved incomplete; the full requirements apply from publishing on
+function requiredUnlessDraft() {
+  return this.status !== 'draft';
+}
+
+// Buy It Now is withdrawn once the current bid reaches this share of the buy-now price
+const BUY_NOW_CUTOFF_PERCENT = parseFloat(process.env.BUY_NOW_CUTOFF_PERCENT || '50');
+
+// --- Serialization ---
+// The reserve price is only ever sent to the seller: controllers opt in per
+// document with revealReservePrice(), every other response drops it.
+const hideReservePrice = (doc, ret) => {
+  if (!doc.$locals?.revealReservePrice) delete ret.reservePrice;
+  return ret;
+};
+
 // --- Main Auction Schema ---
 const AuctionSchema = new mongoose.Schema({
-  title: { type: String, required: true, trim: true, index: true },
-  description: { type: String, required: true, trim: true },
+  title: { type: String, required: requiredUnlessDraft, trim: true, index: true },
+  description: { type: String, required: requiredUnlessDraft, trim: true },
   imageUrl: { type: String, trim: true, default: null },
   images: {
     type: [String],
     validate: [
-        function(val) { return val.length > 0 || !!this.imageUrl; },
+        function(val) { return this.status === 'draft' || val.length > 0 || !!this.imageUrl; },
         'At least one image URL in images array or a primary imageUrl is required'
     ],
     default: [],
   },
-  startingBid: { type: Number, required: true, min: 0 },
+  auctionType: { type: String, enum: AUCTION_TYPES, default: 'english' },
+  startingBid: { type: Number, required: requiredUnlessDraft, min: 0 }, // Opening price for Dutch auctions
   currentBid: {
     type: Number,
     default: function() { return this.startingBid; },
     min: 0,
-    required: true,
+    required: requiredUnlessDraft,
   },
+  // Hidden minimum sale price; select: false keeps it out of queries unless asked for
+  reservePrice: { type: Number, min: 0, default: null, select: false },
+  buyNowPrice: { type: Number, min: 0, default: null }, // Optional price that ends the auction immediately
+  bidIncrement: { type: BidIncrementSchema, default: () => ({}) },
+  dutchSchedule: { type: DutchScheduleSchema, default: null }, // Only for Dutch auctions
+  sealedPricing: { type: String, enum: [...SEALED_PRICING, null], default: null }, // Only for sealed-bid auctions
+  // Identical units sold in this listing. With more than one, every winning
+  // bidder pays the same per-unit price: the lowest winning bid (currentBid).
+  quantity: {
+    type: Number,
+    min: 1,
+    default: 1,
+    validate: [Number.isInteger, 'Quantity must be a whole number'],
+  },
+  allocations: { type: [AllocationSchema], default: [] }, // Multi-unit lots only
   highestBidder: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
   bidCount: { type: Number, default: 0, min: 0 },
+  bidSequence: { type: Number, default: 0, min: 0 }, // Last sequence number given to a bid; never goes down
   views: { type: Number, default: 0, min: 0 }, // The field we want to increment
+  watchCount: { type: Number, default: 0, min: 0 }, // Users with the auction on their watchlist
   likedBy: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
   seller: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
   startTime: { type: Date, default: Date.now, index: true },
   endTime: {
     type: Date,
-    required: true,
+    required: requiredUnlessDraft,
     validate: [
         function(value) { return !this.startTime || value > this.startTime; },
         'End time must be after start time'
     ],
     index: true,
   },
+  status: { type: String, enum: AUCTION_STATUSES, default: 'scheduled' },
+  softClose: { type: SoftCloseSchema, default: () => ({}) },
+  extensionCount: { type: Number, default: 0, min: 0 }, // Times endTime was pushed out by soft close
+  // --- Final state, stamped once when the auction closes (or is cancelled) ---
+  closedAt: { type: Date, default: null },
+  outcome: { type: String, enum: ['sold', 'unsold', 'reserve-not-met', null], default: null },
+  winner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null }, // The top-ranked one on a multi-unit lot
+  winners: { type: [WinnerSchema], default: [] }, // Every winner of a sold multi-unit lot
+  hammerPrice: { type: Number, default: null, min: 0 }, // Winning price when sold
+  hiddenAt: { type: Date, default: null }, // Taken down by a moderator; left out of public views
   documents: { type: [DocumentSchema], default: [] },
   category: { type: String, trim: true, index: true },
   location: { type: String, trim: true }
 }, {
   timestamps: true,
-  toJSON: { virtuals: true },
-  toObject: { virtuals: true }
+  toJSON: { virtuals: true, transform: hideReservePrice },
+  toObject: { virtuals: true, transform: hideReservePrice }
 });
 
 // --- Virtuals ---
@@ -57,22 +175,68 @@ AuctionSchema.virtual('likes').get(function() {
   return this.likedBy ? this.likedBy.length : 0;
 });
 
-AuctionSchema.virtual('status').get(function() {
-  const now = new Date();
-  const startTime = this.startTime instanceof Date ? this.startTime : new Date(this.startTime);
-  const endTime = this.endTime instanceof Date ? this.endTime : new Date(this.endTime);
+AuctionSchema.virtual('isEndingSoon').get(function() {
+  if (this.status !== 'live' || !this.endTime) return false;
+  return new Date(this.endTime).getTime() - Date.now() < ENDING_SOON_MS;
+});
+
+// Sealed bids stay secret until the auction closes. While they do, currentBid
+// and highestBidder are left at their opening values and only bidCount moves.
+AuctionSchema.virtual('bidsSealed').get(function() {
+  return this.auctionType === 'sealed' && this.status !== 'closed';
+});
+
+// Public reserve flags. Both are undefined when reservePrice was not selected,
+// so callers that want them must query with select('+reservePrice').
+// reserveMet is also undefined while sealed bids are hidden.
+AuctionSchema.virtual('hasReserve').get(function() {
+  if (this.reservePrice === undefined) return undefined;
+  return this.reservePrice !== null && this.reservePrice > 0;
+});
+
+AuctionSchema.virtual('reserveMet').get(function() {
+  if (this.reservePrice === undefined || this.bidsSealed) return undefined;
+  return this.bidCount > 0 && this.isReserveMetAt(this.currentBid);
+});
+
+// Whether the item can still be bought outright: the auction is live, has a
+// buy-now price, and bidding hasn't climbed past the cutoff share of it.
+AuctionSchema.virtual('buyNowAvailable').get(function() {
+  if (!this.buyNowPrice || this.auctionType !== 'english' || this.isMultiUnit || !this.isAcceptingBids()) return false;
+  if (this.bidCount === 0) return true;
+  return this.currentBid < this.buyNowPrice * BUY_NOW_CUTOFF_PERCENT / 100;
+});
+
+AuctionSchema.virtual('isMultiUnit').get(function() {
+  return this.quantity > 1;
+});
 
-  if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) return 'invalid-dates';
-  if (now < startTime) return 'upcoming';
-  if (now >= startTime && now < endTime) {
-    const oneHour = 60 * 60 * 1000;
-    return (endTime.getTime() - now.getTime() < oneHour) ? 'ending-soon' : 'active';
+// Units of a multi-unit lot not yet claimed by any standing bid
+AuctionSchema.virtual('unitsAvailable').get(function() {
+  if (!this.allocations) return undefined;
+  const allocated = this.allocations.reduce((total, allocation) => total + allocation.quantity, 0);
+  return Math.max(0, (this.quantity || 1) - allocated);
+});
+
+// Lowest amount a new bid must reach: the starting bid for the first bid,
+// otherwise the current bid plus the increment rule. For an open Dutch
+// auction it is the price on offer right now; sealed bids only need the starting bid.
+// A multi-unit lot takes bids at the starting bid until every unit is claimed,
+// then a bid has to beat the lowest winning bid.
+AuctionSchema.virtual('minimumNextBid').get(function() {
+  if (this.currentBid === undefined || this.startingBid === undefined) return undefined;
+  if (this.auctionType === 'dutch' && this.bidCount === 0) return this.getDutchPriceAt();
+  if (this.auctionType === 'sealed') return this.startingBid;
+  if (this.isMultiUnit && this.unitsAvailable !== undefined) {
+    return this.unitsAvailable > 0 ? this.startingBid : this.getNextBidAbove(this.currentBid);
   }
-  return 'ended'; // now >= endTime
+  if (this.bidCount === 0) return this.startingBid;
+  return this.getNextBidAbove(this.currentBid);
 });
 
 // --- Indexes ---
-AuctionSchema.index({ status: 1, endTime: 1 });
+AuctionSchema.index({ status: 1, endTime: 1 }); // Listing and the lifecycle job
+AuctionSchema.index({ status: 1, startTime: 1 });
 AuctionSchema.index({ category: 1, status: 1 });
 AuctionSchema.index({ seller: 1, status: 1 });
 
@@ -110,6 +274,130 @@ AuctionSchema.methods.incrementViews = async function() {
 };
 
 
+/**
+ * Whether bids can be placed right now. Goes by the clock as well as the
+ * persisted status, since the lifecycle job may lag behind start and end times.
+ * @param {Date} [now=new Date()]
+ * @returns {boolean}
+ */
+AuctionSchema.methods.isAcceptingBids = function(now = new Date()) {
+  return this.status === 'live' &&
+    new Date(this.startTime) <= now &&
+    now < new Date(this.endTime);
+};
+
+/**
+ * Returns the minimum bid increment at a given price, according to this auction's rule.
+ * @param {number} price - The price to step up from.
+ * @returns {number} The increment, rounded to cents (never below 0.01).
+ */
+AuctionSchema.methods.getBidIncrement = function(price) {
+  const rule = this.bidIncrement || {};
+  let increment;
+
+  switch (rule.type) {
+    case 'percentage':
+      increment = price * (rule.value || 0) / 100;
+      break;
+    case 'tiered': {
+      const tier = (rule.tiers || []).find(t => t.upTo === null || price < t.upTo);
+      increment = tier ? tier.increment : 1;
+      break;
+    }
+    case 'fixed':
+    default:
+      increment = rule.value || 1;
+  }
+
+  return Math.max(0.01, Math.round(increment * 100) / 100);
+};
+
+/**
+ * Returns the lowest bid that beats the given price.
+ * @param {number} price - The price to beat.
+ * @returns {number}
+ */
+AuctionSchema.methods.getNextBidAbove = function(price) {
+  return Math.round((price + this.getBidIncrement(price)) * 100) / 100;
+};
+
+/**
+ * Returns a Dutch auction's asking price at a given time. Deterministic from the
+ * schedule: the opening price before startTime, then one decrement per full
+ * interval elapsed, down to the floor.
+ * @param {Date} [time=new Date()]
+ * @returns {number} The price, rounded to cents.
+ */
+AuctionSchema.methods.getDutchPriceAt = function(time = new Date()) {
+  const { decrement = 0, intervalMinutes = 0, floorPrice = 0 } = this.dutchSchedule || {};
+  const elapsed = time.getTime() - new Date(this.startTime).getTime();
+  if (elapsed <= 0 || decrement <= 0 || intervalMinutes <= 0) return this.startingBid;
+
+  const drops = Math.floor(elapsed / (intervalMinutes * 60 * 1000));
+  const price = Math.max(floorPrice, this.startingBid - drops * decrement);
+  return Math.round(price * 100) / 100;
+};
+
+/**
+ * Returns the end time after soft close is applied to a bid accepted at `bidTime`,
+ * or null if the bid falls outside the closing window (or soft close is off).
+ * @param {Date} [bidTime=new Date()] - When the bid was accepted.
+ * @returns {Date|null} The extended end time.
+ */
+AuctionSchema.methods.getSoftCloseEndTime = function(bidTime = new Date()) {
+  const { windowMinutes = 0, extensionMinutes = 0 } = this.softClose || {};
+  if (windowMinutes <= 0 || extensionMinutes <= 0) return null;
+
+  const endTime = new Date(this.endTime).getTime();
+  const remaining = endTime - bidTime.getTime();
+  if (remaining <= 0 || remaining > windowMinutes * 60 * 1000) return null;
+
+  const extendedEndTime = bidTime.getTime() + extensionMinutes * 60 * 1000;
+  return extendedEndTime > endTime ? new Date(extendedEndTime) : null;
+};
+
+/**
+ * Whether a sale at the given price would meet this auction's reserve.
+ * Always true when there is no reserve. Requires reservePrice to be selected.
+ * @param {number} price - The price to check.
+ * @returns {boolean}
+ */
+AuctionSchema.methods.isReserveMetAt = function(price) {
+  if (!this.reservePrice) return true;
+  return price >= this.reservePrice;
+};
+
+/**
+ * Marks this document so its reservePrice is included when serialized.
+ * Only call this for responses going to the auction's seller.
+ * @returns {Auction} The auction instance (this), for chaining.
+ */
+AuctionSchema.methods.revealReservePrice = function() {
+  this.$locals.revealReservePrice = true;
+  return this;
+};
+
+
+// --- Statics ---
+
+/**
+ * Builds the query filter for a `status` list parameter. Accepts the lifecycle
+ * statuses plus 'ending-soon' (live and ending within the hour).
+ * @param {string} status - The requested status.
+ * @param {Date} [now=new Date()]
+ * @returns {object|null} The filter, or null for an unknown status.
+ */
+AuctionSchema.statics.getStatusFilter = function(status, now = new Date()) {
+  if (status === 'ending-soon') {
+    return {
+      status: 'live',
+      endTime: { $gt: now, $lte: new Date(now.getTime() + ENDING_SOON_MS) },
+    };
+  }
+  return AUCTION_STATUSES.includes(status) ? { status } : null;
+};
+
+
 // --- Model Creation ---
 const Auction = mongoose.model('Auction', AuctionSchema);
 
@@ -0,0 +1,65 @@
+// models/AuditLog.js
+const mongoose = require("mongoose");
+
+const AUDIT_ACTIONS = [
+  "user_banned",
+  "user_unbanned",
+  "admin_granted",
+  "admin_revoked",
+  "role_granted",
+  "role_revoked",
+  "auction_hidden",
+  "report_resolved",
+  "report_dismissed",
+];
+
+/**
+ * A record of one staff action, e.g. banning a user. Written through
+ * utils/auditUtils and never updated or deleted.
+ */
+const AuditLogSchema = new mongoose.Schema(
+  {
+    actor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Actor reference is required."], // The staff member who acted
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: [true, "Audit action is required."],
+    },
+    targetType: {
+      type: String,
+      enum: ["User", "Auction", "Report"],
+      required: true,
+    },
+    target: {
+      type: mongoose.Schema.Types.ObjectId,
+      refPath: "targetType",
+      required: [true, "Target reference is required."],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: null,
+    },
+    details: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null, // Action-specific facts, e.g. { banExpiresAt, retractedBids }
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// The audit log, newest first, optionally for one target or one actor
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ target: 1, createdAt: -1 });
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+
+const AuditLog = mongoose.model("AuditLog", AuditLogSchema);
+
+module.exports = AuditLog;
@@ -20,6 +20,36 @@ const BidSchema = new mongoose.Schema(
       required: [true, "Bid amount is required."],
       min: [0.01, "Bid amount must be positive."], // Assuming bids must be at least 1 cent/unit
     },
+    sequence: {
+      type: Number, // Position among the auction's bids (1, 2, 3, ...); missing on bids from before sequencing
+      min: [1, "Bid sequence must be at least 1."],
+    },
+    quantity: {
+      type: Number,
+      default: 1, // Units wanted at `amount` each; only above 1 on multi-unit lots
+      min: [1, "Bid quantity must be at least 1."],
+      validate: [Number.isInteger, "Bid quantity must be a whole number."],
+    },
+    isAutoBid: {
+      type: Boolean,
+      default: false, // true when placed by the server on behalf of a proxy (maximum) bid
+    },
+    isBuyNow: {
+      type: Boolean,
+      default: false, // true for the final bid recorded when the item was bought outright
+    },
+    isAcceptance: {
+      type: Boolean,
+      default: false, // true for the acceptance of a Dutch auction's falling price (the winning bid)
+    },
+    isRetracted: {
+      type: Boolean,
+      default: false, // true once an admin approved its retraction; kept for the history
+    },
+    retractedAt: {
+      type: Date,
+      default: null,
+    },
     // timestamps: true will add createdAt and updatedAt automatically
   },
   {
@@ -30,6 +60,12 @@ const BidSchema = new mongoose.Schema(
 // Optional: Compound index if you frequently query bids for an auction sorted by time
 BidSchema.index({ auction: 1, createdAt: -1 });
 
+// Arrival order within an auction; createdAt can tie between bids of one request
+BidSchema.index(
+  { auction: 1, sequence: -1 },
+  { unique: true, partialFilterExpression: { sequence: { $type: "number" } } }
+);
+
 // Prevent a user from placing identical consecutive bids (less common need, but possible)
 // BidSchema.index({ auction: 1, bidder: 1, amount: 1 }, { unique: true }); // Use with caution
 
@@ -0,0 +1,76 @@
+// models/BidRetraction.js
+const mongoose = require("mongoose");
+
+const RETRACTION_STATUSES = ["pending", "approved", "rejected"];
+
+/**
+ * A bidder's request to take back one of their bids, and an admin's decision
+ * on it. Records are never deleted, so together they form the audit trail
+ * of every retraction asked for and who approved or rejected it.
+ */
+const BidRetractionSchema = new mongoose.Schema(
+  {
+    auction: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Auction",
+      required: [true, "Auction reference is required."],
+      index: true,
+    },
+    bid: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Bid",
+      required: [true, "Bid reference is required."],
+    },
+    bidder: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Bidder reference is required."],
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true, // The bid amount at the time of the request
+    },
+    reason: {
+      type: String,
+      required: [true, "A reason for the retraction is required."],
+      trim: true,
+      maxlength: [500, "Reason cannot be more than 500 characters."],
+    },
+    status: {
+      type: String,
+      enum: RETRACTION_STATUSES,
+      default: "pending",
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Review note cannot be more than 500 characters."],
+      default: null,
+    },
+  },
+  {
+    timestamps: true, // createdAt is when the retraction was requested
+  }
+);
+
+// One open request per bid at a time
+BidRetractionSchema.index(
+  { bid: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+);
+// Admin review queue, oldest first
+BidRetractionSchema.index({ status: 1, createdAt: 1 });
+
+const BidRetraction = mongoose.model("BidRetraction", BidRetractionSchema);
+
+module.exports = BidRetraction;
@@ -0,0 +1,67 @@
+// models/Notification.js
+const mongoose = require("mongoose");
+
+const NOTIFICATION_TYPES = [
+  "outbid", // Someone bid above you
+  "auction_won", // You won an auction
+  "auction_sold", // Your auction sold
+  "watched_auction_started", // An auction on your watchlist opened for bidding
+  "watched_auction_new_bid", // An auction on your watchlist got a new high bid
+  "watched_auction_ending", // An auction on your watchlist is about to end
+  "report_resolved", // A report you filed was dealt with
+];
+
+/**
+ * An in-app notification for one user. Created through
+ * utils/notificationUtils, which also pushes it to the user's open sockets.
+ */
+const NotificationSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User reference is required."],
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: [true, "Notification type is required."],
+    },
+    title: {
+      type: String,
+      required: [true, "Notification title is required."],
+      trim: true,
+      maxlength: 200,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+      default: "",
+    },
+    auction: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Auction",
+      default: null, // The auction it is about, if any
+    },
+    link: {
+      type: String,
+      default: null, // Client path to open, e.g. /auction/:id
+    },
+    readAt: {
+      type: Date,
+      default: null, // null while unread
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Listing a user's notifications, newest first, and counting unread ones
+NotificationSchema.index({ user: 1, createdAt: -1 });
+NotificationSchema.index({ user: 1, readAt: 1 });
+
+const Notification = mongoose.model("Notification", NotificationSchema);
+
+module.exports = Notification;
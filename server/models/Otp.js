@@ -0,0 +1,59 @@
+// models/Otp.js
+const mongoose = require("mongoose");
+
+/**
+ * The current one-time code a user was emailed for a purpose, such as
+ * verifying their email address. There is one per user and purpose: sending
+ * a new code replaces the old one. Only a hash of the code is stored.
+ * Created and checked through utils/otpUtils.
+ */
+const OtpSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User reference is required."],
+    },
+    purpose: {
+      type: String,
+      enum: ["email_verification"],
+      required: [true, "OTP purpose is required."],
+    },
+    codeHash: {
+      type: String,
+      required: [true, "OTP code hash is required."],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "OTP expiry is required."],
+    },
+    attempts: {
+      type: Number,
+      default: 0, // Wrong guesses at the current code
+    },
+    lastSentAt: {
+      type: Date,
+      required: true,
+    },
+    // Rate limiting: codes sent since windowStartedAt
+    sendCount: {
+      type: Number,
+      default: 1,
+    },
+    windowStartedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+OtpSchema.index({ user: 1, purpose: 1 }, { unique: true });
+// Clean up a day after the last send; by then the code and the rate limit window have lapsed
+OtpSchema.index({ lastSentAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const Otp = mongoose.model("Otp", OtpSchema);
+
+module.exports = Otp;
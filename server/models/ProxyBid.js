@@ -0,0 +1,45 @@
+// models/ProxyBid.js
+const mongoose = require("mongoose");
+
+/**
+ * A bidder's maximum (proxy) bid on an auction.
+ * The server bids on the bidder's behalf, one step at a time, up to maxAmount.
+ * The ceiling is private: it is only ever returned to its owner.
+ */
+const ProxyBidSchema = new mongoose.Schema(
+  {
+    auction: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Auction",
+      required: [true, "Auction reference is required."],
+    },
+    bidder: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Bidder reference is required."],
+      index: true,
+    },
+    maxAmount: {
+      type: Number,
+      required: [true, "Maximum bid amount is required."],
+      min: [0.01, "Maximum bid amount must be positive."],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    // timestamps: updatedAt is used as "when the ceiling was set" to break ties
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One ceiling per bidder per auction
+ProxyBidSchema.index({ auction: 1, bidder: 1 }, { unique: true });
+// Finding the strongest competing proxies for an auction
+ProxyBidSchema.index({ auction: 1, isActive: 1, maxAmount: -1 });
+
+const ProxyBid = mongoose.model("ProxyBid", ProxyBidSchema);
+
+module.exports = ProxyBid;
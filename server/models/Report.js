@@ -0,0 +1,91 @@
+// models/Report.js
+const mongoose = require("mongoose");
+
+// The reasons offered by the client's ReportAuctionModal
+const REPORT_REASONS = [
+  "counterfeit", // Counterfeit or replica item
+  "inappropriate", // Inappropriate or offensive content
+  "prohibited", // Prohibited or illegal item
+  "misrepresented", // Item misrepresented or misdescribed
+  "scam", // Potential scam or fraud
+  "other",
+];
+
+const REPORT_STATUSES = ["pending", "resolved", "dismissed"];
+
+/**
+ * A user's report of an auction, and a moderator's decision on it. Records
+ * are kept after review, as the history of what was reported and done.
+ */
+const ReportSchema = new mongoose.Schema(
+  {
+    auction: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Auction",
+      required: [true, "Auction reference is required."],
+      index: true,
+    },
+    reporter: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Reporter reference is required."],
+    },
+    reasons: {
+      type: [{ type: String, enum: REPORT_REASONS }],
+      validate: [
+        (reasons) => reasons.length > 0,
+        "At least one reason for the report is required.",
+      ],
+    },
+    details: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Details cannot be more than 1000 characters."],
+      default: "",
+    },
+    status: {
+      type: String,
+      enum: REPORT_STATUSES,
+      default: "pending",
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Review note cannot be more than 500 characters."],
+      default: null,
+    },
+    // What resolving the report did, besides closing it
+    auctionHidden: {
+      type: Boolean,
+      default: false,
+    },
+    sellerBanned: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true, // createdAt is when the report was filed
+  }
+);
+
+// One open report per user per auction; they can report again once it's reviewed
+ReportSchema.index(
+  { auction: 1, reporter: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+);
+// Moderation queue, oldest first
+ReportSchema.index({ status: 1, createdAt: 1 });
+
+const Report = mongoose.model("Report", ReportSchema);
+
+module.exports = Report;
@@ -0,0 +1,62 @@
+// models/Session.js
+const mongoose = require("mongoose");
+
+/**
+ * A signed-in device. It holds the hash of the current refresh token, which
+ * is swapped for a new one on every refresh (rotation). The previous hash is
+ * kept so a stolen, already-used token can be recognised and the session
+ * revoked. Access tokens carry the session ID, so revoking a session signs
+ * the device out right away. Managed through utils/sessionUtils.
+ */
+const SessionSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User reference is required."],
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, "Refresh token hash is required."],
+      select: false,
+    },
+    previousTokenHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Session expiry is required."],
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now, // Last sign-in or refresh
+    },
+    revokedAt: {
+      type: Date,
+      default: null, // Set on logout or revocation
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: "",
+    },
+    ipAddress: {
+      type: String,
+      default: "",
+    },
+  },
+  {
+    timestamps: true, // createdAt is when the device signed in
+  }
+);
+
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model("Session", SessionSchema);
+
+module.exports = Session;
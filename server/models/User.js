@@ -1,6 +1,11 @@
 // models/User.js
 const mongoose = require("mongoose");
 const bcrypt = require("bcrypt");
+const crypto = require("crypto");
+const { ROLES } = require("../config/permissions");
+
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+const PASSWORD_RESET_COOLDOWN_SECONDS = 60; // Between reset emails to the same user
 
 const UserSchema = new mongoose.Schema(
   {
@@ -27,10 +32,41 @@ const UserSchema = new mongoose.Schema(
       type: Boolean,
       default: false,
     },
+    // Staff roles below admin, e.g. ["moderator"]. See config/permissions.
+    roles: {
+      type: [{ type: String, enum: ROLES }],
+      default: [],
+    },
+    // Accounts from before verification existed are marked verified on
+    // start, see migrations/markExistingEmailsVerified
+    isEmailVerified: {
+      type: Boolean,
+      default: false, // Set once the emailed code is entered; needed to bid or sell
+    },
     isBanned: {
       type: Boolean,
       default: false,
     },
+    // Details of the current ban, kept after an unban until the next one
+    banReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Ban reason cannot be more than 500 characters."],
+      default: null,
+    },
+    bannedAt: {
+      type: Date,
+      default: null,
+    },
+    banExpiresAt: {
+      type: Date,
+      default: null, // null bans until an admin lifts it
+    },
+    bannedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
     profilePictureUrl: {
       type: String,
       trim: true,
@@ -40,6 +76,26 @@ const UserSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    passwordChangedAt: {
+      type: Date,
+      default: null, // Tokens issued before this are no longer accepted
+    },
+    // Pending password reset: a hash of the emailed token, never the token itself
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpiresAt: {
+      type: Date,
+      select: false,
+    },
+    // Per-event email opt-outs. Account emails (welcome, password reset) are always sent.
+    emailPreferences: {
+      outbid: { type: Boolean, default: true },
+      auctionWon: { type: Boolean, default: true },
+      auctionSold: { type: Boolean, default: true },
+      endingSoon: { type: Boolean, default: true }, // Watched auctions about to end
+    },
   },
   { timestamps: true }
 ); // Adds createdAt and updatedAt
@@ -81,6 +137,73 @@ UserSchema.methods.updateLastLogin = async function () {
   return await this.save();
 };
 
+/**
+ * Starts a password reset: stores a hash of a new random token, valid for a
+ * limited time, replacing any earlier one. Does not save the document.
+ * Fetch the user with .select('+passwordResetExpiresAt') so a token created
+ * moments ago is noticed and not replaced.
+ * @returns {{ token: string, expiresInMinutes: number }|null} The plain token,
+ *   to be emailed to the user, or null if one was created within the cooldown.
+ */
+UserSchema.methods.createPasswordResetToken = function () {
+  const issuedAt = this.passwordResetExpiresAt
+    ? this.passwordResetExpiresAt.getTime() - PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+    : 0;
+  if (Date.now() - issuedAt < PASSWORD_RESET_COOLDOWN_SECONDS * 1000) return null;
+
+  const token = crypto.randomBytes(32).toString("hex");
+  this.passwordResetTokenHash = UserSchema.statics.hashResetToken(token);
+  this.passwordResetExpiresAt = new Date(
+    Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  );
+  return { token: token, expiresInMinutes: PASSWORD_RESET_TTL_MINUTES };
+};
+
+/**
+ * Whether the password changed after a token was issued, making the token
+ * (and the session it belongs to) invalid.
+ * @param {number} issuedAt - The token's `iat`, in seconds.
+ * @returns {boolean}
+ */
+UserSchema.methods.changedPasswordAfter = function (issuedAt) {
+  if (!this.passwordChangedAt) return false;
+  return Math.floor(this.passwordChangedAt.getTime() / 1000) > issuedAt;
+};
+
+/**
+ * Whether the user is banned right now. A ban with an expiry lapses by
+ * itself; isBanned stays set until the next unban, so check with this.
+ * @param {Date} [now]
+ * @returns {boolean}
+ */
+UserSchema.methods.isBanActive = function (now = new Date()) {
+  if (!this.isBanned) return false;
+  return !this.banExpiresAt || this.banExpiresAt > now;
+};
+
+/**
+ * Query conditions matching users whose ban is in force, the counterpart of
+ * isBanActive for filters.
+ * @param {Date} [now]
+ * @returns {object}
+ */
+UserSchema.statics.activeBanFilter = function (now = new Date()) {
+  return {
+    isBanned: true,
+    $or: [{ banExpiresAt: null }, { banExpiresAt: { $gt: now } }],
+  };
+};
+
+/**
+ * Hashes a password reset token for storage and lookup. The token is long
+ * and random, so a fast hash is enough.
+ * @param {string} token
+ * @returns {string}
+ */
+UserSchema.statics.hashResetToken = function (token) {
+  return crypto.createHash("sha256").update(String(token)).digest("hex");
+};
+
 // Create and export the User model
 const User = mongoose.model("User", UserSchema);
 
@@ -0,0 +1,37 @@
+// models/Watch.js
+const mongoose = require("mongoose");
+
+/**
+ * A user following an auction on their watchlist. Unlike a like, which is a
+ * public show of interest, a watch is private to the user and gets them
+ * notified when the auction starts, gets a new high bid or is about to end.
+ */
+const WatchSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User reference is required."],
+    },
+    auction: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Auction",
+      required: [true, "Auction reference is required."],
+      index: true, // Finding an auction's watchers
+    },
+    endingSoonNotifiedAt: {
+      type: Date,
+      default: null, // Set once the "ending soon" notification went out, so it is sent only once
+    },
+  },
+  {
+    timestamps: true, // createdAt is when the auction was added to the watchlist
+  }
+);
+
+// One watch per user per auction; also lists a user's watchlist
+WatchSchema.index({ user: 1, auction: 1 }, { unique: true });
+
+const Watch = mongoose.model("Watch", WatchSchema);
+
+module.exports = Watch;
@@ -0,0 +1,101 @@
+// routes/adminRoutes.js
+const express = require("express");
+const bidController = require("../controllers/bidController");
+const userController = require("../controllers/userController");
+const auditController = require("../controllers/auditController");
+const reportController = require("../controllers/reportController");
+const { protect, authorize } = require("../middleware/authMiddleware");
+
+const router = express.Router();
+
+// Every admin route needs a logged-in staff member; each route then checks
+// its own permission (see config/permissions)
+router.use(protect, authorize("admin:access"));
+
+// --- List bid retraction requests (?status=pending|approved|rejected|all) ---
+// GET /api/admin/bid-retractions
+router.get(
+  "/bid-retractions",
+  authorize("bids:manage"),
+  bidController.getBidRetractions
+);
+
+// --- Approve a retraction and recalculate the auction's bidding state ---
+// POST /api/admin/bid-retractions/:retractionId/approve
+router.post(
+  "/bid-retractions/:retractionId/approve",
+  authorize("bids:manage"),
+  bidController.approveBidRetraction
+);
+
+// --- Reject a retraction; the bid stands ---
+// POST /api/admin/bid-retractions/:retractionId/reject
+router.post(
+  "/bid-retractions/:retractionId/reject",
+  authorize("bids:manage"),
+  bidController.rejectBidRetraction
+);
+
+// --- List users (?search=&status=all|active|banned&sortBy=&sortOrder=&page=&limit=) ---
+// GET /api/admin/users
+router.get("/users", authorize("users:view"), userController.listUsers);
+
+// --- Ban a user (body: reason, expiresAt?), retracting their live bids ---
+// POST /api/admin/users/:userId/ban
+router.post("/users/:userId/ban", authorize("users:ban"), userController.banUser);
+
+// --- Lift a user's ban (body: reason?) ---
+// POST /api/admin/users/:userId/unban
+router.post("/users/:userId/unban", authorize("users:ban"), userController.unbanUser);
+
+// --- Grant or revoke admin access ---
+// POST/DELETE /api/admin/users/:userId/admin
+router.post(
+  "/users/:userId/admin",
+  authorize("users:manage_roles"),
+  userController.grantAdmin
+);
+router.delete(
+  "/users/:userId/admin",
+  authorize("users:manage_roles"),
+  userController.revokeAdmin
+);
+
+// --- Grant or revoke a staff role (moderator, support, finance) ---
+// POST/DELETE /api/admin/users/:userId/roles/:role
+router.post(
+  "/users/:userId/roles/:role",
+  authorize("users:manage_roles"),
+  userController.grantRole
+);
+router.delete(
+  "/users/:userId/roles/:role",
+  authorize("users:manage_roles"),
+  userController.revokeRole
+);
+
+// --- List auction reports (?status=pending|resolved|dismissed|all&reason=&search=&page=&limit=) ---
+// GET /api/admin/reports
+router.get("/reports", authorize("reports:manage"), reportController.getReports);
+
+// --- Resolve a report (body: note?, hideAuction?, banSeller?, banReason?, banExpiresAt?) ---
+// POST /api/admin/reports/:reportId/resolve
+router.post(
+  "/reports/:reportId/resolve",
+  authorize("reports:manage"),
+  reportController.resolveReport
+);
+
+// --- Dismiss a report (body: note?) ---
+// POST /api/admin/reports/:reportId/dismiss
+router.post(
+  "/reports/:reportId/dismiss",
+  authorize("reports:manage"),
+  reportController.dismissReport
+);
+
+// --- Staff actions, newest first (?action=&target=&actor=&page=&limit=) ---
+// GET /api/admin/audit-log
+router.get("/audit-log", authorize("audit:view"), auditController.getAuditLog);
+
+module.exports = router;
@@ -6,14 +6,37 @@ const {
   getAuctionById,
   updateAuction,
   deleteAuction,
+  publishAuction,
+  cancelAuction,
   toggleLikeAuction,
+  buyNow,
+  acceptDutchPrice,
   getMyAuctions,
   getLikedAuctions,
+  watchAuction,
+  unwatchAuction,
 } = require("../controllers/auctionController");
-const { protect } = require("../middleware/authMiddleware"); // Import authentication middleware
+const { createReport } = require("../controllers/reportController");
+const {
+  protect,
+  optionalAuth,
+  requireVerifiedEmail,
+  authorize,
+} = require("../middleware/authMiddleware"); // Import authentication middleware
+const { queueByAuction } = require("../middleware/bidQueueMiddleware");
+const mongoose = require("mongoose");
+const Auction = require("../models/Auction");
 
 const router = express.Router();
 
+// Resolves the auction's seller, so sellers can manage their own auctions
+// without the staff permission
+const auctionSeller = async (req) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) return null;
+  const auction = await Auction.findById(req.params.id).select("seller");
+  return auction ? auction.seller : null;
+};
+
 // --- Public Routes ---
 
 /**
@@ -28,9 +51,9 @@ router.get("/", listAuctions);
 /**
  * @route   POST /api/v1/auctions
  * @desc    Create a new auction
- * @access  Private
+ * @access  Private (verified email)
  */
-router.post("/", protect, createAuction);
+router.post("/", protect, requireVerifiedEmail, createAuction);
 
 /**
  * @route   GET /api/v1/auctions/my-auctions
@@ -42,24 +65,53 @@ router.get("/my-auctions", protect, getMyAuctions);
 
 /**
  * @route   GET /api/v1/auctions/:id
- * @desc    Get single auction details by ID
+ * @desc    Get single auction details by ID (drafts only for their seller)
  * @access  Public
  */
-router.get("/:id", getAuctionById);
+router.get("/:id", optionalAuth, getAuctionById);
 
 /**
  * @route   PUT /api/v1/auctions/:id
- * @desc    Update an auction (Seller or Admin only - controller handles authorization)
- * @access  Private
+ * @desc    Update an auction
+ * @access  Private (Seller, or auctions:manage)
  */
-router.put("/:id", protect, updateAuction);
+router.put(
+  "/:id",
+  protect,
+  authorize("auctions:manage", { allowOwner: auctionSeller }),
+  updateAuction
+);
 
 /**
  * @route   DELETE /api/v1/auctions/:id
- * @desc    Delete an auction (Seller or Admin only - controller handles authorization)
- * @access  Private
+ * @desc    Delete an auction
+ * @access  Private (Seller, or auctions:manage)
+ */
+router.delete(
+  "/:id",
+  protect,
+  authorize("auctions:manage", { allowOwner: auctionSeller }),
+  deleteAuction
+);
+
+/**
+ * @route   POST /api/v1/auctions/:id/publish
+ * @desc    Validate a draft and schedule it (Seller only)
+ * @access  Private (verified email)
  */
-router.delete("/:id", protect, deleteAuction);
+router.post("/:id/publish", protect, requireVerifiedEmail, publishAuction);
+
+/**
+ * @route   PATCH /api/v1/auctions/:id/cancel
+ * @desc    Cancel a scheduled or live auction
+ * @access  Private (Seller, or auctions:suspend)
+ */
+router.patch(
+  "/:id/cancel",
+  protect,
+  authorize("auctions:suspend", { allowOwner: auctionSeller }),
+  cancelAuction
+);
 
 /**
  * @route   PATCH /api/v1/auctions/:id/like
@@ -68,6 +120,41 @@ router.delete("/:id", protect, deleteAuction);
  */
 router.patch("/:id/like", protect, toggleLikeAuction);
 
+/**
+ * @route   POST /api/v1/auctions/:id/buy-now
+ * @desc    Buy an auction outright at its Buy It Now price, ending it
+ * @access  Private (verified email)
+ */
+router.post("/:id/buy-now", protect, requireVerifiedEmail, queueByAuction("id"), buyNow);
+
+/**
+ * @route   POST /api/v1/auctions/:id/accept
+ * @desc    Accept a Dutch auction's current price, winning it
+ * @access  Private (verified email)
+ */
+router.post("/:id/accept", protect, requireVerifiedEmail, queueByAuction("id"), acceptDutchPrice);
+
+/**
+ * @route   POST /api/v1/auctions/:id/watch
+ * @desc    Add an auction to the user's watchlist
+ * @access  Private
+ */
+router.post("/:id/watch", protect, watchAuction);
+
+/**
+ * @route   DELETE /api/v1/auctions/:id/watch
+ * @desc    Remove an auction from the user's watchlist
+ * @access  Private
+ */
+router.delete("/:id/watch", protect, unwatchAuction);
+
+/**
+ * @route   POST /api/v1/auctions/:id/reports
+ * @desc    Report an auction to the moderators (one open report per user)
+ * @access  Private
+ */
+router.post("/:id/reports", protect, createReport);
+
 /**
  * @route   GET /api/v1/auctions/liked-auctions
  * @desc    Get auctions liked by the logged-in user
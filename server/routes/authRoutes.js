@@ -4,15 +4,31 @@ const router = express.Router();
 const {
   registerUser,
   loginUser,
+  refreshAccessToken,
+  logoutUser,
+  getSessions,
+  deleteSession,
   verifyUserToken,
+  verifyEmail,
+  resendOtp,
+  forgotPassword,
+  resetPassword,
   updateUserProfilePicture,
 } = require("../controllers/authController");
-const { protect, adminOnly } = require("../middleware/authMiddleware"); // Import both middleware functions
+const { protect, optionalAuth } = require("../middleware/authMiddleware");
 
 // Routes
 router.post("/register", registerUser);
 router.post("/login", loginUser);
+router.post("/refresh", refreshAccessToken);
+router.post("/logout", optionalAuth, logoutUser);
+router.get("/sessions", protect, getSessions);
+router.delete("/sessions/:id", protect, deleteSession);
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
 router.get("/verify-token", protect, verifyUserToken);
+router.post("/verify-email", protect, verifyEmail);
+router.post("/resend-otp", protect, resendOtp);
 router.patch("/profile-picture", protect, updateUserProfilePicture);
 
 module.exports = router;
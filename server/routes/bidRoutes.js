@@ -1,18 +1,33 @@
 // routes/bidRoutes.js
 const express = require("express");
 const bidController = require("../controllers/bidController");
-const { protect } = require("../middleware/authMiddleware"); // Assuming you have this auth middleware
+const { protect, requireVerifiedEmail } = require("../middleware/authMiddleware"); // Assuming you have this auth middleware
+const { queueByAuction } = require("../middleware/bidQueueMiddleware");
 
 const router = express.Router({ mergeParams: true }); // mergeParams allows access to :auctionId from parent router
 
 // --- Place a bid on a specific auction ---
 // POST /api/bids/
-router.post("/", protect, bidController.placeBid);
+// Queued per auction so simultaneous bids are handled in arrival order.
+// Only users with a verified email can bid.
+router.post("/", protect, requireVerifiedEmail, queueByAuction(), bidController.placeBid);
 
 // --- Get all bids for a specific auction ---
 // GET /api/bids/
 router.get("/", bidController.getBidsForAuction);
 
+// --- Get the logged-in user's maximum (proxy) bid for an auction ---
+// GET /api/auctions/:auctionId/bids/proxy
+router.get("/proxy", protect, bidController.getMyProxyBid);
+
+// --- Cancel the logged-in user's maximum (proxy) bid for an auction ---
+// DELETE /api/auctions/:auctionId/bids/proxy
+router.delete("/proxy", protect, bidController.cancelProxyBid);
+
+// --- Ask for one of the logged-in user's bids to be retracted ---
+// POST /api/auctions/:auctionId/bids/:bidId/retract
+router.post("/:bidId/retract", protect, bidController.requestBidRetraction);
+
 // --- Get a specific bid for an auction ---
 // GET /api/bids/me
 router.get("/me", protect, bidController.getMyBids);
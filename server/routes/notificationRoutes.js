@@ -0,0 +1,26 @@
+// routes/notificationRoutes.js
+const express = require("express");
+const notificationController = require("../controllers/notificationController");
+const { protect } = require("../middleware/authMiddleware");
+
+const router = express.Router();
+
+// Notifications are always the logged-in user's own
+router.use(protect);
+
+// --- List notifications, newest first (?unread=true, page, limit) ---
+// GET /api/notifications
+router.get("/", notificationController.getMyNotifications);
+
+// --- Mark every notification as read ---
+// PATCH /api/notifications/read-all
+router.patch("/read-all", notificationController.markAllNotificationsRead);
+
+// --- Mark one notification as read ---
+// PATCH /api/notifications/:notificationId/read
+router.patch(
+  "/:notificationId/read",
+  notificationController.markNotificationRead
+);
+
+module.exports = router;
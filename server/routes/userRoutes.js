@@ -0,0 +1,21 @@
+// routes/userRoutes.js
+const express = require("express");
+const { getWatchedAuctions } = require("../controllers/auctionController");
+const {
+  getEmailPreferences,
+  updateEmailPreferences,
+} = require("../controllers/userController");
+const { protect } = require("../middleware/authMiddleware");
+
+const router = express.Router();
+
+// --- Get the logged-in user's watchlist (?status=scheduled|live|ending-soon|closed) ---
+// GET /api/users/me/watchlist
+router.get("/me/watchlist", protect, getWatchedAuctions);
+
+// --- Which notification emails the logged-in user gets ---
+// GET/PATCH /api/users/me/email-preferences
+router.get("/me/email-preferences", protect, getEmailPreferences);
+router.patch("/me/email-preferences", protect, updateEmailPreferences);
+
+module.exports = router;
@@ -0,0 +1,277 @@
+// test/bidConcurrency.test.js
+// Fires hundreds of simultaneous bids at one auction and checks the auction
+// ends up agreeing with the Bid records, then checks that a sale or a
+// retraction failing halfway leaves the auction as it was.
+// Needs a MongoDB: MONGO_URL points at one (a throwaway database is created
+// on it), or MONGOMS_SYSTEM_BINARY at a mongod binary for
+// mongodb-memory-server to start. Without either the tests are skipped.
+// On a standalone server placeBid takes its compare-and-set path and failed
+// writes are undone by hand; on a replica set they run in transactions.
+const { describe, test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const express = require("express");
+const mongoose = require("mongoose");
+
+const Auction = require("../models/Auction");
+const Bid = require("../models/Bid");
+const BidRetraction = require("../models/BidRetraction");
+const auctionController = require("../controllers/auctionController");
+const bidController = require("../controllers/bidController");
+const { queueByAuction } = require("../middleware/bidQueueMiddleware");
+
+const PARALLEL_BIDS = 300;
+const BIDDERS = 25;
+const STARTING_BID = 100;
+const TEST_DB_NAME = "bid_concurrency_test";
+
+const skip =
+  !process.env.MONGO_URL &&
+  !process.env.MONGOMS_SYSTEM_BINARY &&
+  "set MONGO_URL or MONGOMS_SYSTEM_BINARY to run against MongoDB";
+
+let mongoServer;
+let server;
+let baseUrl;
+
+// Stands in for protect: the user comes from a header
+const fakeAuth = (req, res, next) => {
+  req.user = { id: req.get("x-user-id") };
+  next();
+};
+
+const newUserId = () => new mongoose.Types.ObjectId().toString();
+
+const post = async (path, userId, body = {}) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-user-id": userId },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  let json = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Express's default error handler answers in HTML
+  }
+  return { status: response.status, body: json };
+};
+
+const createLiveAuction = (fields = {}) =>
+  Auction.create({
+    title: "Concurrency test lot",
+    description: "Bid on from many requests at once",
+    imageUrl: "https://example.com/lot.jpg",
+    startingBid: STARTING_BID,
+    bidIncrement: { type: "fixed", value: 1 },
+    seller: new mongoose.Types.ObjectId(),
+    startTime: new Date(Date.now() - 60 * 1000),
+    endTime: new Date(Date.now() + 60 * 60 * 1000),
+    status: "live",
+    ...fields,
+  });
+
+// Takes the sequence number the next bid on the auction would get, so
+// saving that bid fails on the unique (auction, sequence) index after the
+// auction itself has already been written
+const blockNextSequence = (auction) =>
+  Bid.create({
+    auction: auction._id,
+    bidder: new mongoose.Types.ObjectId(),
+    amount: auction.currentBid,
+    sequence: auction.bidSequence + 1,
+  });
+
+// Checks a sale that failed to record its bid left the auction open and
+// untouched
+const assertStillOpen = async (auction) => {
+  const reloaded = await Auction.findById(auction._id);
+  assert.equal(reloaded.status, "live");
+  assert.equal(reloaded.outcome, null);
+  assert.equal(reloaded.winner, null);
+  assert.equal(reloaded.hammerPrice, null);
+  assert.equal(reloaded.closedAt, null);
+  assert.equal(reloaded.bidCount, auction.bidCount);
+  assert.equal(reloaded.currentBid, auction.currentBid);
+  assert.equal(reloaded.endTime.getTime(), auction.endTime.getTime());
+  assert.equal(String(reloaded.highestBidder), String(auction.highestBidder));
+};
+
+describe("bidding against MongoDB", { skip }, () => {
+  before(async () => {
+    let uri = process.env.MONGO_URL;
+    if (!uri) {
+      // Only needed without MONGO_URL, and only installed as a devDependency
+      const { MongoMemoryServer } = require("mongodb-memory-server");
+      mongoServer = await MongoMemoryServer.create();
+      uri = mongoServer.getUri();
+    }
+    await mongoose.connect(uri, { dbName: TEST_DB_NAME });
+    await Bid.init(); // The sequence index the undo tests rely on
+
+    const app = express();
+    app.use(express.json());
+    // As mounted in app.js: bids on one auction are queued
+    app.post("/queued/:auctionId/bids", fakeAuth, queueByAuction(), bidController.placeBid);
+    // Without the queue, so only the compare-and-set keeps bids apart
+    app.post("/direct/:auctionId/bids", fakeAuth, bidController.placeBid);
+    app.post("/auctions/:id/buy-now", fakeAuth, auctionController.buyNow);
+    app.post("/auctions/:id/accept", fakeAuth, auctionController.acceptDutchPrice);
+    app.post(
+      "/retractions/:retractionId/approve",
+      fakeAuth,
+      bidController.approveBidRetraction
+    );
+
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(async () => {
+    if (server) await new Promise((resolve) => server.close(resolve));
+    if (mongoose.connection.readyState === 1) {
+      await mongoose.connection.dropDatabase();
+      await mongoose.disconnect();
+    }
+    if (mongoServer) await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      Auction.deleteMany({}),
+      Bid.deleteMany({}),
+      BidRetraction.deleteMany({}),
+    ]);
+  });
+
+  describe("parallel bids", () => {
+    // Sends PARALLEL_BIDS bids at once, each a little above the one sent
+    // before it, from a rotating set of bidders
+    const fireParallelBids = async (prefix, auctionId) => {
+      const bidders = Array.from({ length: BIDDERS }, newUserId);
+      return Promise.all(
+        Array.from({ length: PARALLEL_BIDS }, (_, index) =>
+          post(`/${prefix}/${auctionId}/bids`, bidders[index % BIDDERS], {
+            amount: STARTING_BID + index * 5,
+          })
+        )
+      );
+    };
+
+    const assertConsistent = async (auctionId, responses) => {
+      for (const { status, body } of responses) {
+        assert.ok([201, 400, 409].includes(status), `unexpected ${status}: ${body?.message}`);
+      }
+      const accepted = responses.filter(({ status }) => status === 201);
+      assert.ok(accepted.length > 0, "no bid was accepted");
+
+      const auction = await Auction.findById(auctionId);
+      const bids = await Bid.find({ auction: auctionId }).sort({ sequence: 1 });
+
+      // Every accepted request left exactly one Bid record, and nothing else did
+      assert.equal(bids.length, accepted.length);
+      assert.deepEqual(
+        bids.map((bid) => bid._id.toString()).sort(),
+        accepted.map(({ body }) => body.bid._id).sort()
+      );
+
+      // The counters match the records
+      assert.equal(auction.bidCount, bids.length);
+      assert.equal(auction.bidSequence, bids.length);
+      assert.deepEqual(
+        bids.map((bid) => bid.sequence),
+        bids.map((_, index) => index + 1)
+      );
+
+      // Each bid beat the one before it, and the last one leads
+      for (let index = 1; index < bids.length; index += 1) {
+        assert.ok(
+          bids[index].amount >= auction.getNextBidAbove(bids[index - 1].amount),
+          `bid ${bids[index].sequence} (${bids[index].amount}) doesn't beat ${bids[index - 1].amount}`
+        );
+      }
+      const topBid = bids[bids.length - 1];
+      assert.equal(auction.currentBid, topBid.amount);
+      assert.equal(auction.currentBid, Math.max(...bids.map((bid) => bid.amount)));
+      assert.equal(auction.highestBidder.toString(), topBid.bidder.toString());
+    };
+
+    test("through the bid queue leave a consistent auction", { timeout: 120000 }, async () => {
+      const auction = await createLiveAuction();
+      const responses = await fireParallelBids("queued", auction._id);
+      await assertConsistent(auction._id, responses);
+    });
+
+    test("without the queue leave a consistent auction", { timeout: 120000 }, async () => {
+      const auction = await createLiveAuction();
+      const responses = await fireParallelBids("direct", auction._id);
+      await assertConsistent(auction._id, responses);
+    });
+  });
+
+  describe("failed writes", () => {
+    test("a Buy It Now whose bid can't be saved reopens the auction", async () => {
+      const auction = await createLiveAuction({ buyNowPrice: 500 });
+      await blockNextSequence(auction);
+
+      const { status } = await post(`/auctions/${auction._id}/buy-now`, newUserId());
+
+      assert.equal(status, 500);
+      await assertStillOpen(auction);
+      assert.equal(await Bid.countDocuments({ auction: auction._id, isBuyNow: true }), 0);
+    });
+
+    test("a Dutch acceptance whose bid can't be saved reopens the auction", async () => {
+      const auction = await createLiveAuction({
+        auctionType: "dutch",
+        dutchSchedule: { decrement: 5, intervalMinutes: 10, floorPrice: 50 },
+      });
+      await blockNextSequence(auction);
+
+      const { status } = await post(`/auctions/${auction._id}/accept`, newUserId());
+
+      assert.equal(status, 500);
+      await assertStillOpen(auction);
+      assert.equal(await Bid.countDocuments({ auction: auction._id, isAcceptance: true }), 0);
+    });
+
+    test("a retraction approval that can't update the auction is undone", async (t) => {
+      const auction = await createLiveAuction();
+      const [firstBidder, secondBidder] = [newUserId(), newUserId()];
+      await post(`/queued/${auction._id}/bids`, firstBidder, { amount: STARTING_BID });
+      const { body } = await post(`/queued/${auction._id}/bids`, secondBidder, {
+        amount: STARTING_BID + 10,
+      });
+      const retraction = await BidRetraction.create({
+        auction: auction._id,
+        bid: body.bid._id,
+        bidder: secondBidder,
+        amount: STARTING_BID + 10,
+        reason: "Typed the wrong amount",
+      });
+      const original = await Auction.findById(auction._id);
+
+      // Stands in for the auction closing between the Bid writes and the
+      // auction update
+      const findOneAndUpdate = Auction.findOneAndUpdate;
+      t.mock.method(Auction, "findOneAndUpdate", function (filter, ...rest) {
+        return findOneAndUpdate.call(this, { ...filter, status: "closed" }, ...rest);
+      });
+
+      const { status } = await post(`/retractions/${retraction._id}/approve`, newUserId());
+
+      assert.equal(status, 409);
+      const reloadedRetraction = await BidRetraction.findById(retraction._id);
+      assert.equal(reloadedRetraction.status, "pending");
+      assert.equal(reloadedRetraction.reviewedBy, null);
+      const bid = await Bid.findById(body.bid._id);
+      assert.equal(bid.isRetracted, false);
+      const reloaded = await Auction.findById(auction._id);
+      assert.equal(reloaded.currentBid, original.currentBid);
+      assert.equal(reloaded.bidCount, original.bidCount);
+      assert.equal(reloaded.highestBidder.toString(), secondBidder);
+    });
+  });
+});
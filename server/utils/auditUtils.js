@@ -0,0 +1,20 @@
+// src/utils/auditUtils.js
+const AuditLog = require("../models/AuditLog");
+
+/**
+ * Records a staff action in the audit log.
+ * @param {{ actor: ObjectId, action: string, targetType: 'User'|'Auction'|'Report',
+ *   target: ObjectId, reason?: string, details?: object }} entry
+ * @returns {Promise<AuditLog>}
+ */
+const recordAudit = ({ actor, action, targetType, target, reason = null, details = null }) =>
+  AuditLog.create({
+    actor: actor,
+    action: action,
+    targetType: targetType,
+    target: target,
+    reason: reason,
+    details: details,
+  });
+
+module.exports = { recordAudit };
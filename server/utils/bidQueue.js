@@ -0,0 +1,55 @@
+// src/utils/bidQueue.js
+
+/**
+ * Keyed mutex held in this process's memory: tasks sharing a key run one at
+ * a time, in the order they were queued, while different keys run freely.
+ * Only orders requests reaching this instance; running several instances
+ * needs a shared adapter (e.g. a Redis lock) with the same shape.
+ * @returns {{ runExclusive: (key: string, task: () => Promise<T>) => Promise<T> }}
+ */
+const createInMemoryLockAdapter = () => {
+  const tails = new Map(); // key -> promise settling when the last queued task finishes
+
+  const runExclusive = (key, task) => {
+    const previous = tails.get(key) || Promise.resolve();
+    const result = previous.then(() => task());
+    // The next task waits for this one whether it succeeds or fails
+    const tail = result.catch(() => {});
+    tails.set(key, tail);
+    tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key); // Nothing queued behind it
+    });
+    return result;
+  };
+
+  return { runExclusive };
+};
+
+let adapter = createInMemoryLockAdapter();
+
+/**
+ * Replaces the lock adapter, e.g. with a distributed one when running more
+ * than one server instance.
+ * @param {{ runExclusive: Function }} nextAdapter
+ */
+const setBidQueueAdapter = (nextAdapter) => {
+  if (typeof nextAdapter?.runExclusive !== "function") {
+    throw new Error("A bid queue adapter must provide runExclusive(key, task).");
+  }
+  adapter = nextAdapter;
+};
+
+/**
+ * Runs a task once every earlier task queued for the same auction is done.
+ * @param {string} auctionId
+ * @param {() => Promise<T>} task
+ * @returns {Promise<T>} The task's result.
+ */
+const runInBidQueue = (auctionId, task) =>
+  adapter.runExclusive(`auction:${auctionId}`, task);
+
+module.exports = {
+  createInMemoryLockAdapter,
+  setBidQueueAdapter,
+  runInBidQueue,
+};
@@ -0,0 +1,187 @@
+// src/utils/bidUtils.js
+const Bid = require("../models/Bid");
+const ProxyBid = require("../models/ProxyBid");
+
+/**
+ * Plays out all active proxy (maximum) bids on an auction against the current
+ * leader, eBay-style: the strongest ceiling wins at one increment above the
+ * runner-up's ceiling, and equal ceilings go to whoever set theirs first.
+ * Steps follow the auction's bid increment rule.
+ * Does not write anything; the caller records the returned bids.
+ * @param {Auction} auction - The auction being bid on.
+ * @param {{ currentBid: number, highestBidder: ObjectId }} state - State after the triggering bid.
+ * @param {ClientSession} [session] - Mongoose session of the surrounding transaction.
+ * @param {{ bidder: ObjectId, maxAmount: number, updatedAt: Date }} [pendingProxy] - A ceiling
+ *   being set by this request and not saved yet; replaces the bidder's stored one.
+ * @returns {Promise<Array<{ bidder: ObjectId, amount: number }>>} Automatic bids, in order.
+ */
+const resolveProxyBids = async (auction, state, session = null, pendingProxy = null) => {
+  let proxies = await ProxyBid.find({ auction: auction._id, isActive: true })
+    .sort({ maxAmount: -1, updatedAt: 1 })
+    .session(session);
+  if (pendingProxy) {
+    proxies = proxies
+      .filter((proxy) => !proxy.bidder.equals(pendingProxy.bidder))
+      .concat(pendingProxy)
+      .sort((a, b) => b.maxAmount - a.maxAmount || a.updatedAt - b.updatedAt);
+  }
+
+  const autoBids = [];
+  let { currentBid, highestBidder } = state;
+
+  const record = (bidder, amount) => {
+    autoBids.push({ bidder, amount });
+    currentBid = amount;
+    highestBidder = bidder;
+  };
+  const isLeader = (proxy) =>
+    !!highestBidder && proxy.bidder.equals(highestBidder);
+
+  // Every pass either exhausts a challenger or replaces the leader with a
+  // stronger ceiling, so the loop always terminates.
+  for (;;) {
+    const challenger = proxies.find(
+      (proxy) => !isLeader(proxy) && proxy.maxAmount > currentBid
+    );
+    if (!challenger) break;
+
+    const leader = highestBidder;
+    const leaderProxy = proxies.find(isLeader);
+    const leaderMax = leaderProxy
+      ? Math.max(leaderProxy.maxAmount, currentBid)
+      : currentBid;
+
+    const challengerWins =
+      challenger.maxAmount > leaderMax ||
+      (challenger.maxAmount === leaderMax &&
+        !!leaderProxy &&
+        challenger.updatedAt < leaderProxy.updatedAt);
+
+    if (challengerWins) {
+      // Leader's proxy is used up, then the challenger steps just above it
+      if (leaderMax > currentBid) record(leader, leaderMax);
+      record(
+        challenger.bidder,
+        Math.min(challenger.maxAmount, auction.getNextBidAbove(currentBid))
+      );
+    } else {
+      // Challenger's proxy is used up, then the leader steps just above it
+      record(challenger.bidder, challenger.maxAmount);
+      record(
+        leader,
+        Math.min(leaderMax, auction.getNextBidAbove(challenger.maxAmount))
+      );
+    }
+  }
+
+  return autoBids;
+};
+
+/**
+ * Works out who holds which units of a multi-unit lot. Each bidder's latest
+ * bid stands in for their earlier ones; retracted bids don't count. Standing bids are ranked highest
+ * first (earliest on a tie) and filled in that order until the units run
+ * out, so the last bid to get units may only be filled in part.
+ * Does not write anything; the caller stores the result on the auction.
+ * @param {Auction} auction - The multi-unit auction.
+ * @param {ClientSession} [session] - Mongoose session of the surrounding transaction.
+ * @param {Bid[]} [pendingBids] - Bids from this request, not saved yet.
+ * @returns {Promise<Array<{ bid: ObjectId, bidder: ObjectId, amount: number, quantity: number }>>}
+ *   Allocations, in rank order. The last one's amount is the clearing price.
+ */
+const allocateLotUnits = async (auction, session = null, pendingBids = []) => {
+  const savedBids = await Bid.find({ auction: auction._id, isRetracted: false })
+    .sort({ sequence: -1, createdAt: -1 })
+    .session(session);
+  const bids = [...pendingBids].reverse().concat(savedBids); // Newest first
+
+  const standingBids = [];
+  const seenBidders = new Set();
+  for (const bid of bids) {
+    const bidderKey = bid.bidder.toString();
+    if (seenBidders.has(bidderKey)) continue; // Replaced by a later bid
+    seenBidders.add(bidderKey);
+    standingBids.push(bid);
+  }
+  // Highest first; the sort is stable, so equal bids stay in arrival order
+  standingBids.reverse().sort((a, b) => b.amount - a.amount);
+
+  const allocations = [];
+  let remaining = auction.quantity;
+  for (const bid of standingBids) {
+    if (remaining <= 0) break;
+    const filled = Math.min(bid.quantity, remaining);
+    allocations.push({
+      bid: bid._id,
+      bidder: bid.bidder,
+      amount: bid.amount,
+      quantity: filled,
+    });
+    remaining -= filled;
+  }
+  return allocations;
+};
+
+/**
+ * Rebuilds an auction's bidding state from its remaining (non-retracted) bids,
+ * e.g. after a retraction. The highest remaining bid leads, earliest on a
+ * tie; with none left the auction is back at its starting bid. Sealed-bid
+ * auctions only update the count, their state is worked out at close.
+ * Does not write anything; the caller applies the returned fields.
+ * @param {Auction} auction - The auction to rebuild.
+ * @param {ClientSession} [session] - Mongoose session of the surrounding transaction.
+ * @returns {Promise<object>} Fields to $set on the auction.
+ */
+const recomputeBiddingState = async (auction, session = null) => {
+  const bidCount = await Bid.countDocuments({
+    auction: auction._id,
+    isRetracted: false,
+  }).session(session);
+
+  if (auction.auctionType === "sealed") return { bidCount };
+
+  if (auction.isMultiUnit) {
+    const allocations = await allocateLotUnits(auction, session);
+    return {
+      bidCount,
+      allocations,
+      currentBid: allocations.length
+        ? allocations[allocations.length - 1].amount
+        : auction.startingBid,
+      highestBidder: allocations.length ? allocations[0].bidder : null,
+    };
+  }
+
+  const topBid = await Bid.findOne({ auction: auction._id, isRetracted: false })
+    .sort({ amount: -1, sequence: 1, createdAt: 1 })
+    .session(session);
+  return {
+    bidCount,
+    currentBid: topBid ? topBid.amount : auction.startingBid,
+    highestBidder: topBid ? topBid.bidder : null,
+  };
+};
+
+/**
+ * Compare-and-set filter for a write that bids on an auction: it must still be
+ * live and exactly as it was read. Any bid placed in between changes bidCount
+ * (and currentBid), so the write only lands on the state it was validated
+ * against.
+ * @param {Auction} auction - The snapshot the write was validated against.
+ * @param {Date} now
+ * @returns {object} Filter for Auction.findOneAndUpdate.
+ */
+const getBidWriteGuard = (auction, now) => ({
+  _id: auction._id,
+  status: "live",
+  endTime: { $gt: now },
+  bidCount: auction.bidCount,
+  currentBid: auction.currentBid,
+});
+
+module.exports = {
+  resolveProxyBids,
+  allocateLotUnits,
+  recomputeBiddingState,
+  getBidWriteGuard,
+};
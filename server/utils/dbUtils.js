@@ -0,0 +1,63 @@
+// src/utils/dbUtils.js
+const mongoose = require("mongoose");
+
+let transactionsSupported = null;
+
+/**
+ * Whether the connected MongoDB deployment supports multi-document
+ * transactions, i.e. it is a replica set or a sharded cluster rather than a
+ * standalone server. Checked once per process. MONGO_TRANSACTIONS=false
+ * turns transactions off regardless.
+ * @returns {Promise<boolean>}
+ */
+const supportsTransactions = async () => {
+  if (process.env.MONGO_TRANSACTIONS === "false") return false;
+  if (transactionsSupported === null) {
+    const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+    transactionsSupported = !!hello.setName || hello.msg === "isdbgrid";
+  }
+  return transactionsSupported;
+};
+
+/**
+ * Starts a transaction if the deployment supports one. Pass `session` to
+ * queries as usual. On a standalone server `session` is null, every write
+ * applies immediately and commit/abort do nothing, so callers must make
+ * their first write a compare-and-set and only write the rest once it holds.
+ * @returns {Promise<{ session: ClientSession|null, commit: () => Promise<void>,
+ *   abort: () => Promise<void> }>}
+ */
+const startOptionalTransaction = async () => {
+  if (!(await supportsTransactions())) {
+    return { session: null, commit: async () => {}, abort: async () => {} };
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  return {
+    session,
+    commit: async () => {
+      await session.commitTransaction();
+      session.endSession();
+    },
+    abort: async () => {
+      if (session.inTransaction()) await session.abortTransaction();
+      session.endSession();
+    },
+  };
+};
+
+/**
+ * Whether an error is a transaction write conflict, which is safe to retry.
+ * @param {Error} error
+ * @returns {boolean}
+ */
+const isTransientTransactionError = (error) =>
+  typeof error?.hasErrorLabel === "function" &&
+  error.hasErrorLabel("TransientTransactionError");
+
+module.exports = {
+  supportsTransactions,
+  startOptionalTransaction,
+  isTransientTransactionError,
+};
@@ -0,0 +1,35 @@
+// src/utils/errorUtils.js
+
+/**
+ * Builds an error carrying the HTTP status the controller should answer with.
+ * @param {string} message
+ * @param {number} statusCode
+ * @param {object} [fields] - Extra properties for the handler, e.g. retryAfterSeconds.
+ * @returns {Error}
+ */
+const httpError = (message, statusCode, fields = {}) =>
+  Object.assign(new Error(message), { statusCode }, fields);
+
+/**
+ * Answers a failed request. Errors built with httpError keep their status and
+ * message; anything else is a 500 whose details stay out of production
+ * responses.
+ * @param {Response} res
+ * @param {Error} error
+ * @param {string} message - What failed, shown in production instead of the error.
+ */
+const handleServerError = (res, error, message) => {
+  console.error(error);
+  res.status(error.statusCode || 500).json({
+    success: false,
+    message:
+      process.env.NODE_ENV === "production" && !error.statusCode
+        ? message
+        : error.message,
+  });
+};
+
+module.exports = {
+  httpError,
+  handleServerError,
+};
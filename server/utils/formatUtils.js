@@ -0,0 +1,13 @@
+// src/utils/formatUtils.js
+
+/**
+ * Formats an amount of money for notification and email text, e.g. $1,250.
+ * @param {number} amount
+ * @returns {string}
+ */
+const formatAmount = (amount) =>
+  `$${Number(amount).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+module.exports = {
+  formatAmount,
+};
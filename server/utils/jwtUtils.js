@@ -1,21 +1,33 @@
 // src/utils/jwtUtils.js
 const jwt = require("jsonwebtoken");
+const { jwtSecret, accessTokenTtl } = require("../config/auth");
 
-const generateToken = (payload) => {
-  return jwt.sign(payload, "top-secret", {
-    expiresIn: "30d",
+/**
+ * Signs a short-lived access token. Clients renew it with their session's
+ * refresh token (see utils/sessionUtils).
+ * @param {{ userId: ObjectId, isAdmin: boolean, sessionId: ObjectId }} payload
+ * @returns {string}
+ */
+const generateAccessToken = (payload) => {
+  return jwt.sign(payload, jwtSecret, {
+    expiresIn: accessTokenTtl,
   });
 };
 
+/**
+ * Verifies an access token.
+ * @param {string} token
+ * @returns {object|null} The decoded payload, or null if invalid or expired.
+ */
 const verifyToken = (token) => {
   try {
-    return jwt.verify(token, "top-secret");
+    return jwt.verify(token, jwtSecret);
   } catch (error) {
     return null;
   }
 };
 
 module.exports = {
-  generateToken,
+  generateAccessToken,
   verifyToken,
 };
@@ -0,0 +1,371 @@
+// src/utils/mailUtils.js
+const fs = require("fs/promises");
+const path = require("path");
+const crypto = require("crypto");
+const nodemailer = require("nodemailer");
+const User = require("../models/User");
+const { formatAmount } = require("./formatUtils");
+
+const DEFAULT_FROM = "AuctionVerse <no-reply@auctionverse.local>";
+const CLIENT_URL = (process.env.CLIENT_URL || "http://localhost:8080").replace(/\/+$/, "");
+
+// --- Transports ---
+// A transport is an object with a `name` and an async `send(message)`, where a
+// message is { from, to, subject, text, html }. Swap it with setMailTransport.
+
+/**
+ * Sends mail through an SMTP server.
+ * @param {{ host: string, port?: number, secure?: boolean, user?: string, pass?: string }} options
+ */
+const createSmtpTransport = ({ host, port = 587, secure = false, user, pass }) => {
+  const transporter = nodemailer.createTransport({
+    host: host,
+    port: port,
+    secure: secure, // true for port 465, false to upgrade with STARTTLS
+    auth: user ? { user: user, pass: pass } : undefined,
+  });
+  return {
+    name: "smtp",
+    send: (message) => transporter.sendMail(message),
+  };
+};
+
+/**
+ * For development: writes each email to a text file in `directory`, or logs
+ * it to the console when no directory is given.
+ * @param {{ directory?: string }} [options]
+ */
+const createFileTransport = ({ directory } = {}) => ({
+  name: directory ? "file" : "console",
+  send: async (message) => {
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+    ].join("\n");
+
+    if (!directory) {
+      console.log(`[mail]\n${content}\n`);
+      return;
+    }
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.txt`;
+    await fs.writeFile(path.join(directory, fileName), content);
+  },
+});
+
+/**
+ * Keeps sent emails in `outbox` so tests can assert on them. With a `file`,
+ * the outbox is also written there as a JSON array after every send.
+ * @param {{ file?: string }} [options]
+ */
+const createOutboxTransport = ({ file } = {}) => {
+  const outbox = [];
+  return {
+    name: "outbox",
+    outbox: outbox,
+    send: async (message) => {
+      outbox.push({ ...message, sentAt: new Date().toISOString() });
+      if (file) await fs.writeFile(file, JSON.stringify(outbox, null, 2));
+    },
+    clear: () => {
+      outbox.length = 0;
+    },
+  };
+};
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (smtp, file, console or outbox).
+ * Defaults to SMTP when SMTP_HOST is set and to the console otherwise.
+ */
+const createTransportFromEnv = () => {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+  switch (kind) {
+    case "smtp":
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || undefined,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case "file":
+      return createFileTransport({ directory: process.env.MAIL_FILE_DIR || "mail" });
+    case "outbox":
+      return createOutboxTransport({ file: process.env.MAIL_OUTBOX_FILE });
+    case "console":
+      return createFileTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+};
+
+let transport = null;
+
+/**
+ * Replaces the transport, e.g. with an outbox in tests.
+ * @param {{ name: string, send: (message: object) => Promise<any> }} nextTransport
+ */
+const setMailTransport = (nextTransport) => {
+  transport = nextTransport;
+};
+
+const getMailTransport = () => {
+  if (!transport) transport = createTransportFromEnv();
+  return transport;
+};
+
+// --- Templates ---
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Builds a link into the client app for an email.
+ * @param {string} clientPath - e.g. /reset-password?token=...
+ * @returns {string}
+ */
+const buildClientUrl = (clientPath) => `${CLIENT_URL}${clientPath}`;
+
+const auctionUrl = (auction) => buildClientUrl(`/auction/${auction._id}`);
+
+/**
+ * Lays out an email: a greeting, some paragraphs and an optional button.
+ * Paragraphs are plain text and are escaped for the HTML part.
+ */
+const layout = ({ name, paragraphs, action, footer }) => {
+  const greeting = `Hi ${name},`;
+  const footerText = footer ?? `Manage which emails you get: ${buildClientUrl("/settings/notifications")}`;
+
+  const text = [
+    greeting,
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    "— AuctionVerse",
+    footerText,
+  ].join("\n\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    action
+      ? `<p><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;background:#7c3aed;color:#fff;border-radius:6px;text-decoration:none">${escapeHtml(action.label)}</a></p>`
+      : "",
+    "<p>— AuctionVerse</p>",
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(footerText)}</p>`,
+  ].join("\n");
+
+  return { text, html };
+};
+
+/**
+ * Email templates by name. Each takes the recipient and the template's data
+ * and returns { subject, text, html }.
+ */
+const templates = {
+  welcome: (user) => ({
+    subject: "Welcome to AuctionVerse",
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        "Thanks for signing up. You can now bid on live auctions, watch the ones you're interested in and list your own items.",
+      ],
+      action: { label: "Browse auctions", url: CLIENT_URL },
+    }),
+  }),
+
+  // data: { auction }
+  outbid: (user, { auction }) => ({
+    subject: `You've been outbid on "${auction.title}"`,
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        auction.isMultiUnit
+          ? `Higher bids now hold every unit of "${auction.title}". The clearing price is ${formatAmount(auction.currentBid)}.`
+          : `Someone bid ${formatAmount(auction.currentBid)} on "${auction.title}".`,
+        "Bid again before the auction ends to get back in the lead.",
+      ],
+      action: { label: "Bid again", url: auctionUrl(auction) },
+    }),
+  }),
+
+  // data: { auction, price, units? } - units only for multi-unit lots
+  auction_won: (user, { auction, price, units }) => ({
+    subject: `You won "${auction.title}"`,
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        units
+          ? `You won ${units} ${units === 1 ? "unit" : "units"} of "${auction.title}" at ${formatAmount(price)} each.`
+          : `You won "${auction.title}" for ${formatAmount(price)}.`,
+        "The seller will be in touch about payment and delivery.",
+      ],
+      action: { label: "View auction", url: auctionUrl(auction) },
+    }),
+  }),
+
+  // data: { auction, price, unitsSold? } - unitsSold only for multi-unit lots
+  auction_sold: (user, { auction, price, unitsSold }) => ({
+    subject: `"${auction.title}" sold`,
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        unitsSold !== undefined
+          ? `"${auction.title}" sold ${unitsSold} of ${auction.quantity} units at ${formatAmount(price)} each.`
+          : `"${auction.title}" sold for ${formatAmount(price)}.`,
+      ],
+      action: { label: "View auction", url: auctionUrl(auction) },
+    }),
+  }),
+
+  // data: { auction }
+  ending_soon: (user, { auction }) => ({
+    subject: `"${auction.title}" is ending soon`,
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        `"${auction.title}" on your watchlist ends in less than an hour. The current bid is ${formatAmount(auction.currentBid)}.`,
+      ],
+      action: { label: "Place a bid", url: auctionUrl(auction) },
+    }),
+  }),
+
+  // data: { code, expiresInMinutes }
+  email_verification: (user, { code, expiresInMinutes }) => ({
+    subject: `${code} is your AuctionVerse verification code`,
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        `Your verification code is ${code}. It expires in ${expiresInMinutes} minutes.`,
+        "Enter it on AuctionVerse to confirm your email address. If you didn't sign up, you can ignore this email.",
+      ],
+      footer: "You're getting this email because it was used to sign up for AuctionVerse.",
+    }),
+  }),
+
+  // data: { resetUrl, expiresInMinutes }
+  password_reset: (user, { resetUrl, expiresInMinutes }) => ({
+    subject: "Reset your AuctionVerse password",
+    ...layout({
+      name: user.name,
+      paragraphs: [
+        `We got a request to reset your password. The link below works once and expires in ${expiresInMinutes} minutes.`,
+        "If you didn't ask for this, you can ignore this email; your password stays the same.",
+      ],
+      action: { label: "Reset password", url: resetUrl },
+      footer: "You're getting this email because a password reset was requested for your account.",
+    }),
+  }),
+};
+
+// Which User.emailPreferences flag turns each template off. Templates that
+// are not listed (welcome, email_verification, password_reset) are account
+// emails and always sent.
+const TEMPLATE_PREFERENCES = {
+  outbid: "outbid",
+  auction_won: "auctionWon",
+  auction_sold: "auctionSold",
+  ending_soon: "endingSoon",
+};
+
+/**
+ * Whether the user wants emails for a template.
+ * @param {User} user - Needs emailPreferences.
+ * @param {string} templateName
+ * @returns {boolean}
+ */
+const wantsEmail = (user, templateName) => {
+  const preference = TEMPLATE_PREFERENCES[templateName];
+  return !preference || user.emailPreferences?.[preference] !== false;
+};
+
+// --- Sending ---
+
+/**
+ * Sends one email through the current transport.
+ * @param {{ to: string, subject: string, text: string, html?: string, from?: string }} message
+ * @returns {Promise<any>} Whatever the transport returns.
+ */
+const sendMail = (message) =>
+  getMailTransport().send({ from: process.env.MAIL_FROM || DEFAULT_FROM, ...message });
+
+/**
+ * Renders a template for a user and sends it, unless the user opted out.
+ * @param {User} user - Needs name, email and emailPreferences.
+ * @param {string} templateName - A key of `templates`.
+ * @param {object} [data] - The template's data.
+ * @returns {Promise<boolean>} Whether an email was sent.
+ */
+const sendTemplatedEmail = async (user, templateName, data = {}) => {
+  const template = templates[templateName];
+  if (!template) throw new Error(`Unknown email template: ${templateName}`);
+  if (!user?.email || !wantsEmail(user, templateName)) return false;
+
+  await sendMail({ to: user.email, ...template(user, data) });
+  return true;
+};
+
+/**
+ * Sends a templated email to each of the users in the background, so the
+ * caller (e.g. placing a bid) never waits on the mail server. Failures are
+ * logged, not thrown.
+ * @param {ObjectId[]} userIds
+ * @param {string} templateName
+ * @param {object|((user: User) => object)} [data] - Template data, or a function
+ *   building it per recipient.
+ */
+const queueEmails = (userIds, templateName, data = {}) => {
+  const recipients = [...new Set(userIds.filter(Boolean).map((userId) => userId.toString()))];
+  if (recipients.length === 0) return;
+
+  setImmediate(async () => {
+    try {
+      const users = await User.find({ _id: { $in: recipients } }).select(
+        "name email emailPreferences"
+      );
+      for (const user of users) {
+        const userData = typeof data === "function" ? data(user) : data;
+        await sendTemplatedEmail(user, templateName, userData).catch((error) =>
+          console.error(`Failed to send '${templateName}' email to ${user.email}:`, error)
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to queue '${templateName}' emails:`, error);
+    }
+  });
+};
+
+/**
+ * Like queueEmails, for a user document that is already loaded.
+ * @param {User} user - Needs name, email and emailPreferences.
+ * @param {string} templateName
+ * @param {object} [data]
+ */
+const queueEmail = (user, templateName, data = {}) => {
+  setImmediate(() => {
+    sendTemplatedEmail(user, templateName, data).catch((error) =>
+      console.error(`Failed to send '${templateName}' email to ${user.email}:`, error)
+    );
+  });
+};
+
+module.exports = {
+  createSmtpTransport,
+  createFileTransport,
+  createOutboxTransport,
+  setMailTransport,
+  getMailTransport,
+  buildClientUrl,
+  templates,
+  wantsEmail,
+  sendMail,
+  sendTemplatedEmail,
+  queueEmails,
+  queueEmail,
+};
@@ -0,0 +1,283 @@
+// src/utils/moderationUtils.js
+const User = require("../models/User");
+const Bid = require("../models/Bid");
+const Auction = require("../models/Auction");
+const ProxyBid = require("../models/ProxyBid");
+const { getIO, signOutUserSockets } = require("../config/socket");
+const { recomputeBiddingState } = require("./bidUtils");
+const { runInBidQueue } = require("./bidQueue");
+const { startOptionalTransaction } = require("./dbUtils");
+const { revokeAllSessions } = require("./sessionUtils");
+const { recordAudit } = require("./auditUtils");
+const { httpError } = require("./errorUtils");
+
+/**
+ * Retracts all of a bidder's standing bids on one live auction, stops their
+ * maximum bid there and rebuilds the auction's bidding state, like an
+ * approved retraction. Run inside the auction's bid queue. Throws a 409 if
+ * the auction changes before its bidding state is rebuilt.
+ * @param {ObjectId} auctionId
+ * @param {ObjectId} bidderId
+ * @returns {Promise<ObjectId[]>} The retracted bids; empty if the auction is
+ *   no longer live or the bidder has no standing bids on it.
+ */
+const retractBidderFromAuction = async (auctionId, bidderId) => {
+  const { session, commit, abort } = await startOptionalTransaction();
+  const now = new Date();
+  let bidIds = [];
+  let stoppedProxyBid = null;
+  try {
+    const auction = await Auction.findById(auctionId)
+      .select("+reservePrice")
+      .session(session);
+    if (!auction || !auction.isAcceptingBids(now)) {
+      await abort();
+      return [];
+    }
+
+    bidIds = await Bid.find({
+      auction: auctionId,
+      bidder: bidderId,
+      isRetracted: false,
+    }).distinct("_id").session(session);
+    if (bidIds.length === 0) {
+      await abort();
+      return [];
+    }
+
+    await Bid.updateMany(
+      { _id: { $in: bidIds }, isRetracted: false },
+      { $set: { isRetracted: true, retractedAt: now } },
+      { session: session }
+    );
+    stoppedProxyBid = await ProxyBid.findOneAndUpdate(
+      { auction: auctionId, bidder: bidderId, isActive: true },
+      { $set: { isActive: false } },
+      { session: session }
+    );
+
+    // Only lands on the auction as it was read: still live and with no bid
+    // placed or closing in between
+    const biddingState = await recomputeBiddingState(auction, session);
+    const updatedAuction = await Auction.findOneAndUpdate(
+      {
+        _id: auctionId,
+        status: "live",
+        endTime: { $gt: now },
+        bidCount: auction.bidCount,
+      },
+      { $set: biddingState },
+      { new: true, session: session }
+    ).select("+reservePrice");
+    if (!updatedAuction) {
+      throw httpError("The auction changed while the bids were being retracted.", 409);
+    }
+
+    await commit();
+
+    // Same event as an approved retraction, once per bid, so open auction
+    // pages mark each bid and pick up the rebuilt state
+    const io = getIO();
+    if (io) {
+      await updatedAuction.populate("highestBidder", "name profilePictureUrl _id");
+      const auctionState = {
+        auctionId: auctionId.toString(),
+        currentBid: updatedAuction.currentBid,
+        highestBidder: updatedAuction.highestBidder,
+        bidCount: updatedAuction.bidCount,
+        minimumNextBid: updatedAuction.minimumNextBid,
+        reserveMet: updatedAuction.reserveMet,
+        buyNowAvailable: updatedAuction.buyNowAvailable,
+        ...(updatedAuction.isMultiUnit && {
+          unitsAvailable: updatedAuction.unitsAvailable,
+          allocations: updatedAuction.allocations,
+        }),
+      };
+      bidIds.forEach((bidId) =>
+        io.to(auctionId.toString()).emit("bid_retracted", { ...auctionState, bidId: bidId })
+      );
+    }
+    return bidIds;
+  } catch (error) {
+    await abort();
+    // Without a transaction the writes above stay, so put them back
+    if (!session && bidIds.length > 0) {
+      await Promise.all([
+        Bid.updateMany(
+          { _id: { $in: bidIds } },
+          { $set: { isRetracted: false, retractedAt: null } }
+        ),
+        stoppedProxyBid &&
+          ProxyBid.updateOne(
+            { _id: stoppedProxyBid._id },
+            { $set: { isActive: true } }
+          ),
+      ]).catch((undoError) =>
+        console.error(`Failed to undo retracting bids on auction ${auctionId}:`, undoError)
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Retracts a user's standing bids on every live auction. Closed auctions
+ * keep their result. An auction that fails is logged and skipped, so one bad
+ * auction doesn't leave the rest untouched.
+ * @param {ObjectId} userId
+ * @returns {Promise<{ auctions: number, bids: number }>} What was retracted.
+ */
+const cancelLiveBids = async (userId) => {
+  const auctionIds = await Bid.distinct("auction", { bidder: userId, isRetracted: false });
+  const liveAuctionIds = await Auction.find({
+    _id: { $in: auctionIds },
+    status: "live",
+  }).distinct("_id");
+
+  const retracted = { auctions: 0, bids: 0 };
+  for (const auctionId of liveAuctionIds) {
+    try {
+      // Behind any bid already queued for the auction
+      const bidIds = await runInBidQueue(auctionId.toString(), () =>
+        retractBidderFromAuction(auctionId, userId)
+      );
+      if (bidIds.length > 0) {
+        retracted.auctions += 1;
+        retracted.bids += bidIds.length;
+      }
+    } catch (error) {
+      console.error(`Failed to retract bids of user ${userId} on auction ${auctionId}:`, error);
+    }
+  }
+  return retracted;
+};
+
+/**
+ * Bans a user: signs them out everywhere, retracts their bids on live
+ * auctions and records the ban in the audit log. Banning a banned user
+ * replaces the reason and expiry.
+ * @param {ObjectId} userId
+ * @param {{ actor: ObjectId, reason: string, expiresAt?: Date|null }} ban
+ * @returns {Promise<{ user: User, retracted: { auctions: number, bids: number } }|null>}
+ *   null if the user doesn't exist.
+ */
+const banUser = async (userId, { actor, reason, expiresAt = null }) => {
+  const user = await User.findByIdAndUpdate(
+    userId,
+    {
+      $set: {
+        isBanned: true,
+        banReason: reason,
+        bannedAt: new Date(),
+        banExpiresAt: expiresAt,
+        bannedBy: actor,
+      },
+    },
+    { new: true, runValidators: true }
+  );
+  if (!user) return null;
+
+  // Banned first, so the user can't bid again while their bids are retracted
+  await revokeAllSessions(user._id);
+  signOutUserSockets(user._id);
+  const retracted = await cancelLiveBids(user._id);
+
+  await recordAudit({
+    actor: actor,
+    action: "user_banned",
+    targetType: "User",
+    target: user._id,
+    reason: reason,
+    details: { banExpiresAt: expiresAt, retractedBids: retracted.bids, auctions: retracted.auctions },
+  });
+  return { user, retracted };
+};
+
+/**
+ * Lifts a user's ban and records it in the audit log. Retracted bids stay
+ * retracted.
+ * @param {ObjectId} userId
+ * @param {{ actor: ObjectId, reason?: string }} unban
+ * @returns {Promise<User|null>} null if the user doesn't exist.
+ */
+const unbanUser = async (userId, { actor, reason = null }) => {
+  const user = await User.findByIdAndUpdate(
+    userId,
+    { $set: { isBanned: false, banExpiresAt: null } },
+    { new: true }
+  );
+  if (!user) return null;
+
+  await recordAudit({
+    actor: actor,
+    action: "user_unbanned",
+    targetType: "User",
+    target: user._id,
+    reason: reason,
+  });
+  return user;
+};
+
+/**
+ * Takes an auction down: it disappears from public lists and pages (its
+ * seller still sees it), and one still open is cancelled so nobody can bid
+ * on or win it. Recorded in the audit log.
+ * @param {ObjectId} auctionId
+ * @param {{ actor: ObjectId, reason?: string }} hide
+ * @returns {Promise<Auction|null>} The hidden auction, or null if it doesn't exist.
+ * @throws {Error} With statusCode 409 if the auction changed meanwhile.
+ */
+const hideAuction = async (auctionId, { actor, reason = null }) => {
+  const auction = await Auction.findById(auctionId).select("status hiddenAt");
+  if (!auction) return null;
+
+  const now = new Date();
+  const wasOpen = ["draft", "scheduled", "live"].includes(auction.status);
+  // Matches nothing if the lifecycle job or a seller moved the status since the read
+  const updatedAuction = await Auction.findOneAndUpdate(
+    { _id: auctionId, status: auction.status },
+    {
+      $set: {
+        hiddenAt: auction.hiddenAt || now,
+        ...(wasOpen && { status: "cancelled", closedAt: now }),
+      },
+    },
+    { new: true }
+  );
+  if (!updatedAuction) {
+    throw httpError("Auction changed while hiding it, please retry", 409);
+  }
+
+  if (wasOpen) {
+    await ProxyBid.updateMany(
+      { auction: auctionId, isActive: true },
+      { $set: { isActive: false } }
+    );
+    const io = getIO();
+    if (io) {
+      io.to(auctionId.toString()).emit("auction_ended", {
+        auctionId: auctionId.toString(),
+        endTime: updatedAuction.endTime,
+        status: updatedAuction.status,
+        isBuyNow: false,
+      });
+    }
+  }
+
+  await recordAudit({
+    actor: actor,
+    action: "auction_hidden",
+    targetType: "Auction",
+    target: updatedAuction._id,
+    reason: reason,
+    details: wasOpen ? { cancelledFrom: auction.status } : null,
+  });
+  return updatedAuction;
+};
+
+module.exports = {
+  cancelLiveBids,
+  banUser,
+  unbanUser,
+  hideAuction,
+};
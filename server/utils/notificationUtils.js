@@ -0,0 +1,127 @@
+// src/utils/notificationUtils.js
+const Notification = require("../models/Notification");
+const { getIO, getUserRoom } = require("../config/socket");
+const { formatAmount } = require("./formatUtils");
+const { queueEmails } = require("./mailUtils");
+
+/**
+ * Saves a notification for each user and pushes it to their open sockets as
+ * a `notification` event. Duplicate and empty user IDs are skipped.
+ * @param {ObjectId[]} userIds
+ * @param {{ type: string, title: string, message?: string,
+ *   auction?: Auction|ObjectId, link?: string }} notification
+ *   `link` defaults to the auction's page.
+ * @returns {Promise<Notification[]>} The saved notifications.
+ */
+const notifyUsers = async (userIds, { type, title, message = "", auction = null, link }) => {
+  const recipients = [
+    ...new Set(userIds.filter(Boolean).map((userId) => userId.toString())),
+  ];
+  if (recipients.length === 0) return [];
+
+  const auctionId = auction?._id ?? auction;
+  const notifications = await Notification.insertMany(
+    recipients.map((userId) => ({
+      user: userId,
+      type: type,
+      title: title,
+      message: message,
+      auction: auctionId,
+      link: link ?? (auctionId ? `/auction/${auctionId}` : null),
+    }))
+  );
+
+  const io = getIO();
+  if (io) {
+    notifications.forEach((notification) =>
+      io.to(getUserRoom(notification.user)).emit("notification", notification)
+    );
+  }
+  return notifications;
+};
+
+/**
+ * Saves and pushes a notification for a single user.
+ * @param {ObjectId} userId
+ * @param {object} notification - See notifyUsers.
+ * @returns {Promise<Notification|null>}
+ */
+const notifyUser = async (userId, notification) => {
+  const [saved] = await notifyUsers([userId], notification);
+  return saved ?? null;
+};
+
+/**
+ * Notifies the bidders who lost the lead on an auction, in the app and by
+ * email (sent in the background).
+ * @param {ObjectId[]} userIds - Bidders who were leading (or held units) and no longer do.
+ * @param {Auction} auction - The auction after the bid.
+ * @returns {Promise<Notification[]>}
+ */
+const notifyOutbid = (userIds, auction) => {
+  queueEmails(userIds, "outbid", { auction: auction });
+  return notifyUsers(userIds, {
+    type: "outbid",
+    title: "You've been outbid",
+    message: auction.isMultiUnit
+      ? `Higher bids now hold every unit of "${auction.title}". The clearing price is ${formatAmount(auction.currentBid)}.`
+      : `Someone bid ${formatAmount(auction.currentBid)} on "${auction.title}".`,
+    auction: auction,
+  });
+};
+
+/**
+ * Tells the winners and the seller of an auction that has just sold, in the
+ * app and by email. On a multi-unit lot every bidder in `winners` is told
+ * how many units they won, at the clearing price.
+ * @param {Auction} auction
+ * @param {{ winner: ObjectId, hammerPrice: number,
+ *   winners?: { bidder: ObjectId, quantity: number, price: number }[] }} sale
+ * @returns {Promise<void>}
+ */
+const notifySale = async (auction, { winner, winners, hammerPrice }) => {
+  const price = formatAmount(hammerPrice);
+
+  if (winners && winners.length > 0) {
+    for (const { bidder, quantity: units, price: unitPrice } of winners) {
+      queueEmails([bidder], "auction_won", { auction: auction, price: unitPrice, units: units });
+      await notifyUser(bidder, {
+        type: "auction_won",
+        title: "You won!",
+        message: `You won ${units} ${units === 1 ? "unit" : "units"} of "${auction.title}" at ${formatAmount(unitPrice)} each.`,
+        auction: auction,
+      });
+    }
+    const unitsSold = winners.reduce((total, { quantity }) => total + quantity, 0);
+    queueEmails([auction.seller], "auction_sold", { auction: auction, price: hammerPrice, unitsSold: unitsSold });
+    await notifyUser(auction.seller, {
+      type: "auction_sold",
+      title: "Your auction sold",
+      message: `"${auction.title}" sold ${unitsSold} of ${auction.quantity} units at ${price} each.`,
+      auction: auction,
+    });
+    return;
+  }
+
+  queueEmails([winner], "auction_won", { auction: auction, price: hammerPrice });
+  queueEmails([auction.seller], "auction_sold", { auction: auction, price: hammerPrice });
+  await notifyUser(winner, {
+    type: "auction_won",
+    title: "You won!",
+    message: `You won "${auction.title}" for ${price}.`,
+    auction: auction,
+  });
+  await notifyUser(auction.seller, {
+    type: "auction_sold",
+    title: "Your auction sold",
+    message: `"${auction.title}" sold for ${price}.`,
+    auction: auction,
+  });
+};
+
+module.exports = {
+  notifyUsers,
+  notifyUser,
+  notifyOutbid,
+  notifySale,
+};
@@ -0,0 +1,146 @@
+// src/utils/otpUtils.js
+const crypto = require("crypto");
+const bcrypt = require("bcrypt");
+const Otp = require("../models/Otp");
+const { httpError } = require("./errorUtils");
+
+const OTP_LENGTH = 6;
+const OTP_TTL_MINUTES = Number(process.env.OTP_TTL_MINUTES) || 10;
+const MAX_VERIFY_ATTEMPTS = 5; // Wrong guesses before the code is burned
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_WINDOW = 5;
+const SEND_WINDOW_MS = 60 * 60 * 1000; // One hour
+
+/**
+ * Generates a random numeric code, e.g. "042917".
+ * @returns {string}
+ */
+const generateOtpCode = () =>
+  crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+
+/**
+ * Creates a new code for a user and purpose, replacing any earlier one.
+ * Rate limited: one code per cooldown, and a few per hour.
+ * @param {ObjectId} userId
+ * @param {string} purpose - e.g. 'email_verification'.
+ * @param {Date} [now]
+ * @returns {Promise<{ code: string, expiresInMinutes: number }>} The plain
+ *   code, to be emailed to the user; only its hash is stored.
+ * @throws {Error} With statusCode 429 and retryAfterSeconds when rate limited.
+ */
+const issueOtp = async (userId, purpose, now = new Date()) => {
+  const existing = await Otp.findOne({ user: userId, purpose: purpose });
+
+  let sendCount = 1;
+  let windowStartedAt = now;
+  if (existing) {
+    const sinceLastSend = now - existing.lastSentAt;
+    if (sinceLastSend < RESEND_COOLDOWN_SECONDS * 1000) {
+      const retryAfter = Math.ceil((RESEND_COOLDOWN_SECONDS * 1000 - sinceLastSend) / 1000);
+      throw httpError(
+        `Please wait ${retryAfter} seconds before requesting another code.`,
+        429,
+        { retryAfterSeconds: retryAfter }
+      );
+    }
+    if (now - existing.windowStartedAt < SEND_WINDOW_MS) {
+      if (existing.sendCount >= MAX_SENDS_PER_WINDOW) {
+        const retryAfter = Math.ceil(
+          (existing.windowStartedAt.getTime() + SEND_WINDOW_MS - now) / 1000
+        );
+        throw httpError(
+          "Too many codes requested. Please try again later.",
+          429,
+          { retryAfterSeconds: retryAfter }
+        );
+      }
+      sendCount = existing.sendCount + 1;
+      windowStartedAt = existing.windowStartedAt;
+    }
+  }
+
+  const code = generateOtpCode();
+  const codeHash = await bcrypt.hash(code, 10);
+  const update = {
+    codeHash: codeHash,
+    expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+    attempts: 0,
+    lastSentAt: now,
+    sendCount: sendCount,
+    windowStartedAt: windowStartedAt,
+  };
+  // Compare-and-set on lastSentAt (or the unique index for a first code), so
+  // two simultaneous requests can't both get through the limits above
+  const concurrentSend = () =>
+    httpError("A code was just sent. Please check your email.", 429, {
+      retryAfterSeconds: RESEND_COOLDOWN_SECONDS,
+    });
+  if (existing) {
+    const result = await Otp.updateOne(
+      { _id: existing._id, lastSentAt: existing.lastSentAt },
+      { $set: update }
+    );
+    if (result.matchedCount === 0) throw concurrentSend();
+  } else {
+    try {
+      await Otp.create({ user: userId, purpose: purpose, ...update });
+    } catch (error) {
+      if (error.code === 11000) throw concurrentSend();
+      throw error;
+    }
+  }
+
+  return { code: code, expiresInMinutes: OTP_TTL_MINUTES };
+};
+
+/**
+ * Checks a code a user entered. A correct code is used up; too many wrong
+ * guesses burn the code so a new one has to be requested.
+ * @param {ObjectId} userId
+ * @param {string} purpose
+ * @param {string} code
+ * @param {Date} [now]
+ * @returns {Promise<void>} Resolves when the code was right.
+ * @throws {Error} With statusCode 400 (wrong, expired or missing code) or
+ *   429 (too many wrong guesses).
+ */
+const verifyOtp = async (userId, purpose, code, now = new Date()) => {
+  // Count the attempt up front and atomically, so parallel guesses can't get past the limit
+  const otp = await Otp.findOneAndUpdate(
+    { user: userId, purpose: purpose, attempts: { $lt: MAX_VERIFY_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!otp) {
+    const burned = await Otp.exists({ user: userId, purpose: purpose });
+    throw burned
+      ? httpError("Too many incorrect attempts. Please request a new code.", 429)
+      : httpError("No active code. Please request a new one.", 400);
+  }
+  if (otp.expiresAt <= now) {
+    throw httpError("This code has expired. Please request a new one.", 400);
+  }
+
+  const isMatch =
+    typeof code === "string" &&
+    code.length === OTP_LENGTH &&
+    (await bcrypt.compare(code, otp.codeHash));
+  if (!isMatch) {
+    const attemptsLeft = MAX_VERIFY_ATTEMPTS - otp.attempts;
+    throw attemptsLeft > 0
+      ? httpError(
+          `Incorrect code. ${attemptsLeft} ${attemptsLeft === 1 ? "attempt" : "attempts"} left.`,
+          400
+        )
+      : httpError("Too many incorrect attempts. Please request a new code.", 429);
+  }
+
+  // Single use: the code can't be replayed. The send rate limit lapses with it.
+  await Otp.deleteOne({ _id: otp._id });
+};
+
+module.exports = {
+  OTP_LENGTH,
+  issueOtp,
+  verifyOtp,
+};
@@ -0,0 +1,204 @@
+// src/utils/sessionUtils.js
+const crypto = require("crypto");
+const mongoose = require("mongoose");
+const Session = require("../models/Session");
+const { generateAccessToken } = require("./jwtUtils");
+const { refreshTokenTtlDays } = require("../config/auth");
+const { httpError } = require("./errorUtils");
+
+// A just-replaced refresh token presented this soon after the rotation is
+// most likely a second tab refreshing at the same time, not a stolen token
+const REUSE_GRACE_MS = 10 * 1000;
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+const sessionExpiry = (now) =>
+  new Date(now.getTime() + refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+// A refresh that fails for any reason signs the client out
+const sessionError = (message) => httpError(message, 401);
+
+/**
+ * A refresh token is `<sessionId>.<random secret>`; only a hash of the whole
+ * token is stored.
+ */
+const newRefreshToken = (sessionId) =>
+  `${sessionId}.${crypto.randomBytes(32).toString("hex")}`;
+
+/**
+ * Reads the session ID out of a refresh token.
+ * @returns {string|null} null if the token is malformed.
+ */
+const parseSessionId = (refreshToken) => {
+  const [sessionId] = String(refreshToken).split(".");
+  return mongoose.Types.ObjectId.isValid(sessionId) ? sessionId : null;
+};
+
+const issueTokens = (user, session, refreshToken) => ({
+  accessToken: generateAccessToken({
+    userId: user._id,
+    isAdmin: user.isAdmin,
+    sessionId: session._id,
+  }),
+  refreshToken: refreshToken,
+  session: session,
+});
+
+/**
+ * Signs a user in on a new device.
+ * @param {User} user
+ * @param {express.Request} req - For the device's user agent and IP address.
+ * @returns {Promise<{ accessToken: string, refreshToken: string, session: Session }>}
+ */
+const createSession = async (user, req) => {
+  const now = new Date();
+  const session = new Session({
+    user: user._id,
+    expiresAt: sessionExpiry(now),
+    lastUsedAt: now,
+    userAgent: (req.get("user-agent") || "").slice(0, 500),
+    ipAddress: req.ip || "",
+  });
+  const refreshToken = newRefreshToken(session._id);
+  session.refreshTokenHash = hashToken(refreshToken);
+  await session.save();
+  return issueTokens(user, session, refreshToken);
+};
+
+/**
+ * Swaps a refresh token for a new access token and a new refresh token. The
+ * old refresh token stops working. Presenting an already-replaced token
+ * (outside a short grace period) revokes the whole session, since it means
+ * the token was copied.
+ * @param {string} refreshToken
+ * @param {(userId: ObjectId) => Promise<User|null>} loadUser - Loads the
+ *   session's user, so the caller decides which users may refresh.
+ * @returns {Promise<{ accessToken: string, refreshToken: string, session: Session, user: User }>}
+ * @throws {Error} With statusCode 401 when the token can't be used.
+ */
+const rotateSession = async (refreshToken, loadUser) => {
+  const sessionId = parseSessionId(refreshToken);
+  if (!sessionId) throw sessionError("Invalid refresh token.");
+
+  const now = new Date();
+  const tokenHash = hashToken(String(refreshToken));
+  const nextToken = newRefreshToken(sessionId);
+  // Compare-and-set on the current hash, so a token can only be used once
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: tokenHash,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: now,
+        expiresAt: sessionExpiry(now),
+      },
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const existing = await Session.findById(sessionId).select("+previousTokenHash");
+    if (existing && !existing.revokedAt && existing.previousTokenHash === tokenHash) {
+      if (now - existing.lastUsedAt > REUSE_GRACE_MS) {
+        existing.revokedAt = now;
+        await existing.save();
+        throw sessionError("Refresh token reuse detected. Please log in again.");
+      }
+      throw sessionError("Refresh token was already used.");
+    }
+    throw sessionError("Session has expired or was revoked. Please log in again.");
+  }
+
+  const user = await loadUser(session.user);
+  if (!user) {
+    await Session.updateOne({ _id: session._id }, { $set: { revokedAt: now } });
+    throw sessionError("Account is not available. Please log in again.");
+  }
+  return { ...issueTokens(user, session, nextToken), user: user };
+};
+
+/**
+ * Whether a session can still be used (not revoked, not expired).
+ * @param {ObjectId} sessionId
+ * @returns {Promise<boolean>}
+ */
+const isSessionActive = async (sessionId) => {
+  if (!sessionId) return false;
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return Boolean(session);
+};
+
+/**
+ * Ends the session a refresh token belongs to, if the token is still its
+ * current one. Used for logout when the access token may have expired.
+ * @param {string} refreshToken
+ * @returns {Promise<boolean>} Whether an active session was ended.
+ */
+const endSession = async (refreshToken) => {
+  const sessionId = parseSessionId(refreshToken);
+  if (!sessionId) return false;
+  const result = await Session.updateOne(
+    { _id: sessionId, refreshTokenHash: hashToken(String(refreshToken)), revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revokes one of a user's sessions.
+ * @param {ObjectId} userId
+ * @param {ObjectId} sessionId
+ * @returns {Promise<boolean>} Whether an active session was revoked.
+ */
+const revokeSession = async (userId, sessionId) => {
+  const result = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revokes every session of a user, e.g. after a password reset or a ban.
+ * @param {ObjectId} userId
+ * @returns {Promise<number>} How many sessions were revoked.
+ */
+const revokeAllSessions = async (userId) => {
+  const result = await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Lists a user's active sessions, most recently used first.
+ * @param {ObjectId} userId
+ * @returns {Promise<Session[]>}
+ */
+const listActiveSessions = (userId) =>
+  Session.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+module.exports = {
+  createSession,
+  rotateSession,
+  isSessionActive,
+  endSession,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+};
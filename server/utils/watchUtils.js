@@ -0,0 +1,92 @@
+// src/utils/watchUtils.js
+const Watch = require("../models/Watch");
+const { formatAmount } = require("./formatUtils");
+const { queueEmails } = require("./mailUtils");
+const { notifyUsers } = require("./notificationUtils");
+
+/**
+ * Builds the notification a watcher gets about a watched auction.
+ * @param {Auction} auction - The watched auction.
+ * @param {string} type - 'auction_started', 'new_high_bid' or 'ending_soon'.
+ * @returns {{ type: string, title: string, message: string, auction: Auction }}
+ */
+const buildWatchNotification = (auction, type) => {
+  switch (type) {
+    case "auction_started":
+      return {
+        type: "watched_auction_started",
+        title: "Bidding has opened",
+        message: `"${auction.title}" is now live.`,
+        auction: auction,
+      };
+    case "new_high_bid":
+      return {
+        type: "watched_auction_new_bid",
+        title: "New high bid",
+        message: `"${auction.title}" is now at ${formatAmount(auction.currentBid)}.`,
+        auction: auction,
+      };
+    case "ending_soon":
+      return {
+        type: "watched_auction_ending",
+        title: "Ending soon",
+        message: `"${auction.title}" ends in less than an hour.`,
+        auction: auction,
+      };
+    default:
+      throw new Error(`Unknown watch notification type: ${type}`);
+  }
+};
+
+/**
+ * Notifies everyone watching an auction, except the users in `exclude`
+ * (e.g. the bidder whose bid triggered it).
+ * @param {Auction} auction - Needs title, plus currentBid for 'new_high_bid'.
+ * @param {string} type - See buildWatchNotification.
+ * @param {ObjectId[]} [exclude]
+ * @returns {Promise<number>} How many watchers were notified.
+ */
+const notifyWatchers = async (auction, type, exclude = []) => {
+  const watches = await Watch.find({
+    auction: auction._id,
+    user: { $nin: exclude.filter(Boolean) },
+  }).select("user");
+  const notifications = await notifyUsers(
+    watches.map((watch) => watch.user),
+    buildWatchNotification(auction, type)
+  );
+  return notifications.length;
+};
+
+/**
+ * Tells watchers that an auction is about to end, in the app and by email.
+ * Each watcher is only told once, even if a soft close later pushes the end
+ * back.
+ * @param {Auction} auction - Needs title and currentBid.
+ * @param {Date} now
+ * @returns {Promise<number>} How many watchers were notified.
+ */
+const notifyWatchersEndingSoon = async (auction, now) => {
+  const watches = await Watch.find({
+    auction: auction._id,
+    endingSoonNotifiedAt: null,
+  }).select("_id user");
+  if (watches.length === 0) return 0;
+
+  await Watch.updateMany(
+    { _id: { $in: watches.map((watch) => watch._id) } },
+    { $set: { endingSoonNotifiedAt: now } }
+  );
+  const watcherIds = watches.map((watch) => watch.user);
+  queueEmails(watcherIds, "ending_soon", { auction: auction });
+  const notifications = await notifyUsers(
+    watcherIds,
+    buildWatchNotification(auction, "ending_soon")
+  );
+  return notifications.length;
+};
+
+module.exports = {
+  notifyWatchers,
+  notifyWatchersEndingSoon,
+};